@@ -0,0 +1,106 @@
+/**
+ * Auth Controller Tests
+ * 
+ * This file contains test cases for registering, logging in and refreshing tokens.
+ * It demonstrates:
+ * 1. Issuing token pairs on register and login
+ * 2. Login by username or email
+ * 3. Rejecting wrong credentials and invalid refresh tokens with 401
+ */
+
+import { Request, Response } from 'express';
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { AuthController } from '../../controllers/AuthController';
+import { signToken, verifyToken } from '../../utils/token';
+
+describe('Auth Controller', () => {
+  let sequelize: Sequelize;
+  const controller = new AuthController();
+
+  type Handler = (req: Request, res: Response, next: (error?: unknown) => void) => Promise<unknown>;
+
+  // Run a handler and capture the status, the body sent or the error passed on
+  const run = async (handler: Handler, body: Record<string, unknown>) => {
+    const res: any = { statusCode: 200 };
+    res.status = jest.fn((status: number) => { res.statusCode = status; return res; });
+    res.json = jest.fn((sent: unknown) => { res.body = sent; return res; });
+    const next = jest.fn();
+
+    await handler.call(controller, { body } as Request, res as Response, next);
+    return { status: res.statusCode, body: res.body, error: next.mock.calls[0]?.[0] };
+  };
+
+  const credentials = {
+    username: 'testuser',
+    email: 'Test@Example.com',
+    password: 'pAssword123!',
+    firstName: 'Test',
+    lastName: 'User'
+  };
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should register a user and sign them in', async () => {
+    const { status, body, error } = await run(controller.register, { ...credentials, role: 'admin' });
+    expect(error).toBeUndefined();
+    expect(status).toBe(201);
+    expect(body.tokenType).toBe('Bearer');
+    expect(verifyToken(body.accessToken)).toEqual({ sub: body.user.id, type: 'access' });
+    expect(verifyToken(body.refreshToken, 'refresh')).toEqual({ sub: body.user.id, type: 'refresh' });
+
+    // The role cannot be chosen and the password is never returned
+    expect(body.user.role).toBe('member');
+    expect(body.user.toJSON()).not.toHaveProperty('password');
+
+    const duplicate = await run(controller.register, credentials);
+    expect(duplicate.error).toBeDefined();
+  });
+
+  it('should log in with a username or an email', async () => {
+    const byUsername = await run(controller.login, { username: 'testuser', password: credentials.password });
+    expect(byUsername.error).toBeUndefined();
+    expect(verifyToken(byUsername.body.accessToken)!.sub).toBe(byUsername.body.user.id);
+
+    const byEmail = await run(controller.login, { email: 'TEST@example.com', password: credentials.password });
+    expect(byEmail.error).toBeUndefined();
+    expect(byEmail.body.user.id).toBe(byUsername.body.user.id);
+  });
+
+  it('should reject missing and wrong credentials', async () => {
+    expect((await run(controller.login, { username: 'testuser' })).error).toMatchObject({ status: 400, code: 'bad_request' });
+
+    const wrongPassword = await run(controller.login, { username: 'testuser', password: 'wrong' });
+    expect(wrongPassword.error).toMatchObject({ status: 401, code: 'invalid_credentials' });
+
+    const unknownUser = await run(controller.login, { username: 'nobody', password: credentials.password });
+    expect(unknownUser.error).toMatchObject({ status: 401, code: 'invalid_credentials' });
+  });
+
+  it('should exchange a refresh token for a new token pair', async () => {
+    const { body: login } = await run(controller.login, { username: 'testuser', password: credentials.password });
+
+    const { body, error } = await run(controller.refresh, { refreshToken: login.refreshToken });
+    expect(error).toBeUndefined();
+    expect(verifyToken(body.accessToken)!.sub).toBe(login.user.id);
+    expect(body).not.toHaveProperty('user');
+
+    // Access tokens, garbage and tokens of unknown users are refused
+    const invalid = [login.accessToken, 'not a token', undefined, signToken(9999, 'refresh')];
+    for (const refreshToken of invalid) {
+      expect((await run(controller.refresh, { refreshToken })).error).toMatchObject({ status: 401, code: 'invalid_token' });
+    }
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Calendar Controller Tests
+ * 
+ * This file contains test cases for the iCalendar feeds and their feed tokens.
+ * It demonstrates:
+ * 1. Rendering tasks as VEVENT and VTODO with mapped priorities and statuses
+ * 2. Escaping and folding of iCalendar content lines
+ * 3. Feed tokens that are stored hashed, replaced and revoked
+ * 4. Access checks on the token owner
+ */
+
+import { Request, Response } from 'express';
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Tag } from '../../models/Tag';
+import { ProjectMember } from '../../models/ProjectMember';
+import { FeedToken, hashFeedToken } from '../../models/FeedToken';
+import { CalendarController } from '../../controllers/CalendarController';
+import { authenticateFeed } from '../../middleware/auth';
+
+describe('Calendar Controller', () => {
+  let sequelize: Sequelize;
+  let admin: User;
+  let member: User;
+  let project: Project;
+  const controller = new CalendarController();
+  const dueDate = new Date(Date.now() + 86400000);
+
+  type Handler = (req: Request, res: Response, next: (error?: unknown) => void) => Promise<unknown>;
+
+  // Run a handler and capture the status, the body sent or the error passed on
+  const run = async (handler: Handler, req: Record<string, unknown>) => {
+    const res: any = { statusCode: 200, locals: {} };
+    res.status = jest.fn((status: number) => { res.statusCode = status; return res; });
+    res.set = jest.fn(() => res);
+    res.send = jest.fn((body?: string) => { res.body = body; return res; });
+    res.json = jest.fn((body: unknown) => { res.body = body; return res; });
+    const next = jest.fn();
+
+    await handler.call(controller, { query: {}, params: {}, ...req } as unknown as Request, res as Response, next);
+    return { status: res.statusCode, body: res.body, error: next.mock.calls[0]?.[0] };
+  };
+
+  // Authenticate a feed request with its token the way the route does
+  const authenticate = async (token: string) => {
+    const req: any = { query: { token } };
+    const next = jest.fn();
+    await authenticateFeed(req, {} as Response, next);
+    return { user: req.user as User | undefined, error: next.mock.calls[0]?.[0] };
+  };
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+    ProjectMember.init(ProjectMember.getAttributes(), { ...ProjectMember.options, sequelize });
+    FeedToken.init(FeedToken.getAttributes(), { ...FeedToken.options, sequelize });
+
+    Task.belongsToMany(Tag, { through: 'TaskTags', as: 'tags', foreignKey: 'taskId', otherKey: 'tagId' });
+    Tag.belongsToMany(Task, { through: 'TaskTags', as: 'tasks', foreignKey: 'tagId', otherKey: 'taskId' });
+
+    await sequelize.sync({ force: true });
+
+    const userData = { password: 'pAssword123!', firstName: 'Test', lastName: 'User' };
+    admin = await User.create({ ...userData, username: 'admin', email: 'admin@example.com', role: 'admin' });
+    member = await User.create({ ...userData, username: 'member', email: 'member@example.com' });
+
+    project = await Project.create({
+      name: 'Backend, API',
+      status: 'active',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 2 * 86400000),
+      userId: admin.id
+    });
+
+    const [first] = await Task.bulkCreate([
+      { title: 'Write docs; a title long enough to be folded over two content lines', description: 'One\nTwo', dueDate, priority: 'high', userId: member.id, projectId: project.id },
+      { title: 'Started', dueDate, status: 'in_progress', priority: 'low', userId: admin.id, projectId: project.id },
+      { title: 'Dropped', dueDate, status: 'cancelled', userId: member.id, projectId: project.id }
+    ]);
+    const [backend, docs] = await Tag.bulkCreate([{ name: 'backend' }, { name: 'docs' }]);
+    await sequelize.models.TaskTags.bulkCreate([
+      { taskId: first.id, tagId: docs.id },
+      { taskId: first.id, tagId: backend.id }
+    ]);
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should render the tasks of a user as events', async () => {
+    const { status, body, error } = await run(controller.getUserCalendar, { user: member, params: { id: String(member.id) } });
+    expect(error).toBeUndefined();
+    expect(status).toBe(200);
+
+    const lines: string[] = body.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('X-WR-CALNAME:Tasks of member');
+    expect(lines.filter(line => line == 'BEGIN:VEVENT')).toHaveLength(1);
+    expect(lines).toEqual(expect.arrayContaining([
+      'UID:task-1@task-management-api',
+      'DESCRIPTION:One\\nTwo',
+      `DTSTART:${dueDate.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`,
+      'PRIORITY:1',
+      'STATUS:TENTATIVE',
+      'CATEGORIES:backend,docs'
+    ]));
+
+    // Lines longer than 75 octets continue on the next line after a space
+    expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    const summary = lines.findIndex(line => line.startsWith('SUMMARY:'));
+    expect(lines[summary] + lines[summary + 1].slice(1)).toBe('SUMMARY:Write docs\\; a title long enough to be folded over two content lines');
+    expect(body).not.toContain('Dropped');
+  });
+
+  it('should render the tasks of a project as to-dos', async () => {
+    const { body } = await run(controller.getProjectCalendar, {
+      user: admin,
+      params: { id: String(project.id) },
+      query: { component: 'VTODO' }
+    });
+
+    const lines: string[] = body.split('\r\n');
+    expect(lines).toContain('X-WR-CALNAME:Backend\\, API');
+    expect(lines.filter(line => line == 'BEGIN:VTODO')).toHaveLength(2);
+    expect(lines).toEqual(expect.arrayContaining(['STATUS:NEEDS-ACTION', 'STATUS:IN-PROCESS', 'PRIORITY:9', 'UID:task-2@task-management-api']));
+    expect(lines.some(line => line.startsWith('DUE:'))).toBe(true);
+
+    const invalid = await run(controller.getProjectCalendar, { user: admin, params: { id: String(project.id) }, query: { component: 'VJOURNAL' } });
+    expect(invalid.error).toMatchObject({ status: 400, code: 'invalid_query' });
+  });
+
+  it('should create, replace and revoke feed tokens', async () => {
+    const params = { id: String(member.id) };
+    const created = await run(controller.createFeedToken, { user: member, params, baseUrl: '/api/v1/users' });
+    expect(created.status).toBe(201);
+    expect(created.body.calendarUrl).toBe(`/api/v1/users/${member.id}/calendar.ics?token=${created.body.token}`);
+
+    // Only the hash is stored
+    const stored = await FeedToken.findOne({ where: { userId: member.id } });
+    expect(stored!.tokenHash).toBe(hashFeedToken(created.body.token));
+    expect((await authenticate(created.body.token)).user!.id).toBe(member.id);
+
+    // A new token replaces the old one
+    const replaced = await run(controller.createFeedToken, { user: member, params });
+    expect((await authenticate(created.body.token)).error).toMatchObject({ status: 401, code: 'invalid_token' });
+    expect((await authenticate(replaced.body.token)).user!.id).toBe(member.id);
+
+    expect((await run(controller.deleteFeedToken, { user: member, params })).status).toBe(204);
+    expect((await authenticate(replaced.body.token)).error).toMatchObject({ status: 401 });
+    expect((await run(controller.deleteFeedToken, { user: member, params })).error).toMatchObject({ status: 404 });
+  });
+
+  it('should only serve feeds the token owner may read', async () => {
+    const otherUser = await run(controller.getUserCalendar, { user: member, params: { id: String(admin.id) } });
+    expect(otherUser.error).toMatchObject({ status: 403 });
+
+    // The member sees the project through an assigned task, but not the tasks of others
+    const shared = await run(controller.getProjectCalendar, { user: member, params: { id: String(project.id) } });
+    expect(shared.body).toContain('UID:task-1@');
+    expect(shared.body).not.toContain('UID:task-2@');
+
+    const otherProject = await Project.create({
+      name: 'Frontend',
+      status: 'active',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 86400000),
+      userId: admin.id
+    });
+    const hidden = await run(controller.getProjectCalendar, { user: member, params: { id: String(otherProject.id) } });
+    expect(hidden.error).toMatchObject({ status: 403 });
+
+    expect((await run(controller.createFeedToken, { user: member, params: { id: String(admin.id) } })).error).toMatchObject({ status: 403 });
+    expect((await authenticate('')).error).toMatchObject({ status: 401, code: 'unauthenticated' });
+  });
+});
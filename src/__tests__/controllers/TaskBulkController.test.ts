@@ -0,0 +1,160 @@
+/**
+ * Task Bulk Controller Tests
+ * 
+ * This file contains test cases for POST /api/tasks/bulk.
+ * It demonstrates:
+ * 1. Rolling back every operation when one fails in atomic mode
+ * 2. Per-operation results in partial mode
+ * 3. Access checks on each operation
+ */
+
+import { Request, Response } from 'express';
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Tag } from '../../models/Tag';
+import { ProjectMember } from '../../models/ProjectMember';
+import { TaskBulkController } from '../../controllers/TaskBulkController';
+import { ApiError } from '../../utils/errors';
+
+describe('Task Bulk Controller', () => {
+  let sequelize: Sequelize;
+  let owner: User;
+  let outsider: User;
+  let project: Project;
+  const controller = new TaskBulkController();
+
+  // Run the bulk endpoint and capture the response or the error passed on
+  const runBulk = async (user: User, body: unknown) => {
+    const res: any = {};
+    res.json = jest.fn(() => res);
+    const next = jest.fn();
+
+    await controller.runBulk({ user, body } as unknown as Request, res as Response, next);
+    return { body: res.json.mock.calls[0]?.[0], error: next.mock.calls[0]?.[0] };
+  };
+
+  const taskData = (title: string) => ({
+    title,
+    dueDate: new Date(Date.now() + 86400000).toISOString(),
+    projectId: project.id
+  });
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+    ProjectMember.init(ProjectMember.getAttributes(), { ...ProjectMember.options, sequelize });
+
+    Task.belongsTo(User, { as: 'user', foreignKey: 'userId' });
+    Task.belongsTo(Project, { as: 'project', foreignKey: 'projectId' });
+
+    await sequelize.sync({ force: true });
+
+    const createUser = (name: string) => User.create({
+      username: name,
+      email: `${name}@example.com`,
+      password: 'pAssword123!',
+      firstName: 'Test',
+      lastName: 'User'
+    });
+    owner = await createUser('owner');
+    outsider = await createUser('outsider');
+
+    project = await Project.create({
+      name: 'Backend',
+      status: 'active',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 86400000),
+      userId: owner.id
+    });
+  });
+
+  beforeEach(async () => {
+    await Task.destroy({ where: {}, force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should run every operation and report each result', async () => {
+    const existing = await Task.create({ ...taskData('Old title'), userId: owner.id });
+
+    const { body, error } = await runBulk(owner, {
+      operations: [
+        { op: 'create', data: taskData('Write the API') },
+        { op: 'update', id: existing.id, data: { title: 'New title' } }
+      ]
+    });
+
+    expect(error).toBeUndefined();
+    expect(body).toMatchObject({ mode: 'atomic', succeeded: 2, failed: 0 });
+    expect(body.results.map((result: any) => [result.index, result.op, result.status])).toEqual([
+      [0, 'create', 201], [1, 'update', 200]
+    ]);
+    expect((await Task.findByPk(existing.id))!.title).toBe('New title');
+  });
+
+  it('should save nothing when an operation fails in atomic mode', async () => {
+    const existing = await Task.create({ ...taskData('Keep me'), userId: owner.id });
+
+    const { body, error } = await runBulk(owner, {
+      operations: [
+        { op: 'create', data: taskData('Write the API') },
+        { op: 'delete', id: existing.id },
+        { op: 'update', id: existing.id + 100, data: { title: 'Missing' } }
+      ]
+    });
+
+    expect(body).toBeUndefined();
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 422, code: 'bulk_failed' });
+    expect(error.details).toEqual([expect.objectContaining({ index: 2, op: 'update', status: 404, code: 'not_found' })]);
+    expect(await Task.count()).toBe(1);
+  });
+
+  it('should keep the operations that succeeded in partial mode', async () => {
+    const { body } = await runBulk(owner, {
+      mode: 'partial',
+      operations: [
+        { op: 'create', data: taskData('Write the API') },
+        { op: 'create', data: { ...taskData(''), priority: 'urgent' } },
+        { op: 'archive', id: 1 }
+      ]
+    });
+
+    expect(body).toMatchObject({ mode: 'partial', succeeded: 1, failed: 2 });
+    expect(body.results[1]).toMatchObject({ index: 1, status: 422, error: { code: 'validation_failed' } });
+    expect(body.results[2]).toMatchObject({ index: 2, op: 'archive', status: 400, error: { code: 'invalid_operation' } });
+    expect(await Task.count()).toBe(1);
+  });
+
+  it('should check access on each operation', async () => {
+    const existing = await Task.create({ ...taskData('Private'), userId: owner.id });
+
+    const { body } = await runBulk(outsider, {
+      mode: 'partial',
+      operations: [
+        { op: 'create', data: taskData('Sneak in') },
+        { op: 'delete', id: existing.id }
+      ]
+    });
+
+    expect(body.results.map((result: any) => result.status)).toEqual([403, 403]);
+    expect(await Task.count()).toBe(1);
+  });
+
+  it('should reject bodies without operations', async () => {
+    expect((await runBulk(owner, { operations: [] })).error).toMatchObject({ status: 400, code: 'invalid_body' });
+    expect((await runBulk(owner, { mode: 'best_effort', operations: [{ op: 'delete', id: 1 }] })).error)
+      .toMatchObject({ status: 400, code: 'invalid_body' });
+  });
+});
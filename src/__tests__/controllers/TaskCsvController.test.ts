@@ -0,0 +1,212 @@
+/**
+ * Task CSV Controller Tests
+ * 
+ * This file contains test cases for GET /api/tasks/export.csv and POST /api/tasks/import.
+ * It demonstrates:
+ * 1. Exporting with the list filters, names instead of ids and a tags column
+ * 2. Reading quoted values and guarding against spreadsheet formulas
+ * 3. Dry runs reporting the Task validation errors per row
+ * 4. Column mappings and creating missing tags
+ * 5. text/csv uploads with the options in the query
+ */
+
+import { Request, Response } from 'express';
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Tag } from '../../models/Tag';
+import { ProjectMember } from '../../models/ProjectMember';
+import { TaskCsvController } from '../../controllers/TaskCsvController';
+import { parseCsv } from '../../utils/csv';
+
+describe('Task CSV Controller', () => {
+  let sequelize: Sequelize;
+  let admin: User;
+  let member: User;
+  let project: Project;
+  const controller = new TaskCsvController();
+  const tomorrow = new Date(Date.now() + 86400000).toISOString();
+
+  // Run the export and return the CSV written, or the error passed on
+  const runExport = async (user: User, query: Record<string, string> = {}) => {
+    let csv = '';
+    const res: any = {};
+    res.status = jest.fn(() => res);
+    res.set = jest.fn(() => res);
+    res.write = jest.fn((chunk: string) => { csv += chunk; });
+    res.end = jest.fn();
+    const next = jest.fn();
+
+    await controller.exportTasks({ user, query } as unknown as Request, res as Response, next);
+    return { csv, error: next.mock.calls[0]?.[0] };
+  };
+
+  // Run the import and capture the status, the response or the error passed on
+  const runImport = async (user: User, body: unknown, query: Record<string, unknown> = {}) => {
+    const res: any = {};
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    const next = jest.fn();
+
+    await controller.importTasks({ user, body, query } as unknown as Request, res as Response, next);
+    return { status: res.status.mock.calls[0]?.[0] ?? 200, body: res.json.mock.calls[0]?.[0], error: next.mock.calls[0]?.[0] };
+  };
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+    ProjectMember.init(ProjectMember.getAttributes(), { ...ProjectMember.options, sequelize });
+
+    Task.belongsTo(User, { as: 'user', foreignKey: 'userId' });
+    Task.belongsTo(Project, { as: 'project', foreignKey: 'projectId' });
+    Task.belongsToMany(Tag, { through: 'TaskTags', as: 'tags', foreignKey: 'taskId', otherKey: 'tagId' });
+    Tag.belongsToMany(Task, { through: 'TaskTags', as: 'tasks', foreignKey: 'tagId', otherKey: 'taskId' });
+
+    await sequelize.sync({ force: true });
+
+    const userData = { password: 'pAssword123!', firstName: 'Test', lastName: 'User' };
+    admin = await User.create({ ...userData, username: 'admin', email: 'admin@example.com', role: 'admin' });
+    member = await User.create({ ...userData, username: 'member', email: 'member@example.com' });
+
+    project = await Project.create({
+      name: 'Backend',
+      status: 'active',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 86400000),
+      userId: admin.id
+    });
+  });
+
+  beforeEach(async () => {
+    await sequelize.models.TaskTags.destroy({ where: {} });
+    await Task.destroy({ where: {}, force: true });
+    await Tag.destroy({ where: {}, force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should export the filtered tasks with names and a tags column', async () => {
+    const [first, second] = await Task.bulkCreate([
+      { title: 'Write, then "ship"', description: '=HYPERLINK("x")', dueDate: tomorrow, priority: 'high', userId: member.id, projectId: project.id },
+      { title: 'Low priority', dueDate: tomorrow, priority: 'low', userId: admin.id, projectId: project.id }
+    ]);
+    const [backend, urgent] = await Tag.bulkCreate([{ name: 'backend' }, { name: 'urgent' }]);
+    await sequelize.models.TaskTags.bulkCreate([
+      { taskId: first.id, tagId: urgent.id },
+      { taskId: first.id, tagId: backend.id }
+    ]);
+
+    const { csv, error } = await runExport(admin, { priority: 'high' });
+    expect(error).toBeUndefined();
+    expect(csv.startsWith('\uFEFFid,title,description,status,priority,dueDate,user,project,tags,createdAt,updatedAt\r\n')).toBe(true);
+
+    const rows = parseCsv(csv);
+    expect(rows).toHaveLength(2);
+    expect(rows[1].slice(0, 9)).toEqual([
+      String(first.id), 'Write, then "ship"', `'=HYPERLINK("x")`, 'pending', 'high', tomorrow, 'member', 'Backend', 'backend; urgent'
+    ]);
+    expect(csv).not.toContain(`,${second.id},`);
+
+    // Members only export the tasks they can see
+    expect(parseCsv((await runExport(member)).csv)).toHaveLength(2);
+    expect((await runExport(admin, { limit: '5' })).error).toMatchObject({ status: 400, code: 'invalid_query' });
+  });
+
+  it('should report the invalid rows of a dry run without saving anything', async () => {
+    const csv = [
+      'Task name,Due,project,tags,Notes',
+      `Write docs,${tomorrow},Backend,docs; backend,ignored`,
+      `No,${tomorrow},Backend,,`,
+      `Old task,2020-01-01,Backend,,`,
+      `Elsewhere,${tomorrow},Frontend,,`
+    ].join('\n');
+
+    const { status, body, error } = await runImport(admin, {
+      csv,
+      columns: { 'Task name': 'title', Due: 'dueDate' },
+      dryRun: true,
+      createMissingTags: true
+    });
+
+    expect(error).toBeUndefined();
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ dryRun: true, rows: 4, valid: 1, invalid: 3, ignoredColumns: ['Notes'], newTags: ['docs', 'backend'] });
+    expect(body.errors).toMatchObject([
+      { row: 3, code: 'validation_failed', details: [{ field: 'title', rule: 'len' }] },
+      { row: 4, code: 'validation_failed', details: [{ field: 'dueDate', rule: 'isFutureDate' }] },
+      { row: 5, code: 'not_found', error: "Project 'Frontend' not found" }
+    ]);
+    expect(await Task.count()).toBe(0);
+    expect(await Tag.count()).toBe(0);
+
+    // Without a dry run nothing is saved either
+    const failed = await runImport(admin, { csv, columns: { 'Task name': 'title', Due: 'dueDate' }, createMissingTags: true });
+    expect(failed.error).toMatchObject({ status: 422, code: 'import_failed' });
+    expect(await Task.count()).toBe(0);
+  });
+
+  it('should create the tasks and missing tags', async () => {
+    const viewer = await User.create({ username: 'viewer', email: 'viewer@example.com', password: 'pAssword123!', firstName: 'Test', lastName: 'User' });
+    await ProjectMember.create({ projectId: project.id, userId: viewer.id, role: 'viewer' });
+    await Tag.create({ name: 'backend' });
+
+    // Tasks are only assigned to members of their project
+    const outsider = await runImport(admin, { csv: `title,dueDate,project,user\nWrite docs,${tomorrow},Backend,member\n`, dryRun: true });
+    expect(outsider.body.errors).toMatchObject([{ row: 2, code: 'assignee_not_member' }]);
+
+    const csv = `title,dueDate,project,user,tags\r\n"Write docs",${tomorrow},Backend,viewer@example.com,"backend;docs"\r\nShip it,${tomorrow},Backend,,\r\n`;
+
+    const { status, body, error } = await runImport(admin, { csv, createMissingTags: true });
+    expect(error).toBeUndefined();
+    expect(status).toBe(201);
+    expect(body).toMatchObject({ dryRun: false, valid: 2, invalid: 0, newTags: ['docs'] });
+
+    const tasks = await Task.findAll({ include: ['tags'], order: [['id', 'ASC']] });
+    expect(tasks.map(task => [task.title, task.userId])).toEqual([['Write docs', viewer.id], ['Ship it', admin.id]]);
+    expect((tasks[0] as any).tags.map((tag: Tag) => tag.name).sort()).toEqual(['backend', 'docs']);
+    expect(body.taskIds).toEqual(tasks.map(task => task.id));
+  });
+
+  it('should import a text/csv upload with the options in the query', async () => {
+    const csv = `Task name,Due,project,Notes\nWrite docs,${tomorrow},Backend,ignored\nShip it,${tomorrow},Backend,\n`;
+
+    const dryRun = await runImport(admin, csv, { dryRun: 'true', columns: { 'Task name': 'title', Due: 'dueDate', Notes: '' } });
+    expect(dryRun.error).toBeUndefined();
+    expect(dryRun.body).toMatchObject({ dryRun: true, rows: 2, valid: 2, ignoredColumns: ['Notes'] });
+    expect(await Task.count()).toBe(0);
+
+    const { status, body } = await runImport(admin, csv, { columns: { 'Task name': 'title', Due: 'dueDate' } });
+    expect(status).toBe(201);
+    expect(body.taskIds).toHaveLength(2);
+
+    expect((await runImport(admin, csv, { dryRun: 'yes' })).error).toMatchObject({ status: 400, code: 'invalid_query' });
+    expect((await runImport(admin, csv, { columns: 'title' })).error).toMatchObject({ status: 400, code: 'invalid_query' });
+    expect((await runImport(admin, csv, { csv: 'x' })).error).toMatchObject({ status: 400, code: 'invalid_query' });
+    expect((await runImport(admin, '')).error).toMatchObject({ status: 400, code: 'invalid_body' });
+  });
+
+  it('should check access to projects and tags', async () => {
+    const csv = `title,dueDate,project,tags\nWrite docs,${tomorrow},Backend,docs\n`;
+
+    // The member cannot see the project, and only admins create tags
+    const { body } = await runImport(member, { csv, dryRun: true });
+    expect(body.errors).toMatchObject([{ row: 2, code: 'not_found', error: "Project 'Backend' not found" }]);
+    expect((await runImport(member, { csv, createMissingTags: true })).error).toMatchObject({ status: 403 });
+
+    const missingTag = await runImport(admin, { csv, dryRun: true });
+    expect(missingTag.body.errors).toMatchObject([{ row: 2, code: 'not_found', error: 'Tag(s) not found: docs' }]);
+
+    expect((await runImport(admin, { csv: 'title\n"unclosed' })).error).toMatchObject({ status: 400, code: 'invalid_csv' });
+    expect((await runImport(admin, { csv, columns: { Due: 'dueDate' } })).error).toMatchObject({ status: 400, code: 'invalid_body' });
+  });
+});
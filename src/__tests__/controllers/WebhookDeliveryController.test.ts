@@ -0,0 +1,79 @@
+/**
+ * Webhook Delivery Controller Tests
+ * 
+ * This file contains test cases for listing the deliveries of a webhook.
+ * It demonstrates:
+ * 1. Following cursors through every delivery when sorting by nextAttemptAt
+ * 2. Deliveries that succeeded or failed, which have no nextAttemptAt, sorting first ascending and last descending
+ */
+
+import { Request, Response } from 'express';
+import { Sequelize } from 'sequelize';
+import { Webhook } from '../../models/Webhook';
+import { WebhookDelivery } from '../../models/WebhookDelivery';
+import { WebhookDeliveryController } from '../../controllers/WebhookDeliveryController';
+
+describe('Webhook Delivery Controller', () => {
+  let sequelize: Sequelize;
+  let webhook: Webhook;
+  const controller = new WebhookDeliveryController();
+
+  // List a page of deliveries and capture the body sent or the error passed on
+  const list = async (query: Record<string, string>) => {
+    const req = {
+      params: { id: String(webhook.id) },
+      query,
+      originalUrl: `/api/webhooks/${webhook.id}/deliveries?` + new URLSearchParams(query).toString()
+    } as unknown as Request;
+    const res: any = { json: jest.fn((sent: unknown) => { res.body = sent; return res; }) };
+    const next = jest.fn();
+
+    await controller.getDeliveries(req, res as Response, next);
+    expect(next).not.toHaveBeenCalled();
+    return res.body;
+  };
+
+  // Follow nextCursor to the last page and collect the delivery ids
+  const listAll = async (sort: string) => {
+    const ids: number[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: any = await list(cursor ? { sort, limit: '2', cursor } : { sort, limit: '2' });
+      ids.push(...page.data.map((delivery: WebhookDelivery) => delivery.id));
+      cursor = page.meta.nextCursor;
+    } while (cursor);
+    return ids;
+  };
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    Webhook.init(Webhook.getAttributes(), { ...Webhook.options, sequelize });
+    WebhookDelivery.init(WebhookDelivery.getAttributes(), { ...WebhookDelivery.options, sequelize });
+    await sequelize.sync({ force: true });
+
+    webhook = await Webhook.create({ url: 'http://localhost/hook', events: ['task.created'], active: true, secret: 'a-test-secret-of-some-length' });
+
+    // Succeeded and failed deliveries are no longer scheduled
+    const deliveries = [
+      { status: 'pending', nextAttemptAt: new Date('2026-03-01') },
+      { status: 'succeeded', nextAttemptAt: null },
+      { status: 'pending', nextAttemptAt: new Date('2026-01-01') },
+      { status: 'failed', nextAttemptAt: null },
+      { status: 'pending', nextAttemptAt: new Date('2026-02-01') }
+    ];
+    await WebhookDelivery.bulkCreate(deliveries.map(delivery => ({ ...delivery, webhookId: webhook.id, event: 'task.created', payload: {} })));
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should list every delivery when sorting by nextAttemptAt', async () => {
+    expect(await listAll('nextAttemptAt')).toEqual([2, 4, 3, 5, 1]);
+    expect(await listAll('-nextAttemptAt')).toEqual([1, 5, 3, 2, 4]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * GraphQL Tests
+ * 
+ * This file contains test cases for the /graphql endpoint.
+ * It demonstrates:
+ * 1. Batched association loading (no query per task)
+ * 2. The REST filters, sorting and cursor pagination as query arguments
+ * 3. Model validations and policies applied to mutations
+ * 4. Errors carrying the REST error codes
+ */
+
+import { Request, Response } from 'express';
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Tag } from '../../models/Tag';
+import { ProjectMember } from '../../models/ProjectMember';
+import { GraphQLController } from '../../controllers/GraphQLController';
+
+describe('GraphQL', () => {
+  let sequelize: Sequelize;
+  let admin: User;
+  let member: User;
+  let projects: Project[];
+  const queries: string[] = [];
+  const controller = new GraphQLController();
+
+  // Run a document through the controller and return the status and JSON body
+  const run = async (user: User, query: string, variables?: Record<string, unknown>) => {
+    const req = { body: { query, variables }, user, method: 'POST', originalUrl: '/api/v1/graphql' } as unknown as Request;
+    const res: any = {};
+    res.status = jest.fn((status: number) => { res.statusCode = status; return res; });
+    res.json = jest.fn((body: any) => { res.body = body; return res; });
+    const next = jest.fn();
+    await controller.executeQuery(req, res as Response, next);
+    expect(next).not.toHaveBeenCalled();
+    return { status: res.statusCode, body: res.body };
+  };
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing, logging every query for the batching test
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: (sql: string) => { queries.push(sql); }
+    });
+
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+    ProjectMember.init(ProjectMember.getAttributes(), { ...ProjectMember.options, sequelize });
+
+    Task.belongsTo(Project, { as: 'project', foreignKey: 'projectId' });
+    Task.belongsToMany(Tag, { through: 'TaskTags', as: 'tags', foreignKey: 'taskId', otherKey: 'tagId' });
+    Tag.belongsToMany(Task, { through: 'TaskTags', as: 'tasks', foreignKey: 'tagId', otherKey: 'taskId' });
+
+    await sequelize.sync({ force: true });
+
+    const userData = { password: 'pAssword123!', firstName: 'Test', lastName: 'User' };
+    admin = await User.create({ ...userData, username: 'admin', email: 'admin@example.com', role: 'admin' });
+    member = await User.create({ ...userData, username: 'member', email: 'member@example.com' });
+
+    const projectData = { status: 'active', startDate: new Date(), endDate: new Date(Date.now() + 86400000), userId: admin.id };
+    projects = await Project.bulkCreate([1, 2, 3, 4, 5].map(number => ({ ...projectData, name: `Project ${number}` })));
+
+    // 50 tasks spread over the projects, every other one assigned to the member
+    const tasks = await Task.bulkCreate(Array.from({ length: 50 }, (_, index) => ({
+      title: `Task ${index + 1}`,
+      status: index % 5 == 0 ? 'completed' : 'pending',
+      priority: 'medium',
+      dueDate: new Date(Date.now() + (index + 1) * 86400000),
+      userId: index % 2 == 0 ? member.id : admin.id,
+      projectId: projects[index % 5].id
+    })));
+
+    const [backend, urgent] = await Tag.bulkCreate([{ name: 'backend' }, { name: 'urgent' }]);
+    // Insert the join rows directly, the addTags mixin belongs to the association in models/index.ts
+    await sequelize.models.TaskTags.bulkCreate(tasks.flatMap(task => [
+      { taskId: task.id, tagId: backend.id },
+      { taskId: task.id, tagId: urgent.id }
+    ]));
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should load the project and tags of 50 tasks with one query per association', async () => {
+    queries.length = 0;
+    const { status, body } = await run(admin, '{ tasks(limit: 50) { data { id project { name } tags { name } } } }');
+
+    expect(status).toBe(200);
+    expect(body.errors).toBeUndefined();
+    expect(body.data.tasks.data).toHaveLength(50);
+    expect(body.data.tasks.data[6]).toEqual({ id: 7, project: { name: 'Project 2' }, tags: [{ name: 'backend' }, { name: 'urgent' }] });
+
+    // count, page, projects and tags
+    expect(queries).toHaveLength(4);
+  });
+
+  it('should filter, sort and paginate like the REST API', async () => {
+    const query = `query ($cursor: String) {
+      tasks(status: [completed], sort: "-dueDate", limit: 6, cursor: $cursor) { data { title } meta { total nextCursor } }
+    }`;
+
+    const first = await run(admin, query);
+    expect(first.body.data.tasks.meta.total).toBe(10);
+    expect(first.body.data.tasks.data[0].title).toBe('Task 46');
+
+    const second = await run(admin, query, { cursor: first.body.data.tasks.meta.nextCursor });
+    expect(second.body.data.tasks.data.map((task: any) => task.title)).toEqual(['Task 16', 'Task 11', 'Task 6', 'Task 1']);
+    expect(second.body.data.tasks.meta.nextCursor).toBeNull();
+
+    // Members only see their own tasks, here and in associations
+    const own = await run(member, '{ tasks { meta { total } } tag(id: 1) { tasks { userId } } }');
+    expect(own.body.data.tasks.meta.total).toBe(25);
+    expect(own.body.data.tag.tasks.every((task: any) => task.userId == member.id)).toBe(true);
+
+    const invalid = await run(admin, '{ tasks(sort: "password") { meta { total } } }');
+    expect(invalid.body.errors[0].extensions).toMatchObject({ code: 'invalid_query', status: 400 });
+  });
+
+  it('should validate mutations with the model rules and policies', async () => {
+    const mutation = `mutation ($input: TaskCreateInput!) { createTask(input: $input) { id title status user { username } } }`;
+    const input = { title: 'New task', dueDate: new Date(Date.now() + 86400000).toISOString(), projectId: projects[0].id };
+
+    const created = await run(admin, mutation, { input });
+    expect(created.body.data.createTask).toMatchObject({ title: 'New task', status: 'pending', user: { username: 'admin' } });
+
+    const invalid = await run(admin, mutation, { input: { ...input, title: 'No' } });
+    expect(invalid.body.data).toBeNull();
+    expect(invalid.body.errors[0].extensions).toMatchObject({ code: 'validation_failed', status: 422 });
+    expect(invalid.body.errors[0].extensions.details[0]).toMatchObject({ field: 'title' });
+
+    // The member is not part of the project
+    const forbidden = await run(member, mutation, { input });
+    expect(forbidden.body.errors[0].extensions).toMatchObject({ code: 'forbidden', status: 403 });
+
+    const tag = await run(member, 'mutation { createTag(input: { name: "mine" }) { id } }');
+    expect(tag.body.errors[0].extensions).toMatchObject({ code: 'forbidden', status: 403 });
+  });
+
+  it('should reject invalid and deeply nested documents', async () => {
+    const syntax = await run(admin, '{ tasks {');
+    expect(syntax.status).toBe(400);
+    expect(syntax.body.errors[0].extensions.code).toBe('invalid_graphql');
+
+    const unknown = await run(admin, '{ me { password } }');
+    expect(unknown.status).toBe(400);
+
+    const nested = await run(admin, '{ tasks { data { project { tasks { tags { tasks { project { tasks { id } } } } } } } } }');
+    expect(nested.status).toBe(400);
+    expect(nested.body.errors[0].message).toMatch(/limit is 8/);
+
+    const badVariable = await run(admin, 'query ($id: Int!) { task(id: $id) { id } }', { id: 'one' });
+    expect(badVariable.status).toBe(400);
+  });
+});
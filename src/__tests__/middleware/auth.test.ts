@@ -0,0 +1,97 @@
+/**
+ * Authentication Middleware Tests
+ * 
+ * This file contains test cases for the authenticate and requireRole middleware.
+ * It demonstrates:
+ * 1. Attaching the user of a valid access token to the request
+ * 2. Rejecting missing, malformed, invalid and expired tokens with 401
+ * 3. Role checks answered with 403
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { authenticate, requireRole } from '../../middleware/auth';
+import { signToken } from '../../utils/token';
+
+describe('Authentication Middleware', () => {
+  let sequelize: Sequelize;
+  let user: User;
+
+  // Run authenticate with the given Authorization header
+  const run = async (authorization?: string) => {
+    const req: any = { headers: authorization == null ? {} : { authorization } };
+    const next = jest.fn();
+    await authenticate(req as Request, {} as Response, next as NextFunction);
+    return { user: req.user as User | undefined, error: next.mock.calls[0]?.[0] };
+  };
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    await sequelize.sync({ force: true });
+
+    user = await User.create({
+      username: 'testuser',
+      email: 'test@example.com',
+      password: 'pAssword123!',
+      firstName: 'Test',
+      lastName: 'User'
+    });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should attach the user of a valid access token', async () => {
+    const { user: authenticated, error } = await run(`Bearer ${signToken(user.id)}`);
+    expect(error).toBeUndefined();
+    expect(authenticated!.id).toBe(user.id);
+
+    // The scheme is case-insensitive
+    expect((await run(`bearer ${signToken(user.id)}`)).user!.id).toBe(user.id);
+  });
+
+  it('should require a bearer token', async () => {
+    for (const header of [undefined, '', 'Basic dXNlcjpwYXNz', 'Bearer']) {
+      const { user: authenticated, error } = await run(header);
+      expect(authenticated).toBeUndefined();
+      expect(error).toMatchObject({ status: 401, code: 'unauthenticated' });
+    }
+  });
+
+  it('should reject invalid, expired and refresh tokens and tokens of unknown users', async () => {
+    const expired = jwt.sign({ type: 'access', exp: Math.floor(Date.now() / 1000) - 60 }, 'test-secret', { subject: String(user.id) });
+    const tokens = [
+      'not-a-token',
+      signToken(user.id) + 'x',
+      expired,
+      signToken(user.id, 'refresh'),
+      signToken(9999)
+    ];
+
+    for (const token of tokens) {
+      const { user: authenticated, error } = await run(`Bearer ${token}`);
+      expect(authenticated).toBeUndefined();
+      expect(error).toMatchObject({ status: 401, code: 'invalid_token' });
+    }
+  });
+
+  it('should check the role of the authenticated user', () => {
+    const next = jest.fn();
+    requireRole('admin')({ user } as Request, {} as Response, next);
+    expect(next.mock.calls[0][0]).toMatchObject({ status: 403, code: 'forbidden' });
+
+    requireRole('admin')({} as Request, {} as Response, next);
+    expect(next.mock.calls[1][0]).toMatchObject({ status: 401, code: 'unauthenticated' });
+
+    requireRole('member', 'admin')({ user } as Request, {} as Response, next);
+    expect(next.mock.calls[2]).toEqual([]);
+  });
+});
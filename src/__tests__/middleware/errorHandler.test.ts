@@ -0,0 +1,161 @@
+/**
+ * Error Handler Tests
+ * 
+ * This file contains test cases for the central error handler.
+ * It demonstrates:
+ * 1. Mapping Sequelize validation, unique and foreign key errors to responses
+ * 2. Naming the offending foreign key before SQLite rejects it
+ * 3. Correlation ids for unexpected errors
+ */
+
+import { Request, Response } from 'express';
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Tag } from '../../models/Tag';
+import { errorHandler, toErrorResponse } from '../../middleware/errorHandler';
+import { assertReferencesExist } from '../../utils/references';
+import { NotFoundError, QueryError } from '../../utils/errors';
+
+describe('Error Handler', () => {
+  let sequelize: Sequelize;
+  let user: User;
+  let project: Project;
+
+  // Capture what a handler sends
+  const mockResponse = () => {
+    const res: any = { headersSent: false, headers: {} };
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    res.setHeader = jest.fn((name: string, value: string) => { res.headers[name] = value; });
+    return res;
+  };
+
+  const captureError = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected the action to fail');
+  };
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+
+    Task.belongsTo(User, { as: 'user', foreignKey: 'userId' });
+    Task.belongsTo(Project, { as: 'project', foreignKey: 'projectId' });
+    sequelize.addHook('beforeSave', assertReferencesExist);
+
+    await sequelize.sync({ force: true });
+
+    user = await User.create({
+      username: 'testuser',
+      email: 'test@example.com',
+      password: 'pAssword123!',
+      firstName: 'Test',
+      lastName: 'User'
+    });
+
+    project = await Project.create({
+      name: 'Backend',
+      status: 'active',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 86400000),
+      userId: user.id
+    });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should answer API errors with their status and code', () => {
+    expect(toErrorResponse(new NotFoundError('Task not found'))).toEqual({
+      status: 404,
+      body: { error: 'Task not found', code: 'not_found' }
+    });
+    expect(toErrorResponse(new QueryError('limit must be a whole number'))).toEqual({
+      status: 400,
+      body: { error: 'limit must be a whole number', code: 'invalid_query' }
+    });
+  });
+
+  it('should list every failing field of a validation error', async () => {
+    const error = await captureError(() => Tag.create({ name: '', color: 'red' }));
+
+    const response = toErrorResponse(error)!;
+    expect(response.status).toBe(422);
+    expect(response.body.code).toBe('validation_failed');
+    expect(response.body.details).toEqual(expect.arrayContaining([
+      { field: 'name', rule: 'notEmpty', message: 'Validation notEmpty on name failed' },
+      { field: 'color', rule: 'ValidateColor', message: 'Color is not a valid hex code' }
+    ]));
+  });
+
+  it('should answer unique violations with 409', async () => {
+    await Tag.create({ name: 'backend' });
+    const error = await captureError(() => Tag.create({ name: 'backend' }));
+
+    const response = toErrorResponse(error)!;
+    expect(response.status).toBe(409);
+    expect(response.body.code).toBe('already_exists');
+    expect(response.body.details).toEqual([expect.objectContaining({ field: 'name', value: 'backend' })]);
+  });
+
+  it('should name the foreign key that does not reference an existing record', async () => {
+    const error = await captureError(() => Task.create({
+      title: 'Write the API',
+      status: 'pending',
+      priority: 'high',
+      dueDate: new Date(Date.now() + 86400000),
+      userId: user.id,
+      projectId: project.id + 100
+    }));
+
+    const response = toErrorResponse(error)!;
+    expect(response.status).toBe(422);
+    expect(response.body).toEqual({
+      error: `projectId ${project.id + 100} does not reference an existing Project`,
+      code: 'invalid_reference',
+      details: [{ field: 'projectId', table: 'projects', value: project.id + 100 }]
+    });
+  });
+
+  it('should only check foreign keys that changed', async () => {
+    const task = await Task.create({
+      title: 'Write the API',
+      status: 'pending',
+      priority: 'high',
+      dueDate: new Date(Date.now() + 86400000),
+      userId: user.id,
+      projectId: project.id
+    });
+
+    await expect(task.update({ title: 'Write the REST API' })).resolves.toBeDefined();
+    await expect(task.update({ userId: user.id + 100 })).rejects.toThrow('userId');
+  });
+
+  it('should hide unexpected errors behind a correlation id', () => {
+    const res = mockResponse();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    errorHandler(new Error('SQLITE_BUSY: database is locked'), { method: 'GET', originalUrl: '/api/tasks' } as Request, res as Response, jest.fn());
+
+    const body = res.json.mock.calls[0][0];
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(body).toEqual({ error: 'Internal server error', code: 'internal_error', correlationId: expect.any(String) });
+    expect(res.headers['X-Correlation-Id']).toBe(body.correlationId);
+    expect(consoleError.mock.calls[0][0]).toContain(body.correlationId);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Idempotency Tests
+ * 
+ * This file contains test cases for the Idempotency-Key middleware.
+ * It demonstrates:
+ * 1. Replaying the stored response for a retry
+ * 2. Refusing a key reused for a different request or still in use
+ * 3. Releasing the key after a server error, an unsent response and when it expires
+ * 4. Keeping secrets out of the stored responses
+ */
+
+import { EventEmitter } from 'events';
+import { Request } from 'express';
+import { Sequelize } from 'sequelize';
+import { IdempotencyKey } from '../../models/IdempotencyKey';
+import { idempotency, withholdFromReplay } from '../../middleware/idempotency';
+import { ApiError } from '../../utils/errors';
+
+describe('Idempotency', () => {
+  let sequelize: Sequelize;
+
+  const request = (key: string | undefined, body: unknown, userId: number | null = 1, query: object = {}) => ({
+    method: 'POST',
+    baseUrl: '/api/v1/tasks',
+    path: '/',
+    query,
+    body,
+    user: userId == null ? undefined : { id: userId },
+    get: (name: string) => name == 'Idempotency-Key' ? key : undefined
+  }) as unknown as Request;
+
+  // Captures what is sent, like Express's res.send for JSON
+  const mockResponse = () => {
+    const res: any = Object.assign(new EventEmitter(), { statusCode: 200, headers: {}, locals: {}, sent: undefined });
+    res.status = jest.fn((status: number) => { res.statusCode = status; return res; });
+    res.setHeader = jest.fn((name: string, value: string) => { res.headers[name.toLowerCase()] = value; });
+    res.hasHeader = (name: string) => name in res.headers;
+    res.getHeader = (name: string) => res.headers[name];
+    res.send = jest.fn((body: unknown) => {
+      if (typeof body == 'object')
+        return res.send(JSON.stringify(body));
+
+      res.headers['content-type'] ??= 'application/json; charset=utf-8';
+      res.sent = body;
+      return res;
+    });
+    res.end = jest.fn(() => res);
+    return res;
+  };
+
+  // Run the middleware and, when it passes the request on, a handler
+  const run = async (req: Request, handler: (res: any) => void = () => undefined) => {
+    const res = mockResponse();
+    const next = jest.fn();
+    await idempotency(req, res, next);
+    if (next.mock.calls.length == 1 && next.mock.calls[0].length == 0) {
+      handler(res);
+      // Let the response be stored
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    return { res, error: next.mock.calls[0]?.[0], handled: next.mock.calls.length == 1 && next.mock.calls[0].length == 0 };
+  };
+
+  const created = (res: any) => res.status(201).send({ id: 7, title: 'Write tests' });
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    IdempotencyKey.init(IdempotencyKey.getAttributes(), { ...IdempotencyKey.options, sequelize });
+    await sequelize.sync({ force: true });
+  });
+
+  beforeEach(async () => {
+    await IdempotencyKey.destroy({ where: {} });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should replay the first response for a retry', async () => {
+    const first = await run(request('abc', { title: 'Write tests' }), created);
+    expect(first.handled).toBe(true);
+
+    const retry = await run(request('abc', { title: 'Write tests' }), created);
+    expect(retry.handled).toBe(false);
+    expect(retry.res.statusCode).toBe(201);
+    expect(JSON.parse(retry.res.sent)).toEqual({ id: 7, title: 'Write tests' });
+    expect(retry.res.headers['idempotent-replayed']).toBe('true');
+    expect(retry.res.headers['content-type']).toMatch(/json/);
+
+    // Keys of other users and requests without a key are not affected
+    expect((await run(request('abc', { title: 'Write tests' }, 2), created)).handled).toBe(true);
+    expect((await run(request(undefined, { title: 'Write tests' }), created)).handled).toBe(true);
+  });
+
+  it('should refuse a key reused for a different request', async () => {
+    await run(request('abc', { title: 'Write tests' }), created);
+
+    const { error } = await run(request('abc', { title: 'Something else' }));
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 422, code: 'idempotency_key_reused' });
+
+    // Options in the query string are part of the request too
+    const withQuery = await run(request('abc', { title: 'Write tests' }, 1, { dryRun: 'true' }));
+    expect(withQuery.error).toMatchObject({ status: 422, code: 'idempotency_key_reused' });
+  });
+
+  it('should refuse a retry while the first request is running', async () => {
+    await run(request('abc', { title: 'Write tests' }), () => undefined);
+
+    const { error } = await run(request('abc', { title: 'Write tests' }));
+    expect(error).toMatchObject({ status: 409, code: 'idempotency_key_in_use' });
+  });
+
+  it('should release the key after a server error', async () => {
+    await run(request('abc', { title: 'Write tests' }), res => res.status(500).send({ error: 'Internal server error' }));
+
+    expect((await run(request('abc', { title: 'Write tests' }), created)).handled).toBe(true);
+  });
+
+  it('should release the key when the response ends without being stored', async () => {
+    const { res } = await run(request('abc', { title: 'Write tests' }), () => undefined);
+    res.emit('close');
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect((await run(request('abc', { title: 'Write tests' }), created)).handled).toBe(true);
+  });
+
+  it('should store only the status and headers of responses with secrets', async () => {
+    const withSecret = (res: any) => {
+      res.setHeader('ETag', '"0"');
+      withholdFromReplay(res);
+      res.status(201).send({ id: 3, secret: 's3cret' });
+    };
+    await run(request('abc', { url: 'https://example.com' }), withSecret);
+
+    const stored = await IdempotencyKey.findOne({ where: { key: 'abc' } });
+    expect(stored).toMatchObject({ status: 201, headers: { etag: '"0"' }, body: null });
+
+    const retry = await run(request('abc', { url: 'https://example.com' }), withSecret);
+    expect(retry.handled).toBe(false);
+    expect(retry.res.statusCode).toBe(201);
+    expect(retry.res.end).toHaveBeenCalled();
+  });
+
+  it('should leave requests without a user alone', async () => {
+    await run(request('abc', { username: 'alice' }, null), created);
+    expect(await IdempotencyKey.count()).toBe(0);
+  });
+
+  it('should forget keys after IDEMPOTENCY_KEY_TTL', async () => {
+    process.env.IDEMPOTENCY_KEY_TTL = '1';
+    try {
+      await run(request('abc', { title: 'Write tests' }), created);
+    } finally {
+      delete process.env.IDEMPOTENCY_KEY_TTL;
+    }
+    await IdempotencyKey.update({ expiresAt: new Date(Date.now() - 1000) }, { where: {} });
+
+    expect((await run(request('abc', { title: 'Write tests' }), created)).handled).toBe(true);
+  });
+
+  it('should reject keys that are too long', async () => {
+    const { error } = await run(request('x'.repeat(256), {}));
+    expect(error).toMatchObject({ status: 400, code: 'invalid_idempotency_key' });
+  });
+});
@@ -54,10 +54,10 @@ describe('Project Model', () => {
 
   beforeEach(async () => {
     // Clear all tables before each test
-    await Task.destroy({ where: {} });
-    await Tag.destroy({ where: {} });
-    await Project.destroy({ where: {} });
-    await User.destroy({ where: {} });
+    await Task.destroy({ where: {}, force: true });
+    await Tag.destroy({ where: {}, force: true });
+    await Project.destroy({ where: {}, force: true });
+    await User.destroy({ where: {}, force: true });
 
     createdUser_ = await User.create(validUserData); // we must create a user for our project to use
     validProjectData.userId = createdUser_.id;
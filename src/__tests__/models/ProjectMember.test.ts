@@ -0,0 +1,126 @@
+/**
+ * ProjectMember Model Tests
+ * 
+ * This file contains test cases for the ProjectMember model.
+ * It demonstrates:
+ * 1. Model instance creation
+ * 2. Attribute validation
+ * 3. Unique constraints
+ * 4. Associations through the join model
+ */
+
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Tag } from '../../models/Tag';
+import { ProjectMember } from '../../models/ProjectMember';
+
+describe('ProjectMember Model', () => {
+  let sequelize: Sequelize;
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    // Initialize models with the test database
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+    ProjectMember.init(ProjectMember.getAttributes(), { ...ProjectMember.options, sequelize });
+
+    // Set up associations
+    Project.belongsToMany(User, { through: ProjectMember, as: 'members', foreignKey: 'projectId', otherKey: 'userId' });
+    User.belongsToMany(Project, { through: ProjectMember, as: 'memberProjects', foreignKey: 'userId', otherKey: 'projectId' });
+
+    // Sync all models
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  let owner: User;
+  let collaborator: User;
+  let project: Project;
+
+  beforeEach(async () => {
+    // Clear all tables before each test
+    await ProjectMember.destroy({ where: {} });
+    await Project.destroy({ where: {}, force: true });
+    await User.destroy({ where: {}, force: true });
+
+    owner = await User.create({ ...validUserData, username: 'owner', email: 'owner@example.com' });
+    collaborator = await User.create({ ...validUserData, username: 'collaborator', email: 'collaborator@example.com' });
+    project = await Project.create({
+      name: 'Shared Project',
+      status: 'active',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 86400000),
+      userId: owner.id
+    });
+  });
+
+  const validUserData = {
+    username: 'testuser',
+    email: 'test@example.com',
+    password: 'pAssword123!',
+    firstName: 'Test',
+    lastName: 'User'
+  };
+
+  describe('Model Creation', () => {
+    it('should create a membership with the viewer role by default', async () => {
+      const member = await ProjectMember.create({ projectId: project.id, userId: collaborator.id });
+      expect(member.id).toBeDefined();
+      expect(member.role).toBe('viewer');
+    });
+  });
+
+  describe('Validation', () => {
+    it('should validate role values', async () => {
+      await expect(ProjectMember.create({ projectId: project.id, userId: collaborator.id, role: 'admin' }))
+        .rejects
+        .toThrow("Role had unexpected value. Look to ProjectRole for correct values");
+
+      const editor = await ProjectMember.create({ projectId: project.id, userId: collaborator.id, role: 'editor' });
+      expect(editor.role).toBe('editor');
+    });
+
+    it('should validate required fields', async () => {
+      await expect(ProjectMember.create({ userId: collaborator.id })).rejects.toThrow("ProjectMember.projectId cannot be null");
+      await expect(ProjectMember.create({ projectId: project.id })).rejects.toThrow("ProjectMember.userId cannot be null");
+    });
+  });
+
+  describe('Unique Constraints', () => {
+    it('should only allow one membership per user and project', async () => {
+      await ProjectMember.create({ projectId: project.id, userId: collaborator.id, role: 'viewer' });
+      await expect(ProjectMember.create({ projectId: project.id, userId: collaborator.id, role: 'editor' }))
+        .rejects
+        .toThrow();
+    });
+  });
+
+  describe('Associations', () => {
+    it('should link projects and their members', async () => {
+      await ProjectMember.create({ projectId: project.id, userId: collaborator.id, role: 'editor' });
+
+      const members = await project.getMembers();
+      expect(members.length).toBe(1);
+      expect(members[0].id).toBe(collaborator.id);
+    });
+
+    it('should include shared projects in the member\'s projects', async () => {
+      await ProjectMember.create({ projectId: project.id, userId: collaborator.id, role: 'viewer' });
+
+      const projects = await collaborator.getProjects();
+      expect(projects.map(p => p.id)).toEqual([project.id]);
+      expect(await collaborator.getActiveProjectsCount()).toBe(1);
+    });
+  });
+});
@@ -54,10 +54,10 @@ describe('Tag Model', () => {
 
   beforeEach(async () => {
     // Clear all tables before each test
-    await Task.destroy({ where: {} });
-    await Tag.destroy({ where: {} });
-    await Project.destroy({ where: {} });
-    await User.destroy({ where: {} });
+    await Task.destroy({ where: {}, force: true });
+    await Tag.destroy({ where: {}, force: true });
+    await Project.destroy({ where: {}, force: true });
+    await User.destroy({ where: {}, force: true });
   }); 
   
 
@@ -15,6 +15,7 @@ import { User } from '../../models/User';
 import { Task } from '../../models/Task';
 import { Project } from '../../models/Project';
 import { Tag } from '../../models/Tag';
+import { ProjectMember } from '../../models/ProjectMember';
 
 describe('User Model', () => {
   let sequelize: Sequelize;
@@ -46,6 +47,11 @@ describe('User Model', () => {
       { ...Tag.options, sequelize }
     );
 
+    ProjectMember.init(
+      ProjectMember.getAttributes(),
+      { ...ProjectMember.options, sequelize }
+    );
+
     // Set up associations
     User.hasMany(Task, { as: 'tasks', foreignKey: 'userId' });
     Task.belongsTo(User, { foreignKey: 'userId' });
@@ -69,10 +75,11 @@ describe('User Model', () => {
 
   beforeEach(async () => {
     // Clear all tables before each test
-    await Task.destroy({ where: {} });
-    await Tag.destroy({ where: {} });
-    await Project.destroy({ where: {} });
-    await User.destroy({ where: {} });
+    await ProjectMember.destroy({ where: {} });
+    await Task.destroy({ where: {}, force: true });
+    await Tag.destroy({ where: {}, force: true });
+    await Project.destroy({ where: {}, force: true });
+    await User.destroy({ where: {}, force: true });
   });
 
   // Test data
@@ -178,6 +185,18 @@ describe('User Model', () => {
         .toThrow("Validation error: Validation len on firstName failed");
     });
 
+    it('should validate role values', async () => {
+      const user = await User.create(validUserData);
+      expect(user.role).toBe('member');
+      expect(user.isAdmin()).toBe(false);
+
+      const badRole = { ...validUserData, username: 'badrole', email: 'badrole@example.com', role: 'superuser' };
+      await expect(User.create(badRole)).rejects.toThrow("Role had unexpected value. Look to UserRole for correct values");
+
+      const admin = await User.create({ ...validUserData, username: 'adminuser', email: 'admin@example.com', role: 'admin' });
+      expect(admin.isAdmin()).toBe(true);
+    });
+
     it('should validate name nonnumber', async () => {
       const badFirstName = { ...validUserData, firstName: 'appleJohn1' };
       await expect(User.create(badFirstName)).rejects.toThrow();
@@ -270,6 +289,80 @@ describe('User Model', () => {
       const activeCount = await user.getActiveProjectsCount();
       expect(activeCount).toBe(1);
     });
+
+    it('should count active projects the user is a member of', async () => {
+      const user = await User.create(validUserData);
+      const owner = await User.create({ ...validUserData, username: 'owner', email: 'owner@example.com' });
+
+      const sharedProject = await Project.create({
+        name: 'Shared Project',
+        status: 'active',
+        startDate: new Date(),
+        endDate: new Date(Date.now() + 86400000),
+        userId: owner.id
+      });
+      await ProjectMember.create({ projectId: sharedProject.id, userId: user.id, role: 'editor' });
+
+      expect(await user.getActiveProjectsCount()).toBe(1);
+      expect((await user.getProjects()).length).toBe(1);
+    });
+  });
+
+  describe('Password Handling', () => {
+    it('should store a salted hash instead of the plaintext password', async () => {
+      const user = await User.create(validUserData);
+      const stored = await User.scope('withPassword').findByPk(user.id);
+
+      expect(stored!.password).not.toBe(validUserData.password);
+      expect(stored!.password.startsWith('scrypt$')).toBe(true);
+
+      const other = await User.create({...validUserData, username: 'otheruser', email: 'other@example.com'});
+      const otherStored = await User.scope('withPassword').findByPk(other.id);
+      expect(otherStored!.password).not.toBe(stored!.password); // same password, different salt
+    });
+
+    it('should still validate the plaintext password', async () => {
+      const noUppercase = {...validUserData, password: 'password123!'};
+      await expect(User.create(noUppercase)).rejects.toThrow("Password does not contain at least one uppercase letter");
+    });
+
+    it('should validate passwords that look like a hash', async () => {
+      const hashLike = {...validUserData, password: `scrypt$${'a'.repeat(22)}==$${'a'.repeat(43)}=`};
+      await expect(User.create(hashLike)).rejects.toThrow("Password does not contain at least one uppercase letter");
+
+      const user = await User.create(validUserData);
+      await expect(user.update({password: hashLike.password})).rejects.toThrow("Password does not contain at least one uppercase letter");
+    });
+
+    it('should verify passwords', async () => {
+      await User.create(validUserData);
+      const user = await User.scope('withPassword').findOne({where: {username: validUserData.username}});
+
+      expect(await user!.verifyPassword(validUserData.password)).toBe(true);
+      expect(await user!.verifyPassword('wrongPassword1!')).toBe(false);
+    });
+
+    it('should rehash the password when it is updated', async () => {
+      const user = await User.create(validUserData);
+      await user.update({password: 'newPassword1!'});
+
+      const stored = await User.scope('withPassword').findByPk(user.id);
+      expect(await stored!.verifyPassword('newPassword1!')).toBe(true);
+      expect(await stored!.verifyPassword(validUserData.password)).toBe(false);
+
+      // Updating other fields must not hash the hash again
+      await stored!.update({firstName: 'Changed'});
+      const reloaded = await User.scope('withPassword').findByPk(user.id);
+      expect(await reloaded!.verifyPassword('newPassword1!')).toBe(true);
+    });
+
+    it('should never expose the password', async () => {
+      const user = await User.create(validUserData);
+      expect(user.toJSON()).not.toHaveProperty('password');
+
+      const found = await User.findByPk(user.id);
+      expect(found!.password).toBeUndefined();
+    });
   });
 
   describe('Database Operations', () => {
@@ -0,0 +1,208 @@
+/**
+ * Policy Tests
+ * 
+ * This file contains test cases for the access rules in policies/index.ts.
+ * It demonstrates:
+ * 1. List scoping per user
+ * 2. Per-record permission checks
+ * 3. Task assignment rules
+ */
+
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Tag } from '../../models/Tag';
+import { ProjectMember } from '../../models/ProjectMember';
+import { taskPolicy, projectPolicy, userPolicy, assertAssignable } from '../../policies';
+
+describe('Policies', () => {
+  let sequelize: Sequelize;
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    // Initialize models with the test database
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+    ProjectMember.init(ProjectMember.getAttributes(), { ...ProjectMember.options, sequelize });
+
+    // Set up associations
+    User.hasMany(Task, { as: 'tasks', foreignKey: 'userId' });
+    Task.belongsTo(User, { as: 'user', foreignKey: 'userId' });
+    Project.hasMany(Task, { as: 'tasks', foreignKey: 'projectId' });
+    Task.belongsTo(Project, { as: 'project', foreignKey: 'projectId' });
+
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await ProjectMember.destroy({ where: {} });
+    await Task.destroy({ where: {}, force: true });
+    await Project.destroy({ where: {}, force: true });
+    await User.destroy({ where: {}, force: true });
+  });
+
+  const createUser = (name: string, role: string = 'member') => User.create({
+    username: name,
+    email: `${name}@example.com`,
+    password: 'pAssword123!',
+    firstName: 'Test',
+    lastName: 'User',
+    role
+  });
+
+  const createProject = (owner: User) => Project.create({
+    name: 'Test Project',
+    status: 'active',
+    startDate: new Date(),
+    endDate: new Date(Date.now() + 86400000),
+    userId: owner.id
+  });
+
+  const createTask = (assignee: User, project: Project) => Task.create({
+    title: 'Test Task',
+    status: 'pending',
+    dueDate: new Date(Date.now() + 86400000),
+    priority: 'medium',
+    userId: assignee.id,
+    projectId: project.id
+  });
+
+  describe('Task Policy', () => {
+    it('should scope tasks to the assignee and the project owner', async () => {
+      const owner = await createUser('owner');
+      const assignee = await createUser('assignee');
+      const stranger = await createUser('stranger');
+      const project = await createProject(owner);
+      await createTask(assignee, project);
+
+      expect(await Task.count({ where: await taskPolicy.scope(owner) })).toBe(1);
+      expect(await Task.count({ where: await taskPolicy.scope(assignee) })).toBe(1);
+      expect(await Task.count({ where: await taskPolicy.scope(stranger) })).toBe(0);
+    });
+
+    it('should derive task access from project membership', async () => {
+      const owner = await createUser('owner');
+      const editor = await createUser('editor');
+      const viewer = await createUser('viewer');
+      const project = await createProject(owner);
+      const task = await createTask(owner, project);
+      await ProjectMember.create({ projectId: project.id, userId: editor.id, role: 'editor' });
+      await ProjectMember.create({ projectId: project.id, userId: viewer.id, role: 'viewer' });
+
+      expect(await Task.count({ where: await taskPolicy.scope(viewer) })).toBe(1);
+      expect(await taskPolicy.can(viewer, 'read', task)).toBe(true);
+      expect(await taskPolicy.can(viewer, 'update', task)).toBe(false);
+      expect(await taskPolicy.can(editor, 'update', task)).toBe(true);
+      expect(await taskPolicy.can(editor, 'create', Task.build({ projectId: project.id }))).toBe(true);
+      expect(await taskPolicy.can(editor, 'delete', task)).toBe(true);
+    });
+
+    it('should only let the project owner create and delete tasks', async () => {
+      const owner = await createUser('owner');
+      const assignee = await createUser('assignee');
+      const stranger = await createUser('stranger');
+      const project = await createProject(owner);
+      const task = await createTask(assignee, project);
+
+      expect(await taskPolicy.can(owner, 'delete', task)).toBe(true);
+      expect(await taskPolicy.can(assignee, 'update', task)).toBe(true);
+      expect(await taskPolicy.can(assignee, 'delete', task)).toBe(false);
+      expect(await taskPolicy.can(stranger, 'read', task)).toBe(false);
+      expect(await taskPolicy.can(stranger, 'create', Task.build({ projectId: project.id }))).toBe(false);
+    });
+
+    it('should only assign tasks to project members and let editors reassign them', async () => {
+      const owner = await createUser('owner');
+      const assignee = await createUser('assignee');
+      const viewer = await createUser('viewer');
+      const stranger = await createUser('stranger');
+      const admin = await createUser('admin', 'admin');
+      const project = await createProject(owner);
+      await ProjectMember.create({ projectId: project.id, userId: assignee.id, role: 'viewer' });
+      await ProjectMember.create({ projectId: project.id, userId: viewer.id, role: 'viewer' });
+      const task = await createTask(assignee, project);
+
+      await expect(assertAssignable(owner, Task.build({ projectId: project.id, userId: viewer.id }))).resolves.toBeUndefined();
+      await expect(assertAssignable(owner, Task.build({ projectId: project.id, userId: admin.id }))).resolves.toBeUndefined();
+      await expect(assertAssignable(owner, Task.build({ projectId: project.id, userId: stranger.id })))
+        .rejects.toMatchObject({ status: 422, code: 'assignee_not_member' });
+
+      // The assignee may change their task, but not hand it to someone else
+      task.set({ title: 'Renamed' });
+      await expect(assertAssignable(assignee, task)).resolves.toBeUndefined();
+      task.set({ userId: viewer.id });
+      await expect(assertAssignable(assignee, task)).rejects.toMatchObject({ status: 403 });
+      await expect(assertAssignable(owner, task)).resolves.toBeUndefined();
+      task.set({ userId: stranger.id });
+      await expect(assertAssignable(owner, task)).rejects.toMatchObject({ status: 422 });
+    });
+  });
+
+  describe('Project Policy', () => {
+    it('should let assignees read but not change a project', async () => {
+      const owner = await createUser('owner');
+      const assignee = await createUser('assignee');
+      const stranger = await createUser('stranger');
+      const project = await createProject(owner);
+      await createTask(assignee, project);
+
+      expect(await projectPolicy.can(owner, 'update', project)).toBe(true);
+      expect(await projectPolicy.can(assignee, 'read', project)).toBe(true);
+      expect(await projectPolicy.can(assignee, 'update', project)).toBe(false);
+      expect(await projectPolicy.can(stranger, 'read', project)).toBe(false);
+      expect(await Project.count({ where: await projectPolicy.scope(stranger) })).toBe(0);
+    });
+
+    it('should only let owners change a shared project', async () => {
+      const owner = await createUser('owner');
+      const coOwner = await createUser('coowner');
+      const editor = await createUser('editor');
+      const project = await createProject(owner);
+      await ProjectMember.create({ projectId: project.id, userId: coOwner.id, role: 'owner' });
+      await ProjectMember.create({ projectId: project.id, userId: editor.id, role: 'editor' });
+
+      expect(await Project.count({ where: await projectPolicy.scope(editor) })).toBe(1);
+      expect(await projectPolicy.can(editor, 'read', project)).toBe(true);
+      expect(await projectPolicy.can(editor, 'update', project)).toBe(false);
+      expect(await projectPolicy.can(coOwner, 'update', project)).toBe(true);
+    });
+  });
+
+  describe('User Policy', () => {
+    it('should only expose the caller', async () => {
+      const user = await createUser('someone');
+      const other = await createUser('other');
+
+      expect(await User.count({ where: await userPolicy.scope(user) })).toBe(1);
+      expect(await userPolicy.can(user, 'read', user)).toBe(true);
+      expect(await userPolicy.can(user, 'update', other)).toBe(false);
+    });
+  });
+
+  describe('Admin Access', () => {
+    it('should give admins access to every record', async () => {
+      const owner = await createUser('owner');
+      const admin = await createUser('admin', 'admin');
+      const project = await createProject(owner);
+      const task = await createTask(owner, project);
+
+      expect(await Task.count({ where: await taskPolicy.scope(admin) })).toBe(1);
+      expect(await Project.count({ where: await projectPolicy.scope(admin) })).toBe(1);
+      expect(await User.count({ where: await userPolicy.scope(admin) })).toBe(2);
+      expect(await taskPolicy.can(admin, 'delete', task)).toBe(true);
+      expect(await projectPolicy.can(admin, 'update', project)).toBe(true);
+      expect(await userPolicy.can(admin, 'delete', owner)).toBe(true);
+    });
+  });
+});
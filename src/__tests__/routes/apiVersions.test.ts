@@ -0,0 +1,100 @@
+/**
+ * API Version Tests
+ * 
+ * This file contains test cases for the versioned routers and their deprecated aliases.
+ * It demonstrates:
+ * 1. A version inheriting the routers of an older version and replacing some of them
+ * 2. A replacement router overriding single routes and inheriting the rest
+ * 3. Deprecation, Sunset and Link headers on the unversioned paths
+ */
+
+import { Request, Router } from 'express';
+import taskRoutes, { taskOperations } from '../../routes/taskRoutes';
+import { API_VERSIONS, ApiVersion, getCurrentVersion, getVersionRouters } from '../../routes/apiRouters';
+import { deprecatedAlias } from '../../middleware/deprecation';
+import { listRoutes } from '../../services/openapi';
+
+describe('API Versions', () => {
+  // A v2 that changes how tasks are listed and keeps everything else
+  const v2TaskRoutes = Router();
+  v2TaskRoutes.get('/', jest.fn());
+  v2TaskRoutes.use(taskRoutes);
+
+  const versions: ApiVersion[] = [
+    ...API_VERSIONS,
+    {
+      name: 'v2',
+      base: 'v1',
+      routers: [{
+        prefix: '/tasks',
+        router: v2TaskRoutes,
+        authenticated: true,
+        operations: { ...taskOperations, 'get /': { summary: 'List tasks (v2)', responses: { 200: 'TaskPage' } } }
+      }]
+    }
+  ];
+
+  const mockResponse = () => {
+    const res: any = { headers: {} };
+    res.setHeader = jest.fn((name: string, value: string) => { res.headers[name] = value; });
+    return res;
+  };
+
+  it('should inherit the routers a version does not replace', () => {
+    const v1 = getVersionRouters('v1', versions);
+    const v2 = getVersionRouters('v2', versions);
+
+    expect(v2.map(router => router.prefix).sort()).toEqual(v1.map(router => router.prefix).sort());
+    expect(v2.find(router => router.prefix == '/tasks')!.router).toBe(v2TaskRoutes);
+    expect(v2.find(router => router.prefix == '/users')).toBe(v1.find(router => router.prefix == '/users'));
+    expect(() => getVersionRouters('v3', versions)).toThrow(/v3/);
+  });
+
+  it('should list overridden routes once, with the inherited routes', () => {
+    const routes = listRoutes(getVersionRouters('v2', versions)).filter(route => route.path.startsWith('/tasks'));
+    const v1Routes = listRoutes(getVersionRouters('v1', versions)).filter(route => route.path.startsWith('/tasks'));
+
+    expect(routes.map(route => route.key)).toEqual(expect.arrayContaining(v1Routes.map(route => route.key)));
+    expect(routes.filter(route => route.key == 'get /')).toHaveLength(1);
+    expect(routes.find(route => route.key == 'get /')!.operation!.summary).toBe('List tasks (v2)');
+  });
+
+  it('should serve the unversioned paths with API_VERSION', () => {
+    expect(getCurrentVersion()).toBe('v1');
+
+    process.env.API_VERSION = 'v9';
+    try {
+      expect(() => getCurrentVersion()).toThrow(/v9/);
+    } finally {
+      delete process.env.API_VERSION;
+    }
+  });
+
+  it('should mark the unversioned paths as deprecated', () => {
+    const middleware = deprecatedAlias(() => 'v1');
+    const req = { path: '/tasks', url: '/tasks?page=2', baseUrl: '/api' } as Request;
+    const res = mockResponse();
+    const next = jest.fn();
+
+    process.env.API_ALIAS_SUNSET = '2027-01-31';
+    try {
+      middleware(req, res, next);
+    } finally {
+      delete process.env.API_ALIAS_SUNSET;
+    }
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.headers.Deprecation).toMatch(/^@\d+$/);
+    expect(res.headers.Sunset).toBe('Sun, 31 Jan 2027 00:00:00 GMT');
+    expect(res.headers.Link).toBe('</api/v1/tasks?page=2>; rel="successor-version"');
+  });
+
+  it('should leave versioned paths alone', () => {
+    const next = jest.fn();
+    const res = mockResponse();
+    deprecatedAlias(() => 'v1')({ path: '/v2/tasks', url: '/v2/tasks', baseUrl: '/api' } as Request, res, next);
+
+    expect(next).toHaveBeenCalledWith('router');
+    expect(res.setHeader).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Audit Log Tests
+ * 
+ * This file contains test cases for the audit hooks in services/auditLog.ts.
+ * It demonstrates:
+ * 1. Entries with before and after values for creates and updates
+ * 2. Redacting sensitive attributes
+ * 3. Soft deletes, restores and purges
+ * 4. Recording the user a request runs as
+ */
+
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Project } from '../../models/Project';
+import { AuditLog } from '../../models/AuditLog';
+import { registerAuditHooks } from '../../services/auditLog';
+import { runAsActor } from '../../utils/requestContext';
+
+describe('Audit Log', () => {
+  let sequelize: Sequelize;
+  let user: User;
+
+  const entriesFor = (record: User | Project) => AuditLog.findAll({
+    where: { modelName: record.constructor.name, recordId: record.id },
+    order: [['id', 'ASC']]
+  });
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    // Initialize models with the test database
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    AuditLog.init(AuditLog.getAttributes(), { ...AuditLog.options, sequelize });
+    registerAuditHooks(sequelize);
+
+    await sequelize.sync({ force: true });
+  });
+
+  beforeEach(async () => {
+    await Project.destroy({ where: {}, force: true });
+    await User.destroy({ where: {}, force: true });
+    await AuditLog.destroy({ where: {} });
+
+    user = await User.create({
+      username: 'auditor',
+      email: 'auditor@example.com',
+      password: 'pAssword123!',
+      firstName: 'Test',
+      lastName: 'User'
+    });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should record creates and updates with before and after values', async () => {
+    await user.update({ firstName: 'Changed', password: 'nEwpassword1!' });
+
+    const [created, updated] = await entriesFor(user);
+    expect(created.action).toBe('create');
+    expect(created.actorId).toBeNull();
+    expect(created.changes.email).toEqual({ before: null, after: 'auditor@example.com' });
+    expect(created.changes.createdAt).toBeUndefined();
+
+    expect(updated.action).toBe('update');
+    expect(updated.changes).toEqual({
+      firstName: { before: 'Test', after: 'Changed' },
+      password: { before: '[REDACTED]', after: '[REDACTED]' }
+    });
+  });
+
+  it('should not record saves that change nothing', async () => {
+    await user.update({ firstName: 'Test' });
+
+    expect((await entriesFor(user)).map(entry => entry.action)).toEqual(['create']);
+  });
+
+  it('should record soft deletes, restores and purges', async () => {
+    await user.destroy();
+    await user.restore();
+    await user.destroy();
+    await user.destroy({ force: true });
+
+    const entries = await entriesFor(user);
+    expect(entries.map(entry => entry.action)).toEqual(['create', 'delete', 'restore', 'delete', 'purge']);
+    expect(entries[1].changes.deletedAt.before).toBeNull();
+    expect(entries[2].changes.deletedAt.after).toBeNull();
+    expect(entries[4].changes.username).toEqual({ before: 'auditor', after: null });
+    expect(entries[4].changes.password.before).toBe('[REDACTED]');
+  });
+
+  it('should record the user a request runs as, including bulk changes', async () => {
+    const project = await runAsActor(user.id, () => Project.create({
+      name: 'Audited',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 86400000),
+      userId: user.id
+    }));
+    await runAsActor(user.id, () => Project.update({ status: 'completed' }, { where: { id: project.id } }));
+
+    const entries = await entriesFor(project);
+    expect(entries.map(entry => [entry.action, entry.actorId])).toEqual([['create', user.id], ['update', user.id]]);
+    expect(entries[1].changes.status).toEqual({ before: 'active', after: 'completed' });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Change Stream Tests
+ * 
+ * This file contains test cases for the events published by services/changeStream.ts.
+ * It demonstrates:
+ * 1. created, updated and deleted events driven by model hooks
+ * 2. Publishing only after a transaction commits
+ * 3. Resuming from the bounded buffer with an event id
+ */
+
+import { Sequelize } from 'sequelize';
+import { Tag } from '../../models/Tag';
+import { ChangeEvent, getChangesSince, getLastEventId, registerChangeHooks, subscribeToChanges } from '../../services/changeStream';
+
+describe('Change Stream', () => {
+  let sequelize: Sequelize;
+  let events: ChangeEvent[];
+  let unsubscribe: () => void;
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    registerChangeHooks(sequelize);
+    await sequelize.sync({ force: true });
+  });
+
+  beforeEach(async () => {
+    await Tag.destroy({ where: {}, force: true });
+    events = [];
+    unsubscribe = subscribeToChanges(event => events.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    delete process.env.CHANGE_BUFFER_SIZE;
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should publish numbered created, updated and deleted events', async () => {
+    const tag = await Tag.create({ name: 'backend' });
+    await tag.update({ color: '#000000' });
+    await tag.destroy();
+    await tag.restore();
+
+    expect(events.map(event => [event.type, event.action])).toEqual([
+      ['tag', 'created'], ['tag', 'updated'], ['tag', 'deleted'], ['tag', 'created']
+    ]);
+    expect(events.map(event => event.id - events[0].id)).toEqual([0, 1, 2, 3]);
+    expect(events[1]).toMatchObject({ recordId: tag.id, projectId: null, data: { name: 'backend', color: '#000000' } });
+  });
+
+  it('should only publish changes whose transaction commits', async () => {
+    await sequelize.transaction(async transaction => {
+      await Tag.create({ name: 'committed' }, { transaction });
+      expect(events).toHaveLength(0);
+    });
+    expect(events.map(event => event.data.name)).toEqual(['committed']);
+
+    await expect(sequelize.transaction(async transaction => {
+      await Tag.create({ name: 'rolled-back' }, { transaction });
+      throw new Error('Roll back');
+    })).rejects.toThrow('Roll back');
+    expect(events).toHaveLength(1);
+  });
+
+  it('should return the buffered events after an id, or null when some are gone', async () => {
+    process.env.CHANGE_BUFFER_SIZE = '3';
+    const before = getLastEventId();
+    for (const name of ['one', 'two', 'three', 'four'])
+      await Tag.create({ name });
+
+    expect(getChangesSince(before + 2)!.map(event => event.data.name)).toEqual(['three', 'four']);
+    expect(getChangesSince(before + 1)!.map(event => event.data.name)).toEqual(['two', 'three', 'four']);
+    expect(getChangesSince(before + 4)).toEqual([]);
+
+    // 'one' has left the buffer, and ids from the future come from before a restart
+    expect(getChangesSince(before)).toBeNull();
+    expect(getChangesSince(before + 5)).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * OpenAPI Tests
+ * 
+ * This file contains test cases for the generated OpenAPI document.
+ * It demonstrates:
+ * 1. Every route of the router table having an operation spec
+ * 2. Schemas following the model attributes and validators
+ * 3. Every schema reference resolving
+ */
+
+import { getVersionRouters } from '../../routes/apiRouters';
+import { buildOpenApiDocument, listRoutes, SchemaObject } from '../../services/openapi';
+import { DOCUMENTED_MODELS } from '../../controllers/DocsController';
+
+describe('OpenAPI', () => {
+  const routers = getVersionRouters('v1');
+  let document: SchemaObject;
+
+  // Collect every $ref in the document
+  const collectRefs = (value: unknown, refs: string[] = []): string[] => {
+    if (Array.isArray(value))
+      value.forEach(item => collectRefs(item, refs));
+    else if (value != null && typeof value == 'object') {
+      for (const [key, item] of Object.entries(value)) {
+        if (key == '$ref')
+          refs.push(item as string);
+        else
+          collectRefs(item, refs);
+      }
+    }
+    return refs;
+  };
+
+  beforeAll(() => {
+    document = buildOpenApiDocument(routers, DOCUMENTED_MODELS, '/api/v1');
+  });
+
+  it('should describe every route', () => {
+    const routes = listRoutes(routers);
+    const undocumented = routes.filter(route => route.operation == null).map(route => `${route.method.toUpperCase()} ${route.path}`);
+    expect(undocumented).toEqual([]);
+
+    // Specs left behind after a route was removed
+    for (const { prefix, operations } of routers) {
+      const keys = routes.filter(route => route.path.startsWith(prefix)).map(route => route.key);
+      expect(Object.keys(operations).filter(key => !keys.includes(key))).toEqual([]);
+    }
+
+    expect(document.paths['/tasks/{id}'].patch.parameters[0]).toMatchObject({ name: 'id', in: 'path' });
+    expect(document.paths['/auth/login'].post.security).toEqual([]);
+    expect(document.servers).toEqual([{ url: '/api/v1' }]);
+  });
+
+  it('should follow the model attributes and validators', () => {
+    const { Task: task, TaskCreate: taskCreate, TaskPatch: taskPatch, Tag: tag, User: user, UserCreate: userCreate, UserUpdate: userUpdate } = document.components.schemas;
+
+    expect(task.properties.title).toEqual({ type: 'string', minLength: 3, maxLength: 100 });
+    expect(task.properties.status).toMatchObject({ type: 'string', enum: ['pending', 'in_progress', 'completed', 'cancelled'], default: 'pending' });
+    expect(task.properties.description.nullable).toBe(true);
+    expect(task.properties.id.readOnly).toBe(true);
+    expect(tag.properties.color.pattern).toBe('^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$');
+
+    // userId defaults to the caller
+    expect(taskCreate.required).toEqual(['title', 'dueDate', 'projectId']);
+    expect(taskCreate.additionalProperties).toBe(false);
+    expect(taskPatch.required).toBeUndefined();
+
+    // The password is accepted but never returned, and a PUT keeps it and the role when left out
+    expect(user.properties.password).toBeUndefined();
+    expect(userCreate.properties.password.writeOnly).toBe(true);
+    expect(userCreate.required).toEqual(['username', 'email', 'password', 'firstName', 'lastName']);
+    expect(userUpdate.required).toEqual(['username', 'email', 'firstName', 'lastName']);
+  });
+
+  it('should not accept the fields nested task routes take from their path', () => {
+    const nested = { '/projects/{id}/tasks': 'projectId', '/users/{id}/tasks': 'userId' };
+
+    for (const [path, field] of Object.entries(nested)) {
+      const ref: string = document.paths[path].post.requestBody.content['application/json'].schema.$ref;
+      const schema = document.components.schemas[ref.replace('#/components/schemas/', '')];
+      expect(schema.properties).not.toHaveProperty(field);
+      expect(schema.required).not.toContain(field);
+      expect(schema.additionalProperties).toBe(false);
+    }
+
+    expect(document.components.schemas.ProjectTaskCreate.required).toEqual(['title', 'dueDate']);
+    expect(document.components.schemas.UserTaskCreate.required).toEqual(['title', 'dueDate', 'projectId']);
+  });
+
+  it('should only reference schemas that exist', () => {
+    const names = Object.keys(document.components.schemas);
+    const missing = collectRefs(document)
+      .filter(ref => ref.startsWith('#/components/schemas/'))
+      .map(ref => ref.replace('#/components/schemas/', ''))
+      .filter(name => !names.includes(name));
+
+    expect([...new Set(missing)]).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Schema Upgrade Tests
+ * 
+ * This file contains test cases for adding new model columns to an existing database.
+ * It demonstrates:
+ * 1. Adding the columns a table created by an older version lacks
+ * 2. Filling existing rows with the column defaults
+ */
+
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { addMissingColumns } from '../../services/schemaUpgrade';
+
+describe('Schema Upgrade', () => {
+  let sequelize: Sequelize;
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+
+    // The users table as it was before roles, versions and the trash
+    await sequelize.query(`CREATE TABLE users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username VARCHAR(255) NOT NULL UNIQUE,
+      email VARCHAR(255) NOT NULL UNIQUE,
+      password VARCHAR(255) NOT NULL,
+      firstName VARCHAR(255) NOT NULL,
+      lastName VARCHAR(255) NOT NULL,
+      createdAt DATETIME NOT NULL,
+      updatedAt DATETIME NOT NULL
+    )`);
+    await sequelize.query(`INSERT INTO users (username, email, password, firstName, lastName, createdAt, updatedAt)
+      VALUES ('olduser', 'old@example.com', 'x', 'Old', 'User', '2026-01-01', '2026-01-01')`);
+    await sequelize.sync();
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should add the missing columns with their defaults', async () => {
+    expect(await addMissingColumns(sequelize)).toEqual(['users.role', 'users.deletedAt', 'users.version']);
+
+    const user = await User.findOne({ where: { username: 'olduser' } });
+    expect(user).toMatchObject({ role: 'member', version: 0, deletedAt: null });
+
+    await user!.update({ firstName: 'Updated' });
+    expect(user!.version).toBe(1);
+    await user!.destroy();
+    expect(await User.count()).toBe(0);
+  });
+
+  it('should leave an up to date database alone', async () => {
+    expect(await addMissingColumns(sequelize)).toEqual([]);
+  });
+});
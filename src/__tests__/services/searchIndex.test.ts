@@ -0,0 +1,140 @@
+/**
+ * Search Index Tests
+ * 
+ * This file contains test cases for the full-text search index.
+ * It demonstrates:
+ * 1. Backfilling the index from existing rows
+ * 2. Keeping the index in sync through model hooks
+ * 3. Ranked queries with highlights and filters
+ */
+
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Tag } from '../../models/Tag';
+import { ensureSearchIndex, querySearchIndex, rebuildSearchIndex, registerSearchHooks, SEARCH_RESOURCE_TYPES } from '../../services/searchIndex';
+
+describe('Search Index', () => {
+  let sequelize: Sequelize;
+  let user: User;
+  let project: Project;
+
+  const search = (q: string, filters: object = {}) =>
+    querySearchIndex(sequelize, { terms: q.split(' '), types: SEARCH_RESOURCE_TYPES, ...filters });
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+
+    await sequelize.sync({ force: true });
+
+    user = await User.create({
+      username: 'testuser',
+      email: 'test@example.com',
+      password: 'pAssword123!',
+      firstName: 'Test',
+      lastName: 'User'
+    });
+
+    // Created before the index exists, so it is only found through the backfill
+    project = await Project.create({
+      name: 'Website redesign',
+      description: 'Refresh the marketing website',
+      status: 'active',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 86400000),
+      userId: user.id
+    });
+
+    await ensureSearchIndex(sequelize);
+
+    registerSearchHooks(Task);
+    registerSearchHooks(Project);
+    registerSearchHooks(Tag);
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  const createTask = (title: string, description: string, status: string = 'pending') =>
+    Task.create({ title, description, status, priority: 'medium', dueDate: new Date(Date.now() + 86400000), userId: user.id, projectId: project.id });
+
+  it('should index rows that existed before the index was created', async () => {
+    const hits = await search('marketing');
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ resourceType: 'project', resourceId: project.id, projectId: project.id, status: 'active' });
+  });
+
+  it('should index created, updated and deleted records', async () => {
+    const task = await createTask('Write release notes', 'Summarise the changes');
+    expect((await search('release')).map(hit => hit.resourceId)).toEqual([task.id]);
+
+    await task.update({ title: 'Write changelog' });
+    expect(await search('release')).toHaveLength(0);
+    expect(await search('changelog')).toHaveLength(1);
+
+    await task.destroy();
+    expect(await search('changelog')).toHaveLength(0);
+
+    // Restored from the trash
+    await task.restore();
+    expect(await search('changelog')).toHaveLength(1);
+  });
+
+  it('should match stems and prefixes and highlight the matches', async () => {
+    await createTask('Design new website header', 'The header should be responsive');
+
+    const hits = await search('websit', { types: ['task'] });
+    expect(hits).toHaveLength(1);
+    expect(hits[0].title).toBe('Design new <mark>website</mark> header');
+    expect(hits[0].score).toBeGreaterThan(0);
+  });
+
+  it('should rank title matches above description matches', async () => {
+    await Tag.create({ name: 'documentation', color: '#123456' });
+    await createTask('Review pull requests', 'Check the documentation changes');
+
+    const hits = await search('documentation');
+    expect(hits.map(hit => hit.resourceType)).toEqual(['tag', 'task']);
+    expect(hits[1].snippet).toContain('<mark>documentation</mark>');
+  });
+
+  it('should filter by type, project and status', async () => {
+    await createTask('Launch website', 'Go live', 'completed');
+
+    expect((await search('website', { types: ['project'] })).map(hit => hit.resourceType)).toEqual(['project']);
+    expect((await search('website', { statuses: ['completed'] })).map(hit => hit.title)).toEqual(['Launch <mark>website</mark>']);
+    expect(await search('website', { projectIds: [project.id + 1] })).toHaveLength(0);
+  });
+
+  it('should escape HTML in the highlighted text', async () => {
+    await createTask('<img src=x onerror=alert(1)> website', 'Fix "quotes" & <b>tags</b> on the website');
+
+    const [hit] = await search('onerror');
+    expect(hit.title).toBe('&lt;img src=x <mark>onerror</mark>=alert(1)&gt; website');
+
+    const [other] = await search('quotes');
+    expect(other.snippet).toBe('Fix &quot;<mark>quotes</mark>&quot; &amp; &lt;b&gt;tags&lt;/b&gt; on the website');
+  });
+
+  it('should match search syntax literally', async () => {
+    await expect(search('"OR( NEAR')).resolves.toEqual([]);
+  });
+
+  it('should rebuild the index from the current rows', async () => {
+    await sequelize.query('DELETE FROM search_index');
+    expect(await search('website')).toHaveLength(0);
+
+    await rebuildSearchIndex(sequelize);
+    expect(await search('website')).toHaveLength(4);
+  });
+});
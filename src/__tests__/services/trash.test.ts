@@ -0,0 +1,144 @@
+/**
+ * Trash Tests
+ * 
+ * This file contains test cases for soft deletes in services/trash.ts.
+ * It demonstrates:
+ * 1. Moving a user or project to the trash together with the records that depend on it
+ * 2. Restoring only the records that were trashed together
+ * 3. Purging records in the trash
+ */
+
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Tag } from '../../models/Tag';
+import { purgeRecord, restoreRecord, trashRecord } from '../../services/trash';
+import { ConflictError } from '../../utils/errors';
+
+describe('Trash', () => {
+  let sequelize: Sequelize;
+  let owner: User;
+  let assignee: User;
+  let project: Project;
+
+  const createUser = (name: string) => User.create({
+    username: name,
+    email: `${name}@example.com`,
+    password: 'pAssword123!',
+    firstName: 'Test',
+    lastName: 'User'
+  });
+
+  const createTask = (title: string, user: User = assignee) => Task.create({
+    title,
+    status: 'pending',
+    dueDate: new Date(Date.now() + 86400000),
+    priority: 'medium',
+    userId: user.id,
+    projectId: project.id
+  });
+
+  const liveTaskTitles = async () => (await Task.findAll({ order: [['id', 'ASC']] })).map(task => task.title);
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    // Initialize models with the test database
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+
+    // Set up associations, with the foreign keys a purge relies on
+    User.hasMany(Task, { as: 'tasks', foreignKey: 'userId', onDelete: 'CASCADE' });
+    Task.belongsTo(User, { as: 'user', foreignKey: 'userId' });
+    Project.hasMany(Task, { as: 'tasks', foreignKey: 'projectId', onDelete: 'CASCADE' });
+    Task.belongsTo(Project, { as: 'project', foreignKey: 'projectId' });
+    User.hasMany(Project, { as: 'ownedProjects', foreignKey: 'userId', onDelete: 'CASCADE' });
+    Project.belongsTo(User, { as: 'user', foreignKey: 'userId' });
+
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(async () => {
+    await Task.destroy({ where: {}, force: true });
+    await Project.destroy({ where: {}, force: true });
+    await User.destroy({ where: {}, force: true });
+
+    owner = await createUser('owner');
+    assignee = await createUser('assignee');
+    project = await Project.create({
+      name: 'Test Project',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 86400000),
+      userId: owner.id
+    });
+  });
+
+  it('should move a project and its tasks to the trash and restore them together', async () => {
+    await createTask('Design');
+    const deletedEarlier = await createTask('Build');
+    await deletedEarlier.destroy();
+
+    await trashRecord(project);
+    expect(await Project.findByPk(project.id)).toBeNull();
+    expect(await liveTaskTitles()).toEqual([]);
+    expect(await Task.count({ paranoid: false })).toBe(2);
+
+    await restoreRecord(project);
+    expect(await Project.findByPk(project.id)).not.toBeNull();
+    // The task deleted on its own stays in the trash
+    expect(await liveTaskTitles()).toEqual(['Design']);
+  });
+
+  it('should move a user\'s projects and tasks to the trash', async () => {
+    const otherProject = await Project.create({
+      name: 'Other Project',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 86400000),
+      userId: assignee.id
+    });
+    await createTask('In owner project');
+    await Task.create({
+      title: 'In other project',
+      dueDate: new Date(Date.now() + 86400000),
+      userId: owner.id,
+      projectId: otherProject.id
+    });
+
+    await trashRecord(owner);
+    expect(await Project.count()).toBe(1);
+    expect(await liveTaskTitles()).toEqual([]);
+
+    await restoreRecord(owner);
+    expect(await Project.count()).toBe(2);
+    expect(await liveTaskTitles()).toEqual(['In owner project', 'In other project']);
+  });
+
+  it('should not restore a record whose parent is in the trash', async () => {
+    const task = await createTask('Design');
+    await trashRecord(project);
+
+    const trashedTask = (await Task.findByPk(task.id, { paranoid: false }))!;
+    await expect(restoreRecord(trashedTask)).rejects.toMatchObject({ status: 409, code: 'parent_in_trash' });
+    await expect(restoreRecord(owner)).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should only purge records in the trash', async () => {
+    const task = await createTask('Design');
+    await expect(purgeRecord(project)).rejects.toMatchObject({ status: 409, code: 'not_in_trash' });
+
+    await trashRecord(project);
+    await purgeRecord((await Project.findByPk(project.id, { paranoid: false }))!);
+    expect(await Project.findByPk(project.id, { paranoid: false })).toBeNull();
+    expect(await Task.findByPk(task.id, { paranoid: false })).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Webhook Tests
+ * 
+ * This file contains test cases for queueing and sending webhook deliveries.
+ * It demonstrates:
+ * 1. Events raised by task changes, queued in the database
+ * 2. Signed deliveries to a local HTTP receiver
+ * 3. Retries with exponential backoff, failure and replay
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Webhook } from '../../models/Webhook';
+import { WebhookDelivery } from '../../models/WebhookDelivery';
+import { WebhookAttempt } from '../../models/WebhookAttempt';
+import { registerWebhookHooks } from '../../services/webhooks';
+import { processDueDeliveries, replayDelivery, signPayload } from '../../services/webhookDelivery';
+import { ConflictError } from '../../utils/errors';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhooks', () => {
+  let sequelize: Sequelize;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let user: User;
+  let project: Project;
+
+  const createWebhook = (events: string[], active: boolean = true) =>
+    Webhook.create({ url: receiverUrl, events, active, secret: 'a-test-secret-of-some-length' });
+
+  const createTask = (title: string) => Task.create({
+    title,
+    status: 'pending',
+    dueDate: new Date(Date.now() + 86400000),
+    priority: 'medium',
+    userId: user.id,
+    projectId: project.id
+  });
+
+  const inOneDay = () => new Date(Date.now() + 86400000);
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    // Initialize models with the test database
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+    Webhook.init(Webhook.getAttributes(), { ...Webhook.options, sequelize });
+    WebhookDelivery.init(WebhookDelivery.getAttributes(), { ...WebhookDelivery.options, sequelize });
+    WebhookAttempt.init(WebhookAttempt.getAttributes(), { ...WebhookAttempt.options, sequelize });
+    WebhookDelivery.belongsTo(Webhook, { as: 'webhook', foreignKey: 'webhookId' });
+    WebhookDelivery.hasMany(WebhookAttempt, { as: 'attempts', foreignKey: 'deliveryId' });
+    registerWebhookHooks(sequelize);
+
+    await sequelize.sync({ force: true });
+
+    // A local stand-in for the receiving system, answering with responseStatus
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+  });
+
+  beforeEach(async () => {
+    await WebhookAttempt.destroy({ where: {} });
+    await WebhookDelivery.destroy({ where: {} });
+    await Webhook.destroy({ where: {} });
+    await Task.destroy({ where: {}, force: true });
+    await Project.destroy({ where: {}, force: true });
+    await User.destroy({ where: {}, force: true });
+
+    received = [];
+    responseStatus = 200;
+    user = await User.create({
+      username: 'hookuser',
+      email: 'hookuser@example.com',
+      password: 'pAssword123!',
+      firstName: 'Test',
+      lastName: 'User'
+    });
+    project = await Project.create({ name: 'Hooks', startDate: new Date(), endDate: inOneDay(), userId: user.id });
+  });
+
+  afterAll(async () => {
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+    await new Promise(resolve => receiver.close(resolve));
+    await sequelize.close();
+  });
+
+  it('should queue deliveries for the events a webhook is subscribed to', async () => {
+    const webhook = await createWebhook(['task.created', 'task.completed', 'task.reassigned', 'task.deleted']);
+    await createWebhook(['project.deleted']);
+    await createWebhook(['task.created'], false);
+
+    const other = await User.create({
+      username: 'otheruser',
+      email: 'otheruser@example.com',
+      password: 'pAssword123!',
+      firstName: 'Other',
+      lastName: 'User'
+    });
+    const task = await createTask('Send invoices');
+    await task.update({ status: 'in_progress' });
+    await task.update({ status: 'completed', userId: other.id });
+    await task.destroy();
+
+    const deliveries = await WebhookDelivery.findAll({ order: [['id', 'ASC']] });
+    expect(deliveries.every(delivery => delivery.webhookId == webhook.id)).toBe(true);
+    expect(deliveries.map(delivery => delivery.event)).toEqual(['task.created', 'task.completed', 'task.reassigned', 'task.deleted']);
+    expect(deliveries[0].payload.data).toMatchObject({ id: task.id, title: 'Send invoices' });
+    expect(deliveries[1].payload.previous).toEqual({ status: 'in_progress' });
+    expect(deliveries[2].payload.previous).toEqual({ userId: user.id });
+  });
+
+  it('should send signed deliveries and record the attempt', async () => {
+    await createWebhook(['task.created']);
+    const task = await createTask('Send invoices');
+
+    expect(await processDueDeliveries()).toBe(1);
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers['x-webhook-event']).toBe('task.created');
+    expect(headers['x-webhook-signature']).toBe(signPayload('a-test-secret-of-some-length', Number(headers['x-webhook-timestamp']), body));
+    expect(JSON.parse(body)).toMatchObject({ event: 'task.created', data: { id: task.id } });
+
+    const delivery = (await WebhookDelivery.findOne({ include: [{ model: WebhookAttempt, as: 'attempts' }] }))!;
+    expect(delivery.status).toBe('succeeded');
+    expect(delivery.deliveredAt).not.toBeNull();
+    expect((delivery as any).attempts.map((attempt: WebhookAttempt) => attempt.statusCode)).toEqual([200]);
+    expect((delivery as any).attempts[0].latencyMs).toBeGreaterThanOrEqual(0);
+
+    // Nothing is due any more
+    expect(await processDueDeliveries()).toBe(0);
+  });
+
+  it('should retry with exponential backoff until the delivery fails, and replay it', async () => {
+    process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+    responseStatus = 500;
+    await createWebhook(['task.created']);
+    await createTask('Send invoices');
+
+    const start = Date.now();
+    await processDueDeliveries();
+    let delivery = (await WebhookDelivery.findOne())!;
+    expect(delivery.status).toBe('pending');
+    expect(delivery.nextAttemptAt!.getTime() - start).toBeGreaterThanOrEqual(30000);
+
+    // The second retry waits twice as long
+    await processDueDeliveries(inOneDay());
+    delivery = (await WebhookDelivery.findOne())!;
+    expect(delivery.nextAttemptAt!.getTime() - start).toBeGreaterThanOrEqual(60000);
+
+    await processDueDeliveries(inOneDay());
+    delivery = (await WebhookDelivery.findOne())!;
+    expect(delivery.status).toBe('failed');
+    expect(delivery.nextAttemptAt).toBeNull();
+    expect(await WebhookAttempt.count({ where: { deliveryId: delivery.id, statusCode: 500 } })).toBe(3);
+
+    responseStatus = 204;
+    await replayDelivery(delivery);
+    await processDueDeliveries();
+    delivery = (await WebhookDelivery.findOne())!;
+    expect(delivery.status).toBe('succeeded');
+    expect(received).toHaveLength(4);
+    await expect(replayDelivery(delivery)).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should record attempts that get no response', async () => {
+    const webhook = await createWebhook(['task.created']);
+    await webhook.update({ url: 'http://127.0.0.1:1/unreachable' });
+    await createTask('Send invoices');
+
+    await processDueDeliveries();
+
+    const attempt = (await WebhookAttempt.findOne())!;
+    expect(attempt.statusCode).toBeNull();
+    expect(attempt.error).toBeTruthy();
+    expect((await WebhookDelivery.findOne())!.status).toBe('pending');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Conditional Request Tests
+ * 
+ * This file contains test cases for ETags and If-Match / If-None-Match handling.
+ * It demonstrates:
+ * 1. ETags of the version and the representation
+ * 2. 304 and 412 decisions from the request headers
+ * 3. Optimistic locking between loading and saving a record
+ */
+
+import { Request, Response } from 'express';
+import { OptimisticLockError, Sequelize } from 'sequelize';
+import { Tag } from '../../models/Tag';
+import { assertIfMatch, checkNotModified, getETag } from '../../utils/conditionalRequests';
+import { ApiError } from '../../utils/errors';
+
+describe('Conditional Requests', () => {
+  let sequelize: Sequelize;
+  let tag: Tag;
+
+  const request = (headers: Record<string, string>) => ({ headers }) as unknown as Request;
+
+  const mockResponse = () => {
+    const res: any = { headers: {} };
+    res.setHeader = jest.fn((name: string, value: string) => { res.headers[name] = value; });
+    return res;
+  };
+
+  const expectApiError = (action: () => unknown, status: number, code: string) => {
+    try {
+      action();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({ status, code });
+      return;
+    }
+    throw new Error('Expected an ApiError');
+  };
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    await sequelize.sync({ force: true });
+  });
+
+  beforeEach(async () => {
+    await Tag.destroy({ where: {}, force: true });
+    tag = await Tag.create({ name: 'backend' });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should change the ETag on every update and with the representation', async () => {
+    const etag = getETag(tag);
+    expect(etag).toMatch(/^"0-[\w-]+"$/);
+    expect(getETag(tag)).toBe(etag);
+
+    // Different fieldsets or included associations get a different tag
+    expect(getETag(tag, { id: tag.id, name: tag.name })).not.toBe(etag);
+    expect(getETag(tag, { ...tag.get({ plain: true }), tasks: [] })).not.toBe(etag);
+
+    await tag.update({ color: '#000000' });
+    expect(getETag(tag)).toMatch(/^"1-/);
+  });
+
+  it('should detect clients that already have the current representation', async () => {
+    const etag = getETag(tag);
+    const res = mockResponse();
+    expect(checkNotModified(request({}), res as Response, tag)).toBe(false);
+    expect(res.headers.ETag).toBe(etag);
+
+    expect(checkNotModified(request({ 'if-none-match': `W/${etag}` }), mockResponse(), tag)).toBe(true);
+    expect(checkNotModified(request({ 'if-none-match': `"5", ${etag}` }), mockResponse(), tag)).toBe(true);
+    expect(checkNotModified(request({ 'if-none-match': '*' }), mockResponse(), tag)).toBe(true);
+
+    // The same version with other associations is not the representation the client has
+    expect(checkNotModified(request({ 'if-none-match': etag }), mockResponse(), tag, { ...tag.get({ plain: true }), tasks: [{ id: 1 }] })).toBe(false);
+
+    await tag.update({ color: '#000000' });
+    expect(checkNotModified(request({ 'if-none-match': etag }), mockResponse(), tag)).toBe(false);
+  });
+
+  it('should reject changes made against an old version', async () => {
+    const etag = getETag(tag);
+    expect(() => assertIfMatch(request({ 'if-match': etag }), tag)).not.toThrow();
+    expect(() => assertIfMatch(request({ 'if-match': '*' }), tag)).not.toThrow();
+    expect(() => assertIfMatch(request({}), tag)).not.toThrow();
+
+    // Any representation of the current version will do
+    expect(() => assertIfMatch(request({ 'if-match': getETag(tag, { id: tag.id }) }), tag)).not.toThrow();
+
+    await tag.update({ color: '#000000' });
+    expectApiError(() => assertIfMatch(request({ 'if-match': etag }), tag), 412, 'precondition_failed');
+
+    // Weak tags never match If-Match
+    expectApiError(() => assertIfMatch(request({ 'if-match': `W/${getETag(tag)}` }), tag), 412, 'precondition_failed');
+  });
+
+  it('should require If-Match when REQUIRE_IF_MATCH is set', () => {
+    process.env.REQUIRE_IF_MATCH = 'true';
+    try {
+      expectApiError(() => assertIfMatch(request({}), tag), 428, 'precondition_required');
+      expect(() => assertIfMatch(request({ 'if-match': getETag(tag) }), tag)).not.toThrow();
+    } finally {
+      delete process.env.REQUIRE_IF_MATCH;
+    }
+  });
+
+  it('should not overwrite a change saved after the record was loaded', async () => {
+    const first = (await Tag.findByPk(tag.id))!;
+    const second = (await Tag.findByPk(tag.id))!;
+
+    await first.update({ color: '#111111' });
+    await expect(second.update({ color: '#222222' })).rejects.toBeInstanceOf(OptimisticLockError);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Include and Fieldset Tests
+ * 
+ * This file contains test cases for the include and fields query parameters.
+ * It demonstrates:
+ * 1. Include whitelists with nested association paths
+ * 2. Sparse fieldsets per resource type
+ * 3. Rejecting unknown includes, types and attributes
+ * 4. Limiting included associations to the records the caller may see
+ */
+
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Tag } from '../../models/Tag';
+import { applyFieldsets, IncludeOptions, parseResponseShape } from '../../utils/includes';
+import { QueryError } from '../../utils/errors';
+
+describe('Includes and Fieldsets', () => {
+  let sequelize: Sequelize;
+  let task: Task;
+
+  const OPTIONS: IncludeOptions = {
+    allowed: ['user', 'project', 'project.user', 'tags'],
+    defaults: ['user', 'project', 'tags']
+  };
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+
+    Task.belongsTo(User, { as: 'user', foreignKey: 'userId' });
+    Task.belongsTo(Project, { as: 'project', foreignKey: 'projectId' });
+    Project.belongsTo(User, { as: 'user', foreignKey: 'userId' });
+    Task.belongsToMany(Tag, { through: 'TaskTags', as: 'tags', foreignKey: 'taskId' });
+    Tag.belongsToMany(Task, { through: 'TaskTags', as: 'tasks', foreignKey: 'tagId' });
+
+    await sequelize.sync({ force: true });
+
+    const user = await User.create({
+      username: 'testuser',
+      email: 'test@example.com',
+      password: 'pAssword123!',
+      firstName: 'Test',
+      lastName: 'User'
+    });
+    const project = await Project.create({
+      name: 'Backend',
+      status: 'active',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 86400000),
+      userId: user.id
+    });
+    task = await Task.create({
+      title: 'Write the API',
+      status: 'pending',
+      priority: 'high',
+      dueDate: new Date(Date.now() + 86400000),
+      userId: user.id,
+      projectId: project.id
+    });
+    const tag = await Tag.create({ name: 'backend' });
+    await sequelize.models.TaskTags.create({ taskId: task.id, tagId: tag.id });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should use the default includes unless include is given', () => {
+    expect(parseResponseShape(Task, {}, OPTIONS).include).toEqual(['user', 'project', 'tags']);
+    expect(parseResponseShape(Task, { include: '' }, OPTIONS).include).toEqual([]);
+    expect(parseResponseShape(Task, { include: 'project.user,tags' }, OPTIONS).include).toEqual([
+      { association: 'project', include: ['user'] },
+      'tags'
+    ]);
+  });
+
+  it('should only return the attributes of each fieldset', async () => {
+    const shape = parseResponseShape(Task, {
+      include: 'project.user,tags',
+      fields: { task: 'title,status', user: 'username', tag: 'name' }
+    }, OPTIONS);
+    const record = (await Task.findByPk(task.id, { include: shape.include }))!;
+
+    expect(applyFieldsets(record, shape.fields)).toEqual({
+      id: task.id,
+      title: 'Write the API',
+      status: 'pending',
+      project: expect.objectContaining({ name: 'Backend', user: { id: record.userId, username: 'testuser' } }),
+      tags: [{ id: expect.any(Number), name: 'backend' }]
+    });
+  });
+
+  it('should only include the associated records matching their scope', async () => {
+    const tagOptions: IncludeOptions = { allowed: ['tasks'], defaults: ['tasks'] };
+    const hidden = parseResponseShape(Tag, {}, tagOptions, { tasks: { userId: 0 } });
+    expect(hidden.include).toEqual([{ association: 'tasks', where: { userId: 0 }, required: false }]);
+
+    // The tag itself is still returned
+    const tag = await Tag.findOne({ where: { name: 'backend' }, include: hidden.include });
+    expect((tag as any).tasks).toEqual([]);
+
+    const visible = parseResponseShape(Tag, {}, tagOptions, { tasks: { userId: task.userId } });
+    const tagWithTasks = await Tag.findOne({ where: { name: 'backend' }, include: visible.include });
+    expect((tagWithTasks as any).tasks.map((item: Task) => item.id)).toEqual([task.id]);
+  });
+
+  it('should reject includes and fields that are not allowed', () => {
+    const parse = (query: Record<string, any>) => () => parseResponseShape(Task, query, OPTIONS);
+
+    expect(parse({ include: 'project.members' })).toThrow(QueryError);
+    expect(parse({ fields: 'title' })).toThrow(QueryError);
+    expect(parse({ fields: { task: 'secret' } })).toThrow(QueryError);
+
+    // Types must be part of the response
+    expect(parse({ include: 'tags', fields: { user: 'username' } })).toThrow(QueryError);
+    expect(parse({ include: 'tags', fields: { tag: 'name' } })).not.toThrow();
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Pagination Utility Tests
+ * 
+ * This file contains test cases for the shared list query handling.
+ * It demonstrates:
+ * 1. limit/offset pagination
+ * 2. Cursor pagination
+ * 3. Whitelisted and ranked sorting
+ * 4. Query validation errors
+ * 5. Cursors through rows with null sort values
+ */
+
+import { Request } from 'express';
+import { Sequelize } from 'sequelize';
+import { Tag } from '../../models/Tag';
+import { Webhook } from '../../models/Webhook';
+import { WebhookDelivery } from '../../models/WebhookDelivery';
+import { paginate, SortOptions } from '../../utils/pagination';
+import { QueryError } from '../../utils/errors';
+
+describe('Pagination', () => {
+  let sequelize: Sequelize;
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Webhook.init(Webhook.getAttributes(), { ...Webhook.options, sequelize });
+    WebhookDelivery.init(WebhookDelivery.getAttributes(), { ...WebhookDelivery.options, sequelize });
+    await sequelize.sync({ force: true });
+
+    await Tag.bulkCreate([
+      { name: 'alpha', color: '#ff0000' },
+      { name: 'bravo', color: '#00ff00' },
+      { name: 'charlie', color: '#0000ff' },
+      { name: 'delta', color: '#00ff00' },
+      { name: 'echo', color: '#ff0000' }
+    ]);
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  // Rank colors so sorting follows this list instead of the alphabet
+  const sort: SortOptions = {
+    fields: ['id', 'name', 'color'],
+    ranks: { color: ['#ff0000', '#00ff00', '#0000ff'] }
+  };
+
+  const request = (query: Record<string, any>) => ({
+    query,
+    originalUrl: '/api/tags?' + new URLSearchParams(query).toString()
+  } as unknown as Request);
+
+  const names = (tags: Tag[]) => tags.map(tag => tag.name);
+
+  it('should page with limit and offset', async () => {
+    const page = await paginate(Tag, request({ limit: '2', offset: '2' }), { sort });
+
+    expect(names(page.data)).toEqual(['charlie', 'delta']);
+    expect(page.meta.total).toBe(5);
+    expect(page.links.next).toBe('/api/tags?limit=2&offset=4');
+    expect(page.links.prev).toBe('/api/tags?limit=2&offset=0');
+  });
+
+  it('should sort by several fields and directions', async () => {
+    const page = await paginate(Tag, request({ sort: 'color,-name' }), { sort });
+    expect(names(page.data)).toEqual(['echo', 'alpha', 'delta', 'bravo', 'charlie']);
+  });
+
+  it('should follow cursors through every page', async () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const query: Record<string, string> = { sort: 'color,-name', limit: '2' };
+      if (cursor)
+        query.cursor = cursor;
+
+      const page = await paginate(Tag, request(query), { sort });
+      seen.push(...names(page.data));
+      cursor = page.meta.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(['echo', 'alpha', 'delta', 'bravo', 'charlie']);
+  });
+
+  it('should reject bad query parameters', async () => {
+    await expect(paginate(Tag, request({ sort: 'createdAt' }), { sort })).rejects.toThrow(QueryError);
+    await expect(paginate(Tag, request({ limit: '0' }), { sort })).rejects.toThrow('limit must be between 1 and 100');
+    await expect(paginate(Tag, request({ offset: '-1' }), { sort })).rejects.toThrow('offset must be a whole number');
+    await expect(paginate(Tag, request({ cursor: 'not-a-cursor' }), { sort })).rejects.toThrow('cursor is not valid');
+
+    const first = await paginate(Tag, request({ sort: 'name', limit: '1' }), { sort });
+    await expect(paginate(Tag, request({ sort: '-name', cursor: first.meta.nextCursor! }), { sort }))
+      .rejects
+      .toThrow('cursor was created for a different sort');
+  });
+
+  it('should reject cursor values that do not fit their sort field', async () => {
+    const cursor = (sortString: string, values: unknown[]) =>
+      Buffer.from(JSON.stringify({ sort: sortString, values })).toString('base64url');
+    const expectInvalid = (sortString: string, values: unknown[]) =>
+      expect(paginate(Tag, request({ sort: sortString, cursor: cursor(sortString, values) }), { sort })).rejects.toThrow('cursor is not valid');
+
+    await expectInvalid('name', ['bravo', 'x']);
+    await expectInvalid('name', [{ gt: 'a' }, 2]);
+    await expectInvalid('name', [null, 2]);
+    await expectInvalid('color', [9, 2]);
+    await expectInvalid('color', ['#ff0000', 2]);
+
+    const page = await paginate(Tag, request({ sort: 'color', cursor: cursor('color', [0, 5]), limit: '1' }), { sort });
+    expect(names(page.data)).toEqual(['bravo']);
+  });
+
+  it('should not skip rows with null sort values', async () => {
+    const webhook = await Webhook.create({ url: 'http://localhost/hook', events: ['task.created'], active: true, secret: 'a-test-secret-of-some-length' });
+    const attempts = ['2026-03-01', '2026-01-01', null, '2026-02-01', null, null];
+    await WebhookDelivery.bulkCreate(attempts.map(nextAttemptAt => ({
+      webhookId: webhook.id,
+      event: 'task.created',
+      payload: {},
+      nextAttemptAt: nextAttemptAt && new Date(nextAttemptAt)
+    })));
+
+    const deliverySort: SortOptions = { fields: ['id', 'nextAttemptAt'] };
+    const follow = async (sortString: string) => {
+      const seen: number[] = [];
+      let cursor: string | null = null;
+      do {
+        const query: Record<string, string> = { sort: sortString, limit: '2' };
+        if (cursor)
+          query.cursor = cursor;
+
+        const page = await paginate(WebhookDelivery, request(query), { sort: deliverySort });
+        seen.push(...page.data.map(delivery => delivery.id));
+        cursor = page.meta.nextCursor;
+      } while (cursor);
+      return seen;
+    };
+
+    // Nulls come first in ascending and last in descending order
+    expect(await follow('nextAttemptAt')).toEqual([3, 5, 6, 2, 4, 1]);
+    expect(await follow('-nextAttemptAt')).toEqual([1, 4, 2, 3, 5, 6]);
+    expect(await follow('-nextAttemptAt,-id')).toEqual([1, 4, 2, 6, 5, 3]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Request Body Tests
+ * 
+ * This file contains test cases for the create, replace and patch body handling.
+ * It demonstrates:
+ * 1. Rejecting attributes that are not writable
+ * 2. PUT as full replacement with required-field checks
+ * 3. JSON Merge Patch and JSON Patch documents
+ */
+
+import { Request } from 'express';
+import { Sequelize, ValidationError } from 'sequelize';
+import { Task } from '../../models/Task';
+import { ApiError } from '../../utils/errors';
+import { buildPatch, buildReplacement, pickWritable, WritableFields, JSON_PATCH_TYPE, MERGE_PATCH_TYPE } from '../../utils/requestBody';
+
+describe('Request Body', () => {
+  let sequelize: Sequelize;
+  let task: Task;
+
+  const FIELDS: WritableFields = {
+    create: ['title', 'description', 'status', 'dueDate', 'priority', 'userId', 'projectId'],
+    update: ['title', 'description', 'status', 'dueDate', 'priority', 'userId', 'projectId']
+  };
+
+  // A PATCH request with the given content type and body
+  const patchRequest = (contentType: string, body: unknown) =>
+    ({ body, is: (type: string) => type == contentType ? type : false }) as unknown as Request;
+
+  const expectApiError = (action: () => unknown, status: number, code: string) => {
+    try {
+      action();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({ status, code });
+      return;
+    }
+    throw new Error('Expected an ApiError');
+  };
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+  });
+
+  beforeEach(() => {
+    task = Task.build({
+      id: 1,
+      title: 'Write the API',
+      description: 'REST endpoints',
+      status: 'in_progress',
+      priority: 'high',
+      dueDate: new Date('2030-01-01T00:00:00.000Z'),
+      userId: 1,
+      projectId: 1
+    });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it('should reject attributes that are not writable', () => {
+    expect(pickWritable({ title: 'New title' }, FIELDS.create)).toEqual({ title: 'New title' });
+    expectApiError(() => pickWritable({ title: 'New title', id: 5, createdAt: '2020-01-01' }, FIELDS.create), 400, 'field_not_writable');
+    expectApiError(() => pickWritable(['title'], FIELDS.create), 400, 'invalid_body');
+  });
+
+  it('should require attributes without a default on replace and reset the others', () => {
+    const values = buildReplacement(Task, { title: 'New title', dueDate: '2030-02-01', userId: 2, projectId: 1 }, FIELDS);
+    expect(values).toEqual({
+      title: 'New title',
+      description: null,
+      status: 'pending',
+      dueDate: '2030-02-01',
+      priority: 'medium',
+      userId: 2,
+      projectId: 1
+    });
+
+    try {
+      buildReplacement(Task, { title: 'New title' }, FIELDS);
+      throw new Error('Expected a ValidationError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).errors.map(item => [item.path, item.validatorKey])).toEqual([
+        ['dueDate', 'required'], ['userId', 'required'], ['projectId', 'required']
+      ]);
+    }
+  });
+
+  it('should keep write-only attributes that are left out of a replace', () => {
+    const fields: WritableFields = { ...FIELDS, update: [...FIELDS.update, 'secret'], writeOnly: ['secret'] };
+    const values = buildReplacement(Task, { title: 'New title', dueDate: '2030-02-01', userId: 2, projectId: 1 }, fields);
+    expect(values).not.toHaveProperty('secret');
+  });
+
+  it('should keep attributes only some callers may write when they are left out of a replace', () => {
+    const fields: WritableFields = { ...FIELDS, keptOnReplace: ['priority'] };
+    const values = buildReplacement(Task, { title: 'New title', dueDate: '2030-02-01', userId: 2, projectId: 1 }, fields);
+    expect(values).not.toHaveProperty('priority');
+    expect(buildReplacement(Task, { title: 'New title', dueDate: '2030-02-01', userId: 2, projectId: 1, priority: 'high' }, fields))
+      .toHaveProperty('priority', 'high');
+  });
+
+  it('should apply a merge patch, resetting attributes set to null', () => {
+    expect(buildPatch(patchRequest(MERGE_PATCH_TYPE, { title: 'New title', priority: null, description: null }), task, FIELDS))
+      .toEqual({ title: 'New title', priority: 'medium', description: null });
+
+    // Plain JSON is treated as a merge patch
+    expect(buildPatch(patchRequest('application/json', { status: 'completed' }), task, FIELDS)).toEqual({ status: 'completed' });
+  });
+
+  it('should apply JSON Patch operations in order', () => {
+    const values = buildPatch(patchRequest(JSON_PATCH_TYPE, [
+      { op: 'test', path: '/status', value: 'in_progress' },
+      { op: 'test', path: '/dueDate', value: '2030-01-01T00:00:00.000Z' },
+      { op: 'replace', path: '/status', value: 'completed' },
+      { op: 'copy', from: '/title', path: '/description' },
+      { op: 'remove', path: '/priority' },
+      { op: 'add', path: '/title', value: 'Ship the API' }
+    ]), task, FIELDS);
+
+    expect(values).toEqual({ status: 'completed', description: 'Write the API', priority: 'medium', title: 'Ship the API' });
+  });
+
+  it('should replace write-only attributes with JSON Patch without revealing them', () => {
+    const fields: WritableFields = { ...FIELDS, update: [...FIELDS.update, 'secret'], writeOnly: ['secret'] };
+    const patch = (operations: unknown) => () => buildPatch(patchRequest(JSON_PATCH_TYPE, operations), task, fields);
+
+    expect(patch([{ op: 'replace', path: '/secret', value: 'new secret' }])()).toEqual({ secret: 'new secret' });
+    expectApiError(patch([{ op: 'test', path: '/secret', value: 'new secret' }]), 400, 'invalid_patch');
+    expectApiError(patch([{ op: 'copy', from: '/secret', path: '/title' }]), 400, 'invalid_patch');
+    expectApiError(patch([{ op: 'replace', path: '/unknown', value: 'x' }]), 400, 'invalid_patch');
+  });
+
+  it('should reject bad JSON Patch documents', () => {
+    const patch = (operations: unknown) => () => buildPatch(patchRequest(JSON_PATCH_TYPE, operations), task, FIELDS);
+
+    expectApiError(patch({ op: 'replace' }), 400, 'invalid_patch');
+    expectApiError(patch([{ op: 'replace', path: '/tags/0', value: 1 }]), 400, 'invalid_patch');
+    expectApiError(patch([{ op: 'replace', path: '/title' }]), 400, 'invalid_patch');
+    expectApiError(patch([{ op: 'merge', path: '/title', value: 'x' }]), 400, 'invalid_patch');
+    expectApiError(patch([{ op: 'replace', path: '/createdAt', value: '2020-01-01' }]), 400, 'field_not_writable');
+    expectApiError(patch([{ op: 'move', from: '/id', path: '/title' }]), 400, 'field_not_writable');
+    expectApiError(patch([{ op: 'test', path: '/status', value: 'pending' }]), 409, 'patch_test_failed');
+  });
+
+  it('should reject other content types', () => {
+    expectApiError(() => buildPatch(patchRequest('text/plain', 'title=x'), task, FIELDS), 415, 'unsupported_media_type');
+  });
+});
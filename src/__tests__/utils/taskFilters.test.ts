@@ -0,0 +1,120 @@
+/**
+ * Task Filter Tests
+ * 
+ * This file contains test cases for the GET /api/tasks filter parameters.
+ * It demonstrates:
+ * 1. Translating query parameters into where clauses
+ * 2. Tag filters through the join table
+ * 3. Validation of unknown parameters and bad values
+ */
+
+import { Sequelize } from 'sequelize';
+import { User } from '../../models/User';
+import { Task } from '../../models/Task';
+import { Project } from '../../models/Project';
+import { Tag } from '../../models/Tag';
+import { buildTaskWhere } from '../../utils/taskFilters';
+import { QueryError } from '../../utils/errors';
+
+describe('Task Filters', () => {
+  let sequelize: Sequelize;
+  let user: User;
+  let project: Project;
+  let otherProject: Project;
+
+  beforeAll(async () => {
+    // Create an in-memory database for testing
+    sequelize = new Sequelize('sqlite::memory:', {
+      logging: false
+    });
+
+    User.init(User.getAttributes(), { ...User.options, sequelize });
+    Project.init(Project.getAttributes(), { ...Project.options, sequelize });
+    Tag.init(Tag.getAttributes(), { ...Tag.options, sequelize });
+    Task.init(Task.getAttributes(), { ...Task.options, sequelize });
+
+    Task.belongsToMany(Tag, { through: 'TaskTags', as: 'tags', foreignKey: 'taskId', otherKey: 'tagId' });
+    Tag.belongsToMany(Task, { through: 'TaskTags', as: 'tasks', foreignKey: 'tagId', otherKey: 'taskId' });
+
+    await sequelize.sync({ force: true });
+
+    user = await User.create({
+      username: 'testuser',
+      email: 'test@example.com',
+      password: 'pAssword123!',
+      firstName: 'Test',
+      lastName: 'User'
+    });
+
+    const projectData = { status: 'active', startDate: new Date(), endDate: new Date(Date.now() + 86400000), userId: user.id };
+    project = await Project.create({ ...projectData, name: 'Backend' });
+    otherProject = await Project.create({ ...projectData, name: 'Frontend' });
+
+    const day = 86400000;
+    const tasks = await Task.bulkCreate([
+      { title: 'Write the API', description: 'REST endpoints', status: 'pending', priority: 'high', dueDate: new Date(Date.now() + day), userId: user.id, projectId: project.id },
+      { title: 'Fix 100% CPU', description: null, status: 'in_progress', priority: 'high', dueDate: new Date(Date.now() - day), userId: user.id, projectId: project.id },
+      { title: 'Old finished task', description: null, status: 'completed', priority: 'low', dueDate: new Date(Date.now() - day), userId: user.id, projectId: otherProject.id },
+      { title: 'Design the UI', description: 'Mockups for the api docs', status: 'pending', priority: 'medium', dueDate: new Date(Date.now() + 10 * day), userId: user.id, projectId: otherProject.id }
+    ], { validate: false });
+
+    const [backend, urgent] = await Tag.bulkCreate([
+      { name: 'backend', color: '#ff0000' },
+      { name: 'urgent', color: '#00ff00' }
+    ]);
+    // Insert the join rows directly, the addTags mixin belongs to the association in models/index.ts
+    await sequelize.models.TaskTags.bulkCreate([
+      { taskId: tasks[0].id, tagId: backend.id },
+      { taskId: tasks[0].id, tagId: urgent.id },
+      { taskId: tasks[1].id, tagId: backend.id },
+      { taskId: tasks[3].id, tagId: urgent.id }
+    ]);
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  const titles = async (query: Record<string, any>) => {
+    const tasks = await Task.findAll({ where: await buildTaskWhere(query), order: [['id', 'ASC']] });
+    return tasks.map(task => task.title);
+  };
+
+  it('should filter by several status and priority values', async () => {
+    expect(await titles({ status: 'pending,in_progress', priority: 'high' })).toEqual(['Write the API', 'Fix 100% CPU']);
+    expect(await titles({ status: ['completed', 'in_progress'] })).toEqual(['Fix 100% CPU', 'Old finished task']);
+  });
+
+  it('should filter by project and due dates', async () => {
+    expect(await titles({ projectId: String(otherProject.id) })).toEqual(['Old finished task', 'Design the UI']);
+    expect(await titles({ dueAfter: new Date().toISOString(), dueBefore: new Date(Date.now() + 2 * 86400000).toISOString() }))
+      .toEqual(['Write the API']);
+  });
+
+  it('should match Task.isOverdue', async () => {
+    expect(await titles({ overdue: 'true' })).toEqual(['Fix 100% CPU']);
+    expect(await titles({ overdue: 'false' })).toEqual(['Write the API', 'Old finished task', 'Design the UI']);
+  });
+
+  it('should filter by tags with any and all', async () => {
+    expect(await titles({ tag: 'backend' })).toEqual(['Write the API', 'Fix 100% CPU']);
+    expect(await titles({ tag: 'backend,urgent' })).toEqual(['Write the API', 'Fix 100% CPU', 'Design the UI']);
+    expect(await titles({ tag: 'backend,urgent', tagMatch: 'all' })).toEqual(['Write the API']);
+    expect(await titles({ tag: 'backend,missing', tagMatch: 'all' })).toEqual([]);
+  });
+
+  it('should search text literally and case-insensitively', async () => {
+    expect(await titles({ text: 'API' })).toEqual(['Write the API', 'Design the UI']);
+    expect(await titles({ text: '100%' })).toEqual(['Fix 100% CPU']);
+  });
+
+  it('should reject unknown parameters and bad values', async () => {
+    await expect(buildTaskWhere({ colour: 'red' })).rejects.toThrow('Unknown query parameter(s): colour');
+    await expect(buildTaskWhere({ status: 'done' })).rejects.toThrow("status 'done' is not valid");
+    await expect(buildTaskWhere({ projectId: 'abc' })).rejects.toThrow("projectId 'abc' is not a valid id");
+    await expect(buildTaskWhere({ dueBefore: 'tomorrow' })).rejects.toThrow(QueryError);
+    await expect(buildTaskWhere({ overdue: 'yes' })).rejects.toThrow('overdue must be true or false');
+    await expect(buildTaskWhere({ tagMatch: 'all' })).rejects.toThrow('tagMatch requires tag');
+    await expect(buildTaskWhere({ limit: '10', sort: '-dueDate' })).resolves.toBeDefined();
+  });
+});
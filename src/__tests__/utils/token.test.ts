@@ -0,0 +1,59 @@
+/**
+ * Token Utility Tests
+ * 
+ * This file contains test cases for the authentication token helpers.
+ * It demonstrates:
+ * 1. Token signing and verification
+ * 2. Token type checks
+ * 3. Expiry handling
+ * 4. The required JWT_SECRET
+ */
+
+import jwt from 'jsonwebtoken';
+import { assertTokenSecret, issueTokens, signToken, verifyToken } from '../../utils/token';
+
+describe('Token Utilities', () => {
+  it('should verify a signed access token', () => {
+    const token = signToken(42);
+    expect(verifyToken(token)).toEqual({ sub: 42, type: 'access' });
+  });
+
+  it('should not accept a refresh token as an access token', () => {
+    const { accessToken, refreshToken } = issueTokens(7);
+    expect(verifyToken(refreshToken, 'access')).toBeNull();
+    expect(verifyToken(accessToken, 'refresh')).toBeNull();
+    expect(verifyToken(refreshToken, 'refresh')).toEqual({ sub: 7, type: 'refresh' });
+  });
+
+  it('should reject tampered and expired tokens', () => {
+    const token = signToken(1);
+    expect(verifyToken(token + 'x')).toBeNull();
+    expect(verifyToken('not a token')).toBeNull();
+
+    const forged = jwt.sign({ type: 'access' }, 'some-other-secret', { subject: '1' });
+    expect(verifyToken(forged)).toBeNull();
+
+    const expired = jwt.sign({ type: 'access', exp: Math.floor(Date.now() / 1000) - 60 }, 'test-secret', { subject: '1' });
+    expect(verifyToken(expired)).toBeNull();
+  });
+
+  it('should require JWT_SECRET outside of tests', () => {
+    const { NODE_ENV, JWT_SECRET } = process.env;
+    try {
+      process.env.NODE_ENV = 'development';
+      delete process.env.JWT_SECRET;
+      expect(() => assertTokenSecret()).toThrow('JWT_SECRET is not configured');
+      expect(() => signToken(1)).toThrow('JWT_SECRET is not configured');
+
+      process.env.JWT_SECRET = 'configured-secret';
+      expect(() => assertTokenSecret()).not.toThrow();
+      expect(jwt.verify(signToken(1), 'configured-secret')).toMatchObject({ sub: '1' });
+    } finally {
+      process.env.NODE_ENV = NODE_ENV;
+      if (JWT_SECRET == null)
+        delete process.env.JWT_SECRET;
+      else
+        process.env.JWT_SECRET = JWT_SECRET;
+    }
+  });
+});
@@ -4,7 +4,7 @@
  * This file sets up the Express application and configures middleware.
  * It demonstrates:
  * 1. Express application configuration
- * 2. Middleware setup (CORS, JSON parsing)
+ * 2. Middleware setup (CORS, JSON parsing, error handling)
  * 3. Route mounting
  * 4. Database initialization
  * 5. Server startup
@@ -15,10 +15,21 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import sequelize from './config/database';
 import routes from './routes';
+import { getCurrentVersion } from './routes/apiRouters';
+import { bootstrapAdmin } from './seeders/admin';
+import { ensureSearchIndex } from './services/searchIndex';
+import { addMissingColumns } from './services/schemaUpgrade';
+import { startWebhookWorker } from './services/webhookDelivery';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { JSON_BODY_TYPES } from './utils/requestBody';
+import { assertTokenSecret } from './utils/token';
 
 // Load environment variables
 dotenv.config();
 
+// Refuse to start without a secret to sign tokens with
+assertTokenSecret();
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -28,29 +39,55 @@ console.log(`Node Environment: ${process.env.NODE_ENV}`);
 console.log(`Server Port: ${process.env.PORT}`);
 console.log(`Database Type: ${process.env.DB_TYPE}`);
 console.log(`Database Path: ${process.env.DB_PATH}`);
-console.log(`API Version: ${process.env.API_VERSION}`);
+console.log(`API Version: ${getCurrentVersion()}`);
 console.log(`Rate Limit: ${process.env.RATE_LIMIT} requests\n`);
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ type: JSON_BODY_TYPES, limit: '1mb' })); // Also parses PATCH documents, and allows large bulk requests
+app.use(express.text({ type: 'text/csv', limit: '1mb' })); // CSV uploads to POST /tasks/import, parsed before the Idempotency-Key check
 
 // Mount all routes
 app.use(routes);
 
+// Unknown routes and errors raised by the routes, always answered with JSON
+app.use(notFoundHandler);
+app.use(errorHandler);
+
 /**
  * Start the server
  * 
  * This section:
  * 1. Syncs the database (creates tables if they don't exist)
- * 2. Starts the Express server
- * 3. Logs the server URL
+ * 2. Adds the columns that existing tables are missing
+ * 3. Creates the full-text search index, if it doesn't exist
+ * 4. Creates the first admin from ADMIN_* variables, if configured
+ * 5. Starts sending queued webhook deliveries
+ * 6. Starts the Express server
+ * 7. Logs the server URL
+ * 
+ * The process exits with an error when any of these steps fails.
  */
 // Use { force: true } to drop and recreate tables - ONLY use this in development!
-sequelize.sync({ force: false }).then(() => {
+sequelize.sync({ force: false }).then(async () => {
+  const columns = await addMissingColumns(sequelize);
+  if (columns.length > 0)
+    console.log(`Added columns: ${columns.join(', ')}`);
+
+  await ensureSearchIndex(sequelize);
+
+  const admin = await bootstrapAdmin();
+  if (admin)
+    console.log(`Admin account ready: ${admin.username}`);
+
+  startWebhookWorker();
+
   app.listen(PORT, () => {
     console.log(`Server is running on port ${PORT}`);
   });
+}).catch(error => {
+  console.error('Failed to start the server:', error);
+  process.exit(1);
 });
 
 export default app; 
\ No newline at end of file
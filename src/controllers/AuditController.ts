@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { Op, WhereOptions } from 'sequelize';
+import { AuditLog } from '../models';
+import { AUDIT_ACTIONS } from '../models/AuditLog';
+import { AUDITED_RESOURCES } from '../services/auditLog';
+import { paginate, PAGINATION_PARAMS, SortOptions } from '../utils/pagination';
+import { assertKnownParams, parseDate, parseEnum, parseIds } from '../utils/queryParams';
+
+// Filters of the audit log, besides the pagination parameters
+export const AUDIT_FILTER_PARAMS = ['resource', 'recordId', 'actorId', 'action', 'after', 'before'];
+
+// Attributes clients may sort the log by
+export const AUDIT_SORT: SortOptions = {
+  fields: ['id', 'createdAt'],
+  defaultSort: '-createdAt'
+};
+
+export class AuditController {
+  // List audit entries, newest first, filtered by the query string
+  async getAuditLog(req: Request, res: Response, next: NextFunction) {
+    try {
+      // The audit log is never soft deleted, so withDeleted does not apply
+      assertKnownParams(req.query, [...AUDIT_FILTER_PARAMS, ...PAGINATION_PARAMS.filter(name => name != 'withDeleted')]);
+      res.json(await paginate(AuditLog, req, { where: this.buildWhere(req.query), sort: AUDIT_SORT }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private buildWhere(query: Request['query']): WhereOptions {
+    const conditions: WhereOptions[] = [];
+
+    if (query.resource !== undefined) {
+      const resources = parseEnum(query.resource, 'resource', Object.keys(AUDITED_RESOURCES));
+      conditions.push({ modelName: { [Op.in]: resources.map(resource => AUDITED_RESOURCES[resource]) } });
+    }
+
+    if (query.recordId !== undefined)
+      conditions.push({ recordId: { [Op.in]: parseIds(query.recordId, 'recordId') } });
+
+    if (query.actorId !== undefined)
+      conditions.push({ actorId: { [Op.in]: parseIds(query.actorId, 'actorId') } });
+
+    if (query.action !== undefined)
+      conditions.push({ action: { [Op.in]: parseEnum(query.action, 'action', AUDIT_ACTIONS) } });
+
+    if (query.after !== undefined)
+      conditions.push({ createdAt: { [Op.gte]: parseDate(query.after, 'after') } });
+
+    if (query.before !== undefined)
+      conditions.push({ createdAt: { [Op.lt]: parseDate(query.before, 'before') } });
+
+    return { [Op.and]: conditions };
+  }
+}
@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { Op } from 'sequelize';
+import { User } from '../models';
+import { issueTokens, verifyToken } from '../utils/token';
+import { AuthenticationError, BadRequestError } from '../utils/errors';
+
+export class AuthController {
+  // Register a new user and sign them in
+  async register(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { username, email, password, firstName, lastName } = req.body;
+      const user = await User.create({ username, email, password, firstName, lastName });
+      res.status(201).json({ user, ...issueTokens(user.id) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Exchange a username (or email) and password for a token pair
+  async login(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { password } = req.body;
+      const login = req.body.username ?? req.body.email;
+      if (!login || !password) {
+        throw new BadRequestError('username (or email) and password are required');
+      }
+
+      const user = await User.scope('withPassword').findOne({
+        where: { [Op.or]: [{ username: login }, { email: String(login).toLowerCase() }] }
+      });
+      if (!user || await user.verifyPassword(password) == false) {
+        throw new AuthenticationError('Invalid credentials', 'invalid_credentials');
+      }
+
+      res.json({ user, ...issueTokens(user.id) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Exchange a refresh token for a new token pair
+  async refresh(req: Request, res: Response, next: NextFunction) {
+    try {
+      const payload = verifyToken(req.body.refreshToken, 'refresh');
+      if (payload == null) {
+        throw new AuthenticationError('Invalid or expired refresh token', 'invalid_token');
+      }
+
+      const user = await User.findByPk(payload.sub);
+      if (!user) {
+        throw new AuthenticationError('Invalid or expired refresh token', 'invalid_token');
+      }
+
+      res.json(issueTokens(user.id));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the authenticated user
+  async me(req: Request, res: Response) {
+    res.json(req.user);
+  }
+}
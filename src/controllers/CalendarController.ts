@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from 'express';
+import { Op, WhereOptions } from 'sequelize';
+import { Task, Tag, User, Project, FeedToken } from '../models';
+import { TaskPriority, TaskStatus } from '../models/Task';
+import { generateFeedToken, hashFeedToken } from '../models/FeedToken';
+import { taskPolicy, projectPolicy, userPolicy } from '../policies';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { assertKnownParams, getSingleValue, parseEnum } from '../utils/queryParams';
+import { CalendarComponent, formatCalendar } from '../utils/icalendar';
+import { withholdFromReplay } from '../middleware/idempotency';
+
+// Components a task can be rendered as, VEVENT shows in most calendar apps and VTODO in task lists
+export const CALENDAR_COMPONENTS = ['VEVENT', 'VTODO'];
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest)
+export const CALENDAR_PRIORITIES: Record<TaskPriority, number> = { high: 1, medium: 5, low: 9 };
+
+// Status of a VTODO per task status
+export const TODO_STATUSES: Record<TaskStatus, string> = {
+  pending: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED'
+};
+
+// A VEVENT has no to-do states, pending tasks are tentative
+export const EVENT_STATUSES: Record<TaskStatus, string> = {
+  pending: 'TENTATIVE',
+  in_progress: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED'
+};
+
+// The right-hand side of every UID, so the UIDs of a task never change
+const UID_DOMAIN = 'task-management-api';
+
+// How often calendar apps are asked to reload a feed
+const REFRESH_INTERVAL = 'PT1H';
+
+const FEED_PARAMS = ['token', 'component'];
+
+export class CalendarController {
+  // Get the due dates of a user's tasks as an iCalendar feed
+  async getUserCalendar(req: Request, res: Response, next: NextFunction) {
+    try {
+      const component = this.parseFeedQuery(req);
+      const user = await this.findUser(req, 'read');
+      const tasks = await this.findTasks(req, { userId: user.id });
+      this.sendCalendar(res, `Tasks of ${user.username}`, tasks.map(task => this.toComponent(task, component)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the due dates of a project's tasks as an iCalendar feed
+  async getProjectCalendar(req: Request, res: Response, next: NextFunction) {
+    try {
+      const component = this.parseFeedQuery(req);
+      const project = await (Project as any).findByPk(req.params.id);
+      if (!project) {
+        throw new NotFoundError('Project not found');
+      }
+      if (!(await projectPolicy.can(req.user!, 'read', project))) {
+        throw new ForbiddenError('You do not have access to this project');
+      }
+      const tasks = await this.findTasks(req, { projectId: project.id });
+      this.sendCalendar(res, project.name, tasks.map(task => this.toComponent(task, component)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create the feed token of a user, replacing the old one. The response is the only one that shows it
+  async createFeedToken(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = await this.findUser(req, 'update');
+      const token = generateFeedToken();
+      const feedToken = await FeedToken.sequelize!.transaction(async transaction => {
+        await FeedToken.destroy({ where: { userId: user.id }, transaction });
+        return FeedToken.create({ userId: user.id, tokenHash: hashFeedToken(token) }, { transaction });
+      });
+
+      withholdFromReplay(res);
+      res.status(201).json({
+        token,
+        createdAt: feedToken.createdAt,
+        calendarUrl: `${req.baseUrl}/${user.id}/calendar.ics?token=${token}`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Revoke the feed token of a user, their calendar apps stop receiving updates
+  async deleteFeedToken(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = await this.findUser(req, 'update');
+      const deleted = await FeedToken.destroy({ where: { userId: user.id } });
+      if (deleted == 0) {
+        throw new NotFoundError('The user has no feed token');
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Check the query of a feed and return the component to render the tasks as
+  private parseFeedQuery(req: Request): string {
+    assertKnownParams(req.query, FEED_PARAMS);
+    if (req.query.component === undefined) {
+      return 'VEVENT';
+    }
+    return parseEnum(getSingleValue(req.query.component, 'component'), 'component', CALENDAR_COMPONENTS)[0];
+  }
+
+  private async findUser(req: Request, action: 'read' | 'update'): Promise<User> {
+    const user = await (User as any).findByPk(req.params.id);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (!(await userPolicy.can(req.user!, action, user))) {
+      throw new ForbiddenError('You do not have access to this user');
+    }
+    return user;
+  }
+
+  // The tasks of a feed the caller may see, cancelled tasks are left out
+  private async findTasks(req: Request, where: WhereOptions): Promise<Task[]> {
+    return Task.findAll({
+      where: { [Op.and]: [await taskPolicy.scope(req.user!), where, { status: { [Op.ne]: 'cancelled' } }] },
+      include: [{ association: 'tags', attributes: ['id', 'name'], through: { attributes: [] } }],
+      order: [['dueDate', 'ASC'], ['id', 'ASC']]
+    });
+  }
+
+  private sendCalendar(res: Response, name: string, components: CalendarComponent[]) {
+    const calendar = formatCalendar([
+      ['METHOD', 'PUBLISH'],
+      ['X-WR-CALNAME', name],
+      ['REFRESH-INTERVAL;VALUE=DURATION', REFRESH_INTERVAL],
+      ['X-PUBLISHED-TTL', REFRESH_INTERVAL]
+    ], components);
+
+    res.status(200).set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="tasks.ics"'
+    }).send(calendar);
+  }
+
+  // Render a task as a VEVENT at its due date, or as a VTODO due then
+  private toComponent(task: Task, type: string): CalendarComponent {
+    const tags = (task as any).tags as Tag[];
+    const isTodo = type == 'VTODO';
+    return {
+      type,
+      properties: [
+        ['UID', `task-${task.id}@${UID_DOMAIN}`],
+        ['DTSTAMP', task.updatedAt],
+        ['CREATED', task.createdAt],
+        ['LAST-MODIFIED', task.updatedAt],
+        // Tells calendar apps which copy of the task is the newest
+        ['SEQUENCE', task.version],
+        ['SUMMARY', task.title],
+        ['DESCRIPTION', task.description],
+        isTodo ? ['DUE', task.dueDate] : ['DTSTART', task.dueDate],
+        // Due dates should not block time in the calendar
+        ['TRANSP', isTodo ? null : 'TRANSPARENT'],
+        ['PRIORITY', CALENDAR_PRIORITIES[task.priority]],
+        ['STATUS', isTodo ? TODO_STATUSES[task.status] : EVENT_STATUSES[task.status]],
+        ['CATEGORIES', tags.map(tag => tag.name).sort()]
+      ]
+    };
+  }
+}
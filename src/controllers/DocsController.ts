@@ -0,0 +1,66 @@
+import { Request, Response, NextFunction } from 'express';
+import { Task, Project, User, Tag, ProjectMember, AuditLog, Webhook, WebhookDelivery, WebhookAttempt } from '../models';
+import { getCurrentVersion, getVersionRouters } from '../routes/apiRouters';
+import { buildOpenApiDocument, DocumentedModel, SchemaObject } from '../services/openapi';
+import { TASK_FIELDS } from './TaskController';
+import { PROJECT_FIELDS } from './ProjectController';
+import { USER_FIELDS } from './UserController';
+import { TAG_FIELDS } from './TagController';
+import { WEBHOOK_FIELDS } from './WebhookController';
+
+// Models described in the document, with the attributes clients may write
+export const DOCUMENTED_MODELS: DocumentedModel[] = [
+  {
+    model: Task,
+    fields: TASK_FIELDS,
+    // POST /tasks assigns the task to the caller when userId is left out
+    filledIn: ['userId'],
+    nestedCreate: { ProjectTaskCreate: ['projectId'], UserTaskCreate: ['userId'] }
+  },
+  { model: Project, fields: PROJECT_FIELDS },
+  { model: User, fields: USER_FIELDS },
+  { model: Tag, fields: TAG_FIELDS },
+  { model: ProjectMember },
+  { model: AuditLog },
+  { model: Webhook, fields: WEBHOOK_FIELDS },
+  { model: WebhookDelivery },
+  { model: WebhookAttempt }
+];
+
+// Swagger UI from a CDN, so the docs page needs no extra dependency
+const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Task Management API</title>
+  <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css">
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+  <script>
+    SwaggerUIBundle({ url: 'openapi.json', dom_id: '#swagger-ui', persistAuthorization: true });
+  </script>
+</body>
+</html>
+`;
+
+export class DocsController {
+  private document: SchemaObject | null = null;
+
+  // Get the OpenAPI document of the current API version, built on first use
+  async getOpenApiDocument(req: Request, res: Response, next: NextFunction) {
+    try {
+      const version = getCurrentVersion();
+      this.document ??= buildOpenApiDocument(getVersionRouters(version), DOCUMENTED_MODELS, `/api/${version}`);
+      res.json(this.document);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the interactive docs page
+  async getDocsPage(req: Request, res: Response) {
+    res.type('html').send(DOCS_PAGE);
+  }
+}
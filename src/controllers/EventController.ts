@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import { Task, Project, User } from '../models';
+import { taskPolicy, projectPolicy } from '../policies';
+import { ChangeEvent, ChangeType, CHANGE_TYPES, getChangesSince, getLastEventId, subscribeToChanges } from '../services/changeStream';
+import { assertKnownParams, parseEnum, parseIds } from '../utils/queryParams';
+import { BadRequestError } from '../utils/errors';
+
+const EVENT_PARAMS = ['type', 'projectId'];
+
+// How often a comment is sent to keep idle connections (and proxies) open
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// How long clients wait before reconnecting, sent as the stream's retry field
+const RECONNECT_DELAY_MS = 3000;
+
+export class EventController {
+  // Stream the changes to the tasks, projects and tags visible to the caller
+  async streamEvents(req: Request, res: Response, next: NextFunction) {
+    try {
+      assertKnownParams(req.query, EVENT_PARAMS);
+      const types = req.query.type === undefined
+        ? CHANGE_TYPES
+        : parseEnum(req.query.type, 'type', CHANGE_TYPES) as ChangeType[];
+      const projectIds = req.query.projectId === undefined ? undefined : parseIds(req.query.projectId, 'projectId');
+      const lastEventId = this.parseLastEventId(req);
+      const user = req.user!;
+
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+      res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      // Visibility checks are async, so events are written through a queue to keep their order
+      let queue = Promise.resolve();
+      const send = (event: ChangeEvent) => {
+        queue = queue
+          .then(async () => {
+            if (types.includes(event.type) && this.inProjects(event, projectIds) && await this.isVisible(user, event))
+              res.write(this.formatEvent(event));
+          })
+          .catch(error => {
+            console.error('Event stream failed:', error);
+            res.end();
+          });
+      };
+
+      // Catching up and subscribing happen in the same tick, so no event is missed or sent twice
+      if (lastEventId != null) {
+        const missed = getChangesSince(lastEventId);
+        if (missed == null)
+          res.write(`id: ${getLastEventId()}\nevent: resync\ndata: ${JSON.stringify({ lastEventId })}\n\n`);
+        else
+          missed.forEach(send);
+      }
+      const unsubscribe = subscribeToChanges(send);
+
+      const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private parseLastEventId(req: Request): number | null {
+    const header = req.headers['last-event-id'];
+    if (header == null || header == '')
+      return null;
+
+    const eventId = Number(header);
+    if (!Number.isInteger(eventId) || eventId < 0) {
+      throw new BadRequestError('Last-Event-ID must be the id of an event', 'invalid_last_event_id');
+    }
+    return eventId;
+  }
+
+  private inProjects(event: ChangeEvent, projectIds: number[] | undefined): boolean {
+    return projectIds == null || (event.projectId != null && projectIds.includes(event.projectId));
+  }
+
+  // Apply the read rules of the record's policy, tags are visible to everyone
+  private async isVisible(user: User, event: ChangeEvent): Promise<boolean> {
+    switch (event.type) {
+      case 'task':
+        return taskPolicy.can(user, 'read', Task.build(event.data));
+      case 'project':
+        return projectPolicy.can(user, 'read', Project.build(event.data));
+      case 'tag':
+        return true;
+    }
+  }
+
+  private formatEvent(event: ChangeEvent): string {
+    const { id, ...payload } = event;
+    return `id: ${id}\nevent: ${event.type}.${event.action}\ndata: ${JSON.stringify(payload)}\n\n`;
+  }
+}
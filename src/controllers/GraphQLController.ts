@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { DocumentNode, GraphQLError, GraphQLFormattedError, execute, parse, specifiedRules, validate } from 'graphql';
+import { schema } from '../graphql/schema';
+import { createLoaders } from '../graphql/loaders';
+import { depthLimit } from '../graphql/depthLimit';
+import { toErrorResponse } from '../middleware/errorHandler';
+import { BadRequestError } from '../utils/errors';
+import { pickWritable } from '../utils/requestBody';
+
+const VALIDATION_RULES = [...specifiedRules, depthLimit()];
+
+export class GraphQLController {
+  // Run a GraphQL query or mutation
+  async executeQuery(req: Request, res: Response, next: NextFunction) {
+    try {
+      const body = pickWritable(req.body, ['query', 'variables', 'operationName']);
+      if (typeof body.query != 'string') {
+        throw new BadRequestError('query must be a GraphQL document', 'invalid_body');
+      }
+      if (body.variables != null && (typeof body.variables != 'object' || Array.isArray(body.variables))) {
+        throw new BadRequestError('variables must be an object', 'invalid_body');
+      }
+      if (body.operationName != null && typeof body.operationName != 'string') {
+        throw new BadRequestError('operationName must be a string', 'invalid_body');
+      }
+
+      // Documents that cannot run are answered with 400, like invalid query parameters
+      let document: DocumentNode;
+      try {
+        document = parse(body.query);
+      } catch (error) {
+        return res.status(400).json({ errors: [this.formatError(req, error as GraphQLError)] });
+      }
+      const validationErrors = validate(schema, document, VALIDATION_RULES);
+      if (validationErrors.length > 0) {
+        return res.status(400).json({ errors: validationErrors.map(error => this.formatError(req, error)) });
+      }
+
+      const result = await execute({
+        schema,
+        document,
+        variableValues: body.variables,
+        operationName: body.operationName,
+        contextValue: { user: req.user!, loaders: createLoaders(req.user!) }
+      });
+
+      // Without data the operation did not start, e.g. because a variable was invalid
+      const status = 'data' in result ? 200 : 400;
+      res.status(status).json({
+        ...(result.errors ? { errors: result.errors.map(error => this.formatError(req, error)) } : {}),
+        ...('data' in result ? { data: result.data } : {})
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Describe an error with the code and status the REST API would answer with
+  private formatError(req: Request, error: GraphQLError): GraphQLFormattedError {
+    const formatted = error.toJSON();
+    const cause = error.originalError;
+    if (cause == null || cause instanceof GraphQLError) {
+      return { ...formatted, extensions: { code: 'invalid_graphql', status: 400 } };
+    }
+
+    const response = toErrorResponse(cause);
+    if (response) {
+      const { error: message, ...extensions } = response.body;
+      return { ...formatted, message, extensions: { ...extensions, status: response.status } };
+    }
+
+    const correlationId = randomUUID();
+    console.error(`[${correlationId}] ${req.method} ${req.originalUrl} failed:`, cause);
+    return { ...formatted, message: 'Internal server error', extensions: { code: 'internal_error', status: 500, correlationId } };
+  }
+}
@@ -1,69 +1,204 @@
-import { Request, Response } from 'express';
-import { Project } from '../models';
+import { Request, Response, NextFunction } from 'express';
+import { Op } from 'sequelize';
+import { Project, ProjectMember, User } from '../models';
+import { PROJECT_STATUSES } from '../models/Project';
+import { projectPolicy, taskPolicy, userPolicy, PolicyAction } from '../policies';
+import { paginate, SortOptions } from '../utils/pagination';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { buildPatch, buildReplacement, pickWritable, WritableFields } from '../utils/requestBody';
+import { assertIfMatch, checkNotModified, setETag } from '../utils/conditionalRequests';
+import { applyFieldsets, IncludeOptions, parseResponseShape, ResponseShape } from '../utils/includes';
+import { restoreRecord, trashRecord } from '../services/trash';
+
+// Attributes clients may sort the list by
+export const PROJECT_SORT: SortOptions = {
+  fields: ['id', 'name', 'status', 'startDate', 'endDate', 'createdAt', 'updatedAt'],
+  ranks: { status: PROJECT_STATUSES }
+};
+
+// Associations clients may include
+const PROJECT_INCLUDES: IncludeOptions = {
+  allowed: ['user', 'tasks', 'tasks.user', 'tasks.tags', 'members'],
+  defaults: ['tasks']
+};
+
+// Attributes clients may write, the owner is always the creator
+export const PROJECT_FIELDS: WritableFields = {
+  create: ['name', 'description', 'status', 'startDate', 'endDate'],
+  update: ['name', 'description', 'status', 'startDate', 'endDate']
+};
 
 export class ProjectController {
-  // List all projects
-  async getAllProjects(req: Request, res: Response) {
+  // List all projects visible to the caller
+  async getAllProjects(req: Request, res: Response, next: NextFunction) {
+    try {
+      const shape = await this.parseShape(req);
+      const page = await paginate(Project, req, {
+        where: await projectPolicy.scope(req.user!),
+        include: shape.include,
+        sort: PROJECT_SORT
+      });
+      res.json({ ...page, data: applyFieldsets(page.data, shape.fields) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List the projects a user owns or is a member of, as far as the caller may see them
+  async getUserProjects(req: Request, res: Response, next: NextFunction) {
     try {
-      const projects = await (Project as any).findAll({
-        include: ['tasks']
+      const user = await this.findUser(req, 'read');
+      const memberships = await ProjectMember.findAll({ attributes: ['projectId'], where: { userId: user.id } });
+      const shape = await this.parseShape(req);
+      const page = await paginate(Project, req, {
+        where: {
+          [Op.and]: [
+            await projectPolicy.scope(req.user!),
+            { [Op.or]: [{ userId: user.id }, { id: { [Op.in]: memberships.map(membership => membership.projectId) } }] }
+          ]
+        },
+        include: shape.include,
+        sort: PROJECT_SORT
       });
-      res.json(projects);
+      res.json({ ...page, data: applyFieldsets(page.data, shape.fields) });
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
-  // Create a new project
-  async createProject(req: Request, res: Response) {
+  // Create a new project owned by the caller
+  async createProject(req: Request, res: Response, next: NextFunction) {
     try {
-      const project = await (Project as any).create(req.body);
+      const project = await (Project as any).create({ ...pickWritable(req.body, PROJECT_FIELDS.create), userId: req.user!.id });
+      setETag(res, project);
       res.status(201).json(project);
     } catch (error) {
-      res.status(400).json({ error: (error as Error).message });
+      next(error);
+    }
+  }
+
+  // Create a new project owned by a user
+  async createUserProject(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = await this.findUser(req, 'update');
+      const project = await (Project as any).create({ ...pickWritable(req.body, PROJECT_FIELDS.create), userId: user.id });
+      setETag(res, project);
+      res.status(201).json(project);
+    } catch (error) {
+      next(error);
     }
   }
 
   // Get a specific project
-  async getProjectById(req: Request, res: Response) {
+  async getProjectById(req: Request, res: Response, next: NextFunction) {
     try {
+      const shape = await this.parseShape(req);
       const project = await (Project as any).findByPk(req.params.id, {
-        include: ['tasks']
+        include: shape.include
       });
       if (!project) {
-        return res.status(404).json({ error: 'Project not found' });
+        throw new NotFoundError('Project not found');
       }
+      if (!(await projectPolicy.can(req.user!, 'read', project))) {
+        throw new ForbiddenError('You do not have access to this project');
+      }
+      const body = applyFieldsets(project, shape.fields);
+      if (checkNotModified(req, res, project, body)) {
+        return res.status(304).end();
+      }
+      res.json(body);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Replace a project, every writable attribute left out is reset
+  async updateProject(req: Request, res: Response, next: NextFunction) {
+    try {
+      const project = await this.findUpdatableProject(req);
+      await project.update(buildReplacement(Project, req.body, PROJECT_FIELDS));
+      setETag(res, project);
       res.json(project);
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
-  // Update a project
-  async updateProject(req: Request, res: Response) {
+  // Change some attributes of a project with a merge patch or JSON Patch document
+  async patchProject(req: Request, res: Response, next: NextFunction) {
     try {
-      const project = await (Project as any).findByPk(req.params.id);
-      if (!project) {
-        return res.status(404).json({ error: 'Project not found' });
-      }
-      await project.update(req.body);
+      const project = await this.findUpdatableProject(req);
+      await project.update(buildPatch(req, project, PROJECT_FIELDS));
+      setETag(res, project);
       res.json(project);
     } catch (error) {
-      res.status(400).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
-  // Delete a project
-  async deleteProject(req: Request, res: Response) {
+  // Move a project and its tasks to the trash
+  async deleteProject(req: Request, res: Response, next: NextFunction) {
     try {
       const project = await (Project as any).findByPk(req.params.id);
       if (!project) {
-        return res.status(404).json({ error: 'Project not found' });
+        throw new NotFoundError('Project not found');
+      }
+      if (!(await projectPolicy.can(req.user!, 'delete', project))) {
+        throw new ForbiddenError('You do not have access to this project');
       }
-      await project.destroy();
+      assertIfMatch(req, project);
+      await trashRecord(project);
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
+    }
+  }
+
+  // Restore a project from the trash, with the tasks deleted together with it
+  async restoreProject(req: Request, res: Response, next: NextFunction) {
+    try {
+      const project = await (Project as any).findByPk(req.params.id, { paranoid: false });
+      if (!project) {
+        throw new NotFoundError('Project not found');
+      }
+      if (!(await projectPolicy.can(req.user!, 'delete', project))) {
+        throw new ForbiddenError('You do not have access to this project');
+      }
+      await restoreRecord(project);
+      setETag(res, project);
+      res.json(project);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Load the parent user of a nested route
+  private async findUser(req: Request, action: PolicyAction): Promise<User> {
+    const user = await (User as any).findByPk(req.params.id);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (!(await userPolicy.can(req.user!, action, user))) {
+      throw new ForbiddenError('You do not have access to this user');
     }
+    return user;
+  }
+
+  // Load the project for PUT and PATCH, checking access and If-Match
+  private async findUpdatableProject(req: Request): Promise<Project> {
+    const project = await (Project as any).findByPk(req.params.id);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+    if (!(await projectPolicy.can(req.user!, 'update', project))) {
+      throw new ForbiddenError('You do not have access to this project');
+    }
+    assertIfMatch(req, project);
+    return project;
+  }
+
+  // Read include and fields, included tasks are limited to the ones the caller may see
+  private async parseShape(req: Request): Promise<ResponseShape> {
+    return parseResponseShape(Project, req.query, PROJECT_INCLUDES, { tasks: await taskPolicy.scope(req.user!) });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,100 @@
+import { Request, Response, NextFunction } from 'express';
+import { Project, ProjectMember, User } from '../models';
+import { projectPolicy } from '../policies';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/errors';
+
+export class ProjectMemberController {
+  // List the members of a project
+  async getMembers(req: Request, res: Response, next: NextFunction) {
+    try {
+      const project = await (Project as any).findByPk(req.params.id);
+      if (!project) {
+        throw new NotFoundError('Project not found');
+      }
+      if (!(await projectPolicy.can(req.user!, 'read', project))) {
+        throw new ForbiddenError('You do not have access to this project');
+      }
+      const members = await (ProjectMember as any).findAll({
+        where: { projectId: project.id },
+        include: ['user']
+      });
+      res.json(members);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Add a member to a project
+  async addMember(req: Request, res: Response, next: NextFunction) {
+    try {
+      const project = await (Project as any).findByPk(req.params.id);
+      if (!project) {
+        throw new NotFoundError('Project not found');
+      }
+      if (!(await projectPolicy.can(req.user!, 'update', project))) {
+        throw new ForbiddenError('You do not have access to this project');
+      }
+      const user = await (User as any).findByPk(req.body.userId);
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+      if (user.id == project.userId) {
+        throw new BadRequestError('User already owns this project', 'already_owner');
+      }
+      const member = await (ProjectMember as any).create({
+        projectId: project.id,
+        userId: user.id,
+        role: req.body.role
+      });
+      res.status(201).json(member);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Change a member's role
+  async updateMember(req: Request, res: Response, next: NextFunction) {
+    try {
+      const project = await (Project as any).findByPk(req.params.id);
+      if (!project) {
+        throw new NotFoundError('Project not found');
+      }
+      if (!(await projectPolicy.can(req.user!, 'update', project))) {
+        throw new ForbiddenError('You do not have access to this project');
+      }
+      const member = await (ProjectMember as any).findOne({
+        where: { projectId: project.id, userId: req.params.userId }
+      });
+      if (!member) {
+        throw new NotFoundError('Member not found');
+      }
+      await member.update({ role: req.body.role });
+      res.json(member);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Remove a member from a project
+  async removeMember(req: Request, res: Response, next: NextFunction) {
+    try {
+      const project = await (Project as any).findByPk(req.params.id);
+      if (!project) {
+        throw new NotFoundError('Project not found');
+      }
+      if (!(await projectPolicy.can(req.user!, 'update', project))) {
+        throw new ForbiddenError('You do not have access to this project');
+      }
+      const member = await (ProjectMember as any).findOne({
+        where: { projectId: project.id, userId: req.params.userId }
+      });
+      if (!member) {
+        throw new NotFoundError('Member not found');
+      }
+      await member.destroy();
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
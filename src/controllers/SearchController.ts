@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from 'express';
+import { Op } from 'sequelize';
+import { Task, Project, sequelize } from '../models';
+import { TASK_STATUSES } from '../models/Task';
+import { PROJECT_STATUSES } from '../models/Project';
+import { taskPolicy, projectPolicy } from '../policies';
+import { querySearchIndex, SearchHit, SearchResourceType, SEARCH_RESOURCE_TYPES } from '../services/searchIndex';
+import { assertKnownParams, getOptionalValue, parseEnum, parseIds, parseInteger } from '../utils/queryParams';
+import { DEFAULT_LIMIT, MAX_LIMIT } from '../utils/pagination';
+import { QueryError } from '../utils/errors';
+
+const SEARCH_PARAMS = ['q', 'type', 'projectId', 'status', 'limit', 'offset'];
+
+export class SearchController {
+  // Search tasks, projects and tags visible to the caller
+  async search(req: Request, res: Response, next: NextFunction) {
+    try {
+      assertKnownParams(req.query, SEARCH_PARAMS);
+
+      const q = getOptionalValue(req.query.q, 'q');
+      const terms = (q ?? '').split(/\s+/).filter(term => term != '');
+      if (terms.length == 0) {
+        throw new QueryError('q must contain at least one word');
+      }
+
+      const types = req.query.type === undefined
+        ? SEARCH_RESOURCE_TYPES
+        : parseEnum(req.query.type, 'type', SEARCH_RESOURCE_TYPES) as SearchResourceType[];
+      const projectIds = req.query.projectId === undefined ? undefined : parseIds(req.query.projectId, 'projectId');
+      const statuses = req.query.status === undefined
+        ? undefined
+        : parseEnum(req.query.status, 'status', [...new Set([...TASK_STATUSES, ...PROJECT_STATUSES])]);
+      const limit = parseInteger(req.query.limit, 'limit', DEFAULT_LIMIT, 1, MAX_LIMIT);
+      const offset = parseInteger(req.query.offset, 'offset', 0, 0);
+
+      const hits = await querySearchIndex(sequelize, { terms, types, projectIds, statuses });
+      const visibleHits = await this.filterVisible(req, hits);
+
+      res.json({
+        data: visibleHits.slice(offset, offset + limit).map(hit => ({
+          type: hit.resourceType,
+          id: hit.resourceId,
+          projectId: hit.projectId,
+          status: hit.status,
+          score: hit.score,
+          highlights: { title: hit.title, snippet: hit.snippet }
+        })),
+        meta: { total: visibleHits.length, limit, offset, q }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Drop hits the caller may not see, and hits for records that no longer exist
+  private async filterVisible(req: Request, hits: SearchHit[]): Promise<SearchHit[]> {
+    const idsOf = (type: SearchResourceType) => hits.filter(hit => hit.resourceType == type).map(hit => hit.resourceId);
+
+    const [tasks, projects] = await Promise.all([
+      (Task as any).findAll({
+        attributes: ['id'],
+        where: { [Op.and]: [await taskPolicy.scope(req.user!), { id: { [Op.in]: idsOf('task') } }] }
+      }),
+      (Project as any).findAll({
+        attributes: ['id'],
+        where: { [Op.and]: [await projectPolicy.scope(req.user!), { id: { [Op.in]: idsOf('project') } }] }
+      })
+    ]);
+
+    // Tags are global, so every tag is visible
+    const visible = new Set<string>([
+      ...tasks.map((task: Task) => `task:${task.id}`),
+      ...projects.map((project: Project) => `project:${project.id}`),
+      ...idsOf('tag').map(id => `tag:${id}`)
+    ]);
+    return hits.filter(hit => visible.has(`${hit.resourceType}:${hit.resourceId}`));
+  }
+}
@@ -1,69 +1,142 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { Tag } from '../models';
+import { taskPolicy } from '../policies';
+import { paginate, SortOptions } from '../utils/pagination';
+import { NotFoundError } from '../utils/errors';
+import { buildPatch, buildReplacement, pickWritable, WritableFields } from '../utils/requestBody';
+import { assertIfMatch, checkNotModified, setETag } from '../utils/conditionalRequests';
+import { applyFieldsets, IncludeOptions, parseResponseShape, ResponseShape } from '../utils/includes';
+import { restoreRecord } from '../services/trash';
+
+// Attributes clients may sort the list by
+export const TAG_SORT: SortOptions = {
+  fields: ['id', 'name', 'createdAt', 'updatedAt']
+};
+
+// Associations clients may include
+const TAG_INCLUDES: IncludeOptions = {
+  allowed: ['tasks'],
+  defaults: ['tasks']
+};
+
+// Attributes clients may write
+export const TAG_FIELDS: WritableFields = {
+  create: ['name', 'color'],
+  update: ['name', 'color']
+};
 
 export class TagController {
   // List all tags
-  async getAllTags(req: Request, res: Response) {
+  async getAllTags(req: Request, res: Response, next: NextFunction) {
     try {
-      const tags = await (Tag as any).findAll({
-        include: ['tasks']
+      const shape = await this.parseShape(req);
+      const page = await paginate(Tag, req, {
+        include: shape.include,
+        sort: TAG_SORT
       });
-      res.json(tags);
+      res.json({ ...page, data: applyFieldsets(page.data, shape.fields) });
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
   // Create a new tag
-  async createTag(req: Request, res: Response) {
+  async createTag(req: Request, res: Response, next: NextFunction) {
     try {
-      const tag = await (Tag as any).create(req.body);
+      const tag = await (Tag as any).create(pickWritable(req.body, TAG_FIELDS.create));
+      setETag(res, tag);
       res.status(201).json(tag);
     } catch (error) {
-      res.status(400).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
   // Get a specific tag
-  async getTagById(req: Request, res: Response) {
+  async getTagById(req: Request, res: Response, next: NextFunction) {
     try {
+      const shape = await this.parseShape(req);
       const tag = await (Tag as any).findByPk(req.params.id, {
-        include: ['tasks']
+        include: shape.include
       });
       if (!tag) {
-        return res.status(404).json({ error: 'Tag not found' });
+        throw new NotFoundError('Tag not found');
+      }
+      const body = applyFieldsets(tag, shape.fields);
+      if (checkNotModified(req, res, tag, body)) {
+        return res.status(304).end();
       }
+      res.json(body);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Replace a tag, every writable attribute left out is reset
+  async updateTag(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tag = await this.findUpdatableTag(req);
+      await tag.update(buildReplacement(Tag, req.body, TAG_FIELDS));
+      setETag(res, tag);
       res.json(tag);
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
-  // Update a tag
-  async updateTag(req: Request, res: Response) {
+  // Change some attributes of a tag with a merge patch or JSON Patch document
+  async patchTag(req: Request, res: Response, next: NextFunction) {
     try {
-      const tag = await (Tag as any).findByPk(req.params.id);
-      if (!tag) {
-        return res.status(404).json({ error: 'Tag not found' });
-      }
-      await tag.update(req.body);
+      const tag = await this.findUpdatableTag(req);
+      await tag.update(buildPatch(req, tag, TAG_FIELDS));
+      setETag(res, tag);
       res.json(tag);
     } catch (error) {
-      res.status(400).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
-  // Delete a tag
-  async deleteTag(req: Request, res: Response) {
+  // Move a tag to the trash
+  async deleteTag(req: Request, res: Response, next: NextFunction) {
     try {
       const tag = await (Tag as any).findByPk(req.params.id);
       if (!tag) {
-        return res.status(404).json({ error: 'Tag not found' });
+        throw new NotFoundError('Tag not found');
       }
+      assertIfMatch(req, tag);
       await tag.destroy();
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
     }
   }
-} 
\ No newline at end of file
+
+  // Restore a tag from the trash
+  async restoreTag(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tag = await (Tag as any).findByPk(req.params.id, { paranoid: false });
+      if (!tag) {
+        throw new NotFoundError('Tag not found');
+      }
+      await restoreRecord(tag);
+      setETag(res, tag);
+      res.json(tag);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Load the tag for PUT and PATCH, checking If-Match
+  private async findUpdatableTag(req: Request): Promise<Tag> {
+    const tag = await (Tag as any).findByPk(req.params.id);
+    if (!tag) {
+      throw new NotFoundError('Tag not found');
+    }
+    assertIfMatch(req, tag);
+    return tag;
+  }
+
+  // Read include and fields, included tasks are limited to the ones the caller may see
+  private async parseShape(req: Request): Promise<ResponseShape> {
+    return parseResponseShape(Tag, req.query, TAG_INCLUDES, { tasks: await taskPolicy.scope(req.user!) });
+  }
+}
@@ -0,0 +1,171 @@
+import { Request, Response, NextFunction } from 'express';
+import { Op, Transaction } from 'sequelize';
+import { Task, Tag, User } from '../models';
+import { taskPolicy, PolicyAction, assertAssignable } from '../policies';
+import { toErrorResponse, ErrorResponseBody } from '../middleware/errorHandler';
+import { ApiError, BadRequestError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { applyMergePatch, pickWritable } from '../utils/requestBody';
+import { TASK_FIELDS } from './TaskController';
+
+// Most operations accepted in one request
+export const MAX_BULK_OPERATIONS = 500;
+
+const BULK_MODES = ['atomic', 'partial'];
+
+// Fields each operation accepts besides op
+const OPERATION_FIELDS: Record<string, string[]> = {
+  create: ['data'],
+  update: ['id', 'data'],
+  delete: ['id'],
+  addTags: ['id', 'tagIds'],
+  removeTags: ['id', 'tagIds'],
+  setTags: ['id', 'tagIds']
+};
+
+interface OperationResult {
+  status: number;
+  id?: number;
+  data?: unknown;
+}
+
+interface BulkResult extends OperationResult {
+  index: number;
+  op: string | null;
+  error?: ErrorResponseBody;
+}
+
+export class TaskBulkController {
+  // Run a batch of task operations in one transaction
+  async runBulk(req: Request, res: Response, next: NextFunction) {
+    try {
+      const body = pickWritable(req.body, ['mode', 'operations']);
+      const mode = body.mode ?? 'atomic';
+      if (!BULK_MODES.includes(mode)) {
+        throw new BadRequestError(`mode must be one of: ${BULK_MODES.join(', ')}`, 'invalid_body');
+      }
+      const operations = body.operations;
+      if (!Array.isArray(operations) || operations.length == 0 || operations.length > MAX_BULK_OPERATIONS) {
+        throw new BadRequestError(`operations must be an array of 1 to ${MAX_BULK_OPERATIONS} operations`, 'invalid_body');
+      }
+
+      const results: BulkResult[] = [];
+      const transaction = await Task.sequelize!.transaction();
+      let finished = false;
+      try {
+        for (const [index, operation] of operations.entries()) {
+          results.push(await this.runInSavepoint(req.user!, index, operation, transaction));
+        }
+
+        const failed = results.filter(result => result.error);
+        finished = true;
+        if (mode == 'atomic' && failed.length > 0) {
+          await transaction.rollback();
+          throw new ApiError(422, 'bulk_failed', `${failed.length} of ${operations.length} operations failed, no changes were saved`,
+            failed.map(result => ({ index: result.index, op: result.op, status: result.status, ...result.error })));
+        }
+        await transaction.commit();
+      } catch (error) {
+        if (!finished) {
+          await transaction.rollback();
+        }
+        throw error;
+      }
+
+      const failed = results.filter(result => result.error).length;
+      res.json({ mode, succeeded: results.length - failed, failed, results });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Run one operation in a savepoint, so a failure only undoes that operation
+  private async runInSavepoint(user: User, index: number, operation: any, transaction: Transaction): Promise<BulkResult> {
+    const op = typeof operation?.op == 'string' ? operation.op : null;
+    try {
+      const result = await Task.sequelize!.transaction({ transaction }, savepoint => this.runOperation(user, operation, savepoint));
+      return { index, op, ...result };
+    } catch (error) {
+      // Unexpected errors (e.g. the database failing) abort the whole batch
+      const response = toErrorResponse(error);
+      if (response == null) {
+        throw error;
+      }
+      return { index, op, status: response.status, error: response.body };
+    }
+  }
+
+  private async runOperation(user: User, operation: any, transaction: Transaction): Promise<OperationResult> {
+    if (operation == null || typeof operation != 'object' || Array.isArray(operation) || !(operation.op in OPERATION_FIELDS)) {
+      throw new BadRequestError(`Each operation needs an op: ${Object.keys(OPERATION_FIELDS).join(', ')}`, 'invalid_operation');
+    }
+    const allowed = OPERATION_FIELDS[operation.op];
+    const unknown = Object.keys(operation).filter(name => name != 'op' && !allowed.includes(name));
+    if (unknown.length > 0) {
+      throw new BadRequestError(`${operation.op} does not accept: ${unknown.join(', ')}`, 'invalid_operation');
+    }
+
+    switch (operation.op) {
+      case 'create': {
+        const values = pickWritable(operation.data ?? {}, TASK_FIELDS.create);
+        const task = (Task as any).build({ ...values, userId: values.userId ?? user.id });
+        if (!(await taskPolicy.can(user, 'create', task))) {
+          throw new ForbiddenError('You do not have access to this project');
+        }
+        await assertAssignable(user, task);
+        await task.save({ transaction });
+        return { status: 201, id: task.id, data: task };
+      }
+
+      case 'update': {
+        const task = await this.findTask(user, operation.id, 'update', transaction);
+        task.set(applyMergePatch(Task, operation.data ?? {}, TASK_FIELDS));
+        if (task.changed('projectId') && !(await taskPolicy.can(user, 'create', task))) {
+          throw new ForbiddenError('You do not have access to this project');
+        }
+        await assertAssignable(user, task);
+        await task.save({ transaction });
+        return { status: 200, id: task.id, data: task };
+      }
+
+      case 'delete': {
+        const task = await this.findTask(user, operation.id, 'delete', transaction);
+        await task.destroy({ transaction });
+        return { status: 204, id: task.id };
+      }
+
+      default: {
+        const task = await this.findTask(user, operation.id, 'update', transaction);
+        const tags = await this.findTags(operation.tagIds, transaction);
+        await task[operation.op as 'addTags' | 'removeTags' | 'setTags'](tags, { transaction });
+        const current = await task.getTags({ attributes: ['id'], joinTableAttributes: [], transaction });
+        return { status: 200, id: task.id, data: { tagIds: current.map(tag => tag.id) } };
+      }
+    }
+  }
+
+  private async findTask(user: User, id: unknown, action: PolicyAction, transaction: Transaction): Promise<Task> {
+    if (!Number.isInteger(id)) {
+      throw new BadRequestError('id must be a task id', 'invalid_operation');
+    }
+    const task = await (Task as any).findByPk(id, { transaction });
+    if (!task) {
+      throw new NotFoundError(`Task ${id} not found`);
+    }
+    if (!(await taskPolicy.can(user, action, task))) {
+      throw new ForbiddenError('You do not have access to this task');
+    }
+    return task;
+  }
+
+  private async findTags(tagIds: unknown, transaction: Transaction): Promise<Tag[]> {
+    if (!Array.isArray(tagIds) || !tagIds.every(id => Number.isInteger(id))) {
+      throw new BadRequestError('tagIds must be an array of tag ids', 'invalid_operation');
+    }
+    const tags = await Tag.findAll({ where: { id: { [Op.in]: tagIds } }, transaction });
+    const missing = tagIds.filter(id => !tags.some(tag => tag.id == id));
+    if (missing.length > 0) {
+      throw new NotFoundError(`Tag(s) not found: ${missing.join(', ')}`);
+    }
+    return tags;
+  }
+}
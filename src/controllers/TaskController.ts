@@ -1,69 +1,252 @@
-import { Request, Response } from 'express';
-import { Task } from '../models';
+import { Request, Response, NextFunction } from 'express';
+import { Op, WhereOptions } from 'sequelize';
+import { Task, Project, User } from '../models';
+import { TASK_STATUSES, TASK_PRIORITIES } from '../models/Task';
+import { taskPolicy, projectPolicy, userPolicy, assertAssignable } from '../policies';
+import { paginate, SortOptions } from '../utils/pagination';
+import { buildTaskWhere } from '../utils/taskFilters';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { buildPatch, buildReplacement, pickWritable, WritableFields } from '../utils/requestBody';
+import { assertIfMatch, checkNotModified, setETag } from '../utils/conditionalRequests';
+import { restoreRecord } from '../services/trash';
+import { applyFieldsets, IncludeOptions, INCLUDE_PARAMS, parseResponseShape } from '../utils/includes';
+
+// Attributes clients may sort the list by
+export const TASK_SORT: SortOptions = {
+  fields: ['id', 'title', 'status', 'priority', 'dueDate', 'createdAt', 'updatedAt'],
+  ranks: { status: TASK_STATUSES, priority: TASK_PRIORITIES }
+};
+
+// Associations clients may include
+export const TASK_INCLUDES: IncludeOptions = {
+  allowed: ['user', 'project', 'project.user', 'tags'],
+  defaults: ['user', 'project', 'tags']
+};
+
+// Attributes clients may write, userId is the assignee
+export const TASK_FIELDS: WritableFields = {
+  create: ['title', 'description', 'status', 'dueDate', 'priority', 'userId', 'projectId'],
+  update: ['title', 'description', 'status', 'dueDate', 'priority', 'userId', 'projectId']
+};
 
 export class TaskController {
-  // List all tasks
-  async getAllTasks(req: Request, res: Response) {
+  // List all tasks visible to the caller, filtered by the query string
+  async getAllTasks(req: Request, res: Response, next: NextFunction) {
     try {
-      const tasks = await (Task as any).findAll({
-        include: ['user', 'project', 'tags']
-      });
-      res.json(tasks);
+      res.json(await this.listTasks(req, {}));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List the tasks of a project
+  async getProjectTasks(req: Request, res: Response, next: NextFunction) {
+    try {
+      const project = await this.findProject(req);
+      res.json(await this.listTasks(req, { projectId: project.id }));
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
-  // Create a new task
-  async createTask(req: Request, res: Response) {
+  // List the tasks assigned to a user
+  async getUserTasks(req: Request, res: Response, next: NextFunction) {
     try {
-      const task = await (Task as any).create(req.body);
+      const user = await this.findUser(req);
+      res.json(await this.listTasks(req, { userId: user.id }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create a new task, assigned to the caller unless an owner or editor of the project gives another user
+  async createTask(req: Request, res: Response, next: NextFunction) {
+    try {
+      const values = pickWritable(req.body, TASK_FIELDS.create);
+      const task = await this.createTaskFor(req, { ...values, userId: values.userId ?? req.user!.id });
+      setETag(res, task);
       res.status(201).json(task);
     } catch (error) {
-      res.status(400).json({ error: (error as Error).message });
+      next(error);
+    }
+  }
+
+  // Create a new task in a project
+  async createProjectTask(req: Request, res: Response, next: NextFunction) {
+    try {
+      const project = await this.findProject(req);
+      const values = pickWritable(req.body, TASK_FIELDS.create.filter(field => field != 'projectId'));
+      const task = await this.createTaskFor(req, { ...values, userId: values.userId ?? req.user!.id, projectId: project.id });
+      setETag(res, task);
+      res.status(201).json(task);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create a new task assigned to a user
+  async createUserTask(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = await this.findUser(req);
+      const values = pickWritable(req.body, TASK_FIELDS.create.filter(field => field != 'userId'));
+      const task = await this.createTaskFor(req, { ...values, userId: user.id });
+      setETag(res, task);
+      res.status(201).json(task);
+    } catch (error) {
+      next(error);
     }
   }
 
   // Get a specific task
-  async getTaskById(req: Request, res: Response) {
+  async getTaskById(req: Request, res: Response, next: NextFunction) {
     try {
+      const shape = parseResponseShape(Task, req.query, TASK_INCLUDES);
       const task = await (Task as any).findByPk(req.params.id, {
-        include: ['user', 'project', 'tags']
+        include: shape.include
       });
       if (!task) {
-        return res.status(404).json({ error: 'Task not found' });
+        throw new NotFoundError('Task not found');
+      }
+      if (!(await taskPolicy.can(req.user!, 'read', task))) {
+        throw new ForbiddenError('You do not have access to this task');
       }
+      const body = applyFieldsets(task, shape.fields);
+      if (checkNotModified(req, res, task, body)) {
+        return res.status(304).end();
+      }
+      res.json(body);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Replace a task, every writable attribute left out is reset
+  async updateTask(req: Request, res: Response, next: NextFunction) {
+    try {
+      const task = await this.findUpdatableTask(req);
+      await this.saveTask(req, task, buildReplacement(Task, req.body, TASK_FIELDS));
+      setETag(res, task);
       res.json(task);
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
-  // Update a task
-  async updateTask(req: Request, res: Response) {
+  // Change some attributes of a task with a merge patch or JSON Patch document
+  async patchTask(req: Request, res: Response, next: NextFunction) {
     try {
-      const task = await (Task as any).findByPk(req.params.id);
-      if (!task) {
-        return res.status(404).json({ error: 'Task not found' });
-      }
-      await task.update(req.body);
+      const task = await this.findUpdatableTask(req);
+      await this.saveTask(req, task, buildPatch(req, task, TASK_FIELDS));
+      setETag(res, task);
       res.json(task);
     } catch (error) {
-      res.status(400).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
-  // Delete a task
-  async deleteTask(req: Request, res: Response) {
+  // Move a task to the trash
+  async deleteTask(req: Request, res: Response, next: NextFunction) {
     try {
       const task = await (Task as any).findByPk(req.params.id);
       if (!task) {
-        return res.status(404).json({ error: 'Task not found' });
+        throw new NotFoundError('Task not found');
       }
+      if (!(await taskPolicy.can(req.user!, 'delete', task))) {
+        throw new ForbiddenError('You do not have access to this task');
+      }
+      assertIfMatch(req, task);
       await task.destroy();
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
+    }
+  }
+
+  // Restore a task from the trash
+  async restoreTask(req: Request, res: Response, next: NextFunction) {
+    try {
+      const task = await (Task as any).findByPk(req.params.id, { paranoid: false });
+      if (!task) {
+        throw new NotFoundError('Task not found');
+      }
+      if (!(await taskPolicy.can(req.user!, 'delete', task))) {
+        throw new ForbiddenError('You do not have access to this task');
+      }
+      await restoreRecord(task);
+      setETag(res, task);
+      res.json(task);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List the tasks visible to the caller within the given condition, filtered by the query string
+  private async listTasks(req: Request, where: WhereOptions) {
+    const filters = await buildTaskWhere(req.query, INCLUDE_PARAMS);
+    const shape = parseResponseShape(Task, req.query, TASK_INCLUDES);
+    const page = await paginate(Task, req, {
+      where: { [Op.and]: [await taskPolicy.scope(req.user!), where, filters] },
+      include: shape.include,
+      sort: TASK_SORT
+    });
+    return { ...page, data: applyFieldsets(page.data, shape.fields) };
+  }
+
+  private async createTaskFor(req: Request, values: Record<string, any>): Promise<Task> {
+    const task = (Task as any).build(values);
+    if (!(await taskPolicy.can(req.user!, 'create', task))) {
+      throw new ForbiddenError('You do not have access to this project');
+    }
+    await assertAssignable(req.user!, task);
+    await task.save();
+    return task;
+  }
+
+  // Load the parent project of a nested route
+  private async findProject(req: Request): Promise<Project> {
+    const project = await (Project as any).findByPk(req.params.id);
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+    if (!(await projectPolicy.can(req.user!, 'read', project))) {
+      throw new ForbiddenError('You do not have access to this project');
+    }
+    return project;
+  }
+
+  // Load the parent user of a nested route
+  private async findUser(req: Request): Promise<User> {
+    const user = await (User as any).findByPk(req.params.id);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (!(await userPolicy.can(req.user!, 'read', user))) {
+      throw new ForbiddenError('You do not have access to this user');
+    }
+    return user;
+  }
+
+  // Load the task for PUT and PATCH, checking access and If-Match
+  private async findUpdatableTask(req: Request): Promise<Task> {
+    const task = await (Task as any).findByPk(req.params.id);
+    if (!task) {
+      throw new NotFoundError('Task not found');
+    }
+    if (!(await taskPolicy.can(req.user!, 'update', task))) {
+      throw new ForbiddenError('You do not have access to this task');
+    }
+    assertIfMatch(req, task);
+    return task;
+  }
+
+  // Moving a task needs the same access to the new project as creating one there,
+  // reassigning it needs edit rights on the project
+  private async saveTask(req: Request, task: Task, values: Record<string, any>) {
+    task.set(values);
+    if (task.changed('projectId') && !(await taskPolicy.can(req.user!, 'create', task))) {
+      throw new ForbiddenError('You do not have access to this project');
     }
+    await assertAssignable(req.user!, task);
+    await task.save();
   }
-} 
\ No newline at end of file
+}
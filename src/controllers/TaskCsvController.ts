@@ -0,0 +1,323 @@
+import { Request, Response, NextFunction } from 'express';
+import { Op, Transaction } from 'sequelize';
+import { Task, Tag, User, Project } from '../models';
+import { taskPolicy, projectPolicy, assertAssignable } from '../policies';
+import { toErrorResponse, ErrorResponseBody } from '../middleware/errorHandler';
+import { findPage, MAX_LIMIT } from '../utils/pagination';
+import { buildTaskWhere, TASK_FILTER_PARAMS } from '../utils/taskFilters';
+import { assertKnownParams, parseBoolean } from '../utils/queryParams';
+import { ApiError, BadRequestError, ForbiddenError, NotFoundError, QueryError } from '../utils/errors';
+import { pickWritable } from '../utils/requestBody';
+import { formatCsvRow, parseCsv, readCsvValue } from '../utils/csv';
+import { TASK_SORT } from './TaskController';
+
+// Columns of an export, user and project by name and tags joined with TAG_DELIMITER
+export const EXPORT_COLUMNS = ['id', 'title', 'description', 'status', 'priority', 'dueDate', 'user', 'project', 'tags', 'createdAt', 'updatedAt'];
+
+// Task fields an import column can be mapped to
+export const IMPORT_FIELDS = ['title', 'description', 'status', 'priority', 'dueDate', 'user', 'project', 'tags'];
+
+// Separates the tag names in the tags column
+export const TAG_DELIMITER = ';';
+
+// Most rows accepted in one import
+export const MAX_IMPORT_ROWS = 1000;
+
+// The list filters and sort, the export has no pages
+const EXPORT_PARAMS = [...TASK_FILTER_PARAMS, 'sort', 'withDeleted'];
+
+// Options of a text/csv import, sent in the JSON body otherwise
+const IMPORT_PARAMS = ['columns', 'dryRun', 'createMissingTags'];
+
+const EXPORT_INCLUDE = [
+  { association: 'user', attributes: ['id', 'username'] },
+  { association: 'project', attributes: ['id', 'name'] },
+  { association: 'tags', attributes: ['id', 'name'], through: { attributes: [] } }
+];
+
+type ImportRow = Partial<Record<string, string>>;
+
+interface ImportRequest {
+  csv: unknown;
+  columns?: unknown;
+  dryRun?: unknown;
+  createMissingTags?: unknown;
+}
+
+interface ImportReferences {
+  users: User[];
+  projects: Project[];
+  tags: Tag[];
+}
+
+interface PreparedRow {
+  task: Task;
+  tagNames: string[];
+}
+
+interface RowError extends ErrorResponseBody {
+  // The row in the spreadsheet, the header is row 1
+  row: number;
+}
+
+export class TaskCsvController {
+  // Export the tasks visible to the caller as CSV, filtered and sorted like the list
+  async exportTasks(req: Request, res: Response, next: NextFunction) {
+    try {
+      assertKnownParams(req.query, EXPORT_PARAMS);
+      const filters = await buildTaskWhere(req.query);
+      const options = {
+        where: { [Op.and]: [await taskPolicy.scope(req.user!), filters] },
+        include: EXPORT_INCLUDE,
+        sort: TASK_SORT
+      };
+      const query = { sort: req.query.sort, withDeleted: req.query.withDeleted, limit: String(MAX_LIMIT) };
+
+      // The first page is loaded before the headers are sent, so invalid parameters are still answered with 400
+      let page = await findPage(Task, query, options);
+      res.status(200).set({
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="tasks.csv"'
+      });
+      // The byte order mark makes spreadsheets read the file as UTF-8
+      res.write('\uFEFF' + formatCsvRow(EXPORT_COLUMNS));
+      for (;;) {
+        for (const task of page.data) {
+          res.write(formatCsvRow(this.toCsvValues(task)));
+        }
+        if (page.meta.nextCursor == null) {
+          break;
+        }
+        page = await findPage(Task, { ...query, cursor: page.meta.nextCursor }, options);
+      }
+      res.end();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create tasks from CSV, or only check them with dryRun
+  async importTasks(req: Request, res: Response, next: NextFunction) {
+    try {
+      const body = this.readImportRequest(req);
+      if (typeof body.csv != 'string' || body.csv.trim() == '') {
+        throw new BadRequestError('csv must be a CSV document with a header row', 'invalid_body');
+      }
+      for (const option of ['dryRun', 'createMissingTags'] as const) {
+        if (body[option] !== undefined && typeof body[option] != 'boolean') {
+          throw new BadRequestError(`${option} must be true or false`, 'invalid_body');
+        }
+      }
+      // Tags are global, so creating them is left to admins like POST /api/tags
+      if (body.createMissingTags && !req.user!.isAdmin()) {
+        throw new ForbiddenError('Only admins may create tags');
+      }
+
+      const [header, ...records] = parseCsv(body.csv);
+      if (records.length == 0 || records.length > MAX_IMPORT_ROWS) {
+        throw new BadRequestError(`csv must have a header row and 1 to ${MAX_IMPORT_ROWS} rows`, 'invalid_csv');
+      }
+      const mapping = this.mapColumns(header.map(name => name.trim()), body.columns);
+      const rows = records.map(record => this.readRow(record, mapping));
+      const references = await this.loadReferences(req.user!, rows);
+
+      const prepared: PreparedRow[] = [];
+      const errors: RowError[] = [];
+      for (const [index, row] of rows.entries()) {
+        try {
+          prepared.push(await this.prepareRow(req.user!, row, references, body.createMissingTags == true));
+        } catch (error) {
+          // Unexpected errors (e.g. the database failing) abort the import
+          const response = toErrorResponse(error);
+          if (response == null) {
+            throw error;
+          }
+          errors.push({ row: index + 2, ...response.body });
+        }
+      }
+
+      const newTags = [...new Set(prepared.flatMap(row => row.tagNames))]
+        .filter(name => !references.tags.some(tag => tag.name == name));
+      const summary = {
+        dryRun: body.dryRun == true,
+        rows: rows.length,
+        valid: prepared.length,
+        invalid: errors.length,
+        ignoredColumns: header.filter((name, index) => mapping[index] == null),
+        newTags,
+        errors
+      };
+
+      if (body.dryRun) {
+        return res.json(summary);
+      }
+      if (errors.length > 0) {
+        throw new ApiError(422, 'import_failed', `${errors.length} of ${rows.length} rows are invalid, no tasks were created`,
+          errors.map(error => ({ ...error })));
+      }
+
+      const tasks = await Task.sequelize!.transaction(transaction => this.saveRows(prepared, references.tags, newTags, transaction));
+      res.status(201).json({ ...summary, taskIds: tasks.map(task => task.id) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // A text/csv body is the document itself with the options in the query,
+  // a JSON body has the document in csv next to the options
+  private readImportRequest(req: Request): ImportRequest {
+    if (typeof req.body != 'string') {
+      return pickWritable(req.body, ['csv', ...IMPORT_PARAMS]) as ImportRequest;
+    }
+
+    assertKnownParams(req.query, IMPORT_PARAMS);
+    const { columns, dryRun, createMissingTags } = req.query;
+    if (columns !== undefined && (typeof columns != 'object' || Array.isArray(columns))) {
+      throw new QueryError('columns must map header names to fields, e.g. columns[Due]=dueDate');
+    }
+    return {
+      csv: req.body,
+      // An empty value skips the column, like null in a JSON body
+      columns: columns && Object.fromEntries(Object.entries(columns).map(([name, field]) => [name, field === '' ? null : field])),
+      dryRun: dryRun === undefined ? undefined : parseBoolean(dryRun, 'dryRun'),
+      createMissingTags: createMissingTags === undefined ? undefined : parseBoolean(createMissingTags, 'createMissingTags')
+    };
+  }
+
+  private toCsvValues(task: Task): Array<string | number | null> {
+    const { user, project, tags } = task as any;
+    return [
+      task.id,
+      task.title,
+      task.description ?? null,
+      task.status,
+      task.priority,
+      task.dueDate.toISOString(),
+      user?.username ?? null,
+      project?.name ?? null,
+      (tags as Tag[]).map(tag => tag.name).sort().join(`${TAG_DELIMITER} `),
+      task.createdAt.toISOString(),
+      task.updatedAt.toISOString()
+    ];
+  }
+
+  // Find the field of every column: columns maps header names to fields (or null to ignore them),
+  // other columns named like a field (ignoring case) are mapped to it and the rest are ignored
+  private mapColumns(header: string[], columns: unknown): Array<string | null> {
+    if (columns !== undefined && (columns == null || typeof columns != 'object' || Array.isArray(columns))) {
+      throw new BadRequestError('columns must map header names to fields', 'invalid_body');
+    }
+    const given = (columns ?? {}) as Record<string, unknown>;
+    const unknownHeaders = Object.keys(given).filter(name => !header.includes(name));
+    if (unknownHeaders.length > 0) {
+      throw new BadRequestError(`columns names header(s) that are not in the CSV: ${unknownHeaders.join(', ')}`, 'invalid_body');
+    }
+    const invalid = Object.values(given).filter(field => field !== null && !IMPORT_FIELDS.includes(field as string));
+    if (invalid.length > 0) {
+      throw new BadRequestError(`columns can only map to null or: ${IMPORT_FIELDS.join(', ')}`, 'invalid_body');
+    }
+
+    const mapping = header.map(name => name in given
+      ? given[name] as string | null
+      : IMPORT_FIELDS.find(field => field.toLowerCase() == name.toLowerCase()) ?? null);
+    const duplicates = IMPORT_FIELDS.filter(field => mapping.filter(mapped => mapped == field).length > 1);
+    if (duplicates.length > 0) {
+      throw new BadRequestError(`More than one column is mapped to: ${duplicates.join(', ')}`, 'invalid_body');
+    }
+    return mapping;
+  }
+
+  // Read the mapped values of a row, empty values are left out
+  private readRow(record: string[], mapping: Array<string | null>): ImportRow {
+    const row: ImportRow = {};
+    for (const [index, field] of mapping.entries()) {
+      const value = readCsvValue((record[index] ?? '').trim());
+      if (field != null && value != '') {
+        row[field] = value;
+      }
+    }
+    return row;
+  }
+
+  private splitTags(value: string | undefined): string[] {
+    const names = (value ?? '').split(TAG_DELIMITER).map(name => name.trim()).filter(name => name != '');
+    return [...new Set(names)];
+  }
+
+  // Load the users, projects and tags the rows name, projects only as far as the caller can see them
+  private async loadReferences(user: User, rows: ImportRow[]): Promise<ImportReferences> {
+    const userNames = rows.map(row => row.user).filter((name): name is string => name != null);
+    const projectNames = rows.map(row => row.project).filter((name): name is string => name != null);
+    const tagNames = rows.flatMap(row => this.splitTags(row.tags));
+
+    const [users, projects, tags] = await Promise.all([
+      User.findAll({ where: { [Op.or]: [{ username: { [Op.in]: userNames } }, { email: { [Op.in]: userNames } }] } }),
+      Project.findAll({ where: { [Op.and]: [await projectPolicy.scope(user), { name: { [Op.in]: projectNames } }] } }),
+      Tag.findAll({ where: { name: { [Op.in]: tagNames } } })
+    ]);
+    return { users, projects, tags };
+  }
+
+  // Build and validate the task of a row, with the same access check as POST /api/tasks.
+  // The assignee is the caller unless the user column names a username or email
+  private async prepareRow(user: User, row: ImportRow, references: ImportReferences, createMissingTags: boolean): Promise<PreparedRow> {
+    let assignee: User | undefined = user;
+    if (row.user != null) {
+      assignee = references.users.find(candidate => candidate.username == row.user || candidate.email == row.user);
+      if (assignee == null) {
+        throw new NotFoundError(`User '${row.user}' not found`);
+      }
+    }
+
+    let projectId: number | undefined;
+    if (row.project != null) {
+      const matches = references.projects.filter(project => project.name == row.project);
+      if (matches.length == 0) {
+        throw new NotFoundError(`Project '${row.project}' not found`);
+      }
+      if (matches.length > 1) {
+        throw new BadRequestError(`Project name '${row.project}' matches ${matches.length} projects`, 'ambiguous_reference');
+      }
+      projectId = matches[0].id;
+    }
+
+    const dueDate = row.dueDate == null || isNaN(Date.parse(row.dueDate)) ? row.dueDate : new Date(row.dueDate);
+    const task = (Task as any).build({
+      title: row.title,
+      description: row.description,
+      status: row.status,
+      priority: row.priority,
+      dueDate,
+      userId: assignee.id,
+      projectId
+    });
+    await task.validate();
+    if (!(await taskPolicy.can(user, 'create', task))) {
+      throw new ForbiddenError('You do not have access to this project');
+    }
+    await assertAssignable(user, task);
+
+    const tagNames = this.splitTags(row.tags);
+    const missing = tagNames.filter(name => !references.tags.some(tag => tag.name == name));
+    if (missing.length > 0 && !createMissingTags) {
+      throw new NotFoundError(`Tag(s) not found: ${missing.join(', ')}`);
+    }
+    for (const name of missing) {
+      await Tag.build({ name }).validate();
+    }
+    return { task, tagNames };
+  }
+
+  private async saveRows(rows: PreparedRow[], tags: Tag[], newTags: string[], transaction: Transaction): Promise<Task[]> {
+    const allTags = [...tags];
+    for (const name of newTags) {
+      allTags.push(await (Tag as any).create({ name }, { transaction }));
+    }
+
+    for (const { task, tagNames } of rows) {
+      await task.save({ transaction });
+      await task.setTags(allTags.filter(tag => tagNames.includes(tag.name)), { transaction });
+    }
+    return rows.map(row => row.task);
+  }
+}
@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction } from 'express';
+import { Op, Transaction } from 'sequelize';
+import { Task, Tag } from '../models';
+import { taskPolicy, PolicyAction } from '../policies';
+import { paginate } from '../utils/pagination';
+import { buildTagWhere, buildTaskWhere } from '../utils/taskFilters';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { pickWritable } from '../utils/requestBody';
+import { applyFieldsets, INCLUDE_PARAMS, parseResponseShape } from '../utils/includes';
+import { TASK_INCLUDES, TASK_SORT } from './TaskController';
+
+type TagChange = 'setTags' | 'addTags' | 'removeTags';
+
+export class TaskTagController {
+  // List the tags of a task
+  async getTaskTags(req: Request, res: Response, next: NextFunction) {
+    try {
+      const task = await this.findTask(req, 'read');
+      res.json(await this.listTags(task));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Replace the tags of a task
+  async setTaskTags(req: Request, res: Response, next: NextFunction) {
+    await this.changeTags(req, res, next, 'setTags');
+  }
+
+  // Add tags to a task
+  async addTaskTags(req: Request, res: Response, next: NextFunction) {
+    await this.changeTags(req, res, next, 'addTags');
+  }
+
+  // Remove tags from a task
+  async removeTaskTags(req: Request, res: Response, next: NextFunction) {
+    await this.changeTags(req, res, next, 'removeTags');
+  }
+
+  // List the tasks with a tag that are visible to the caller
+  async getTagTasks(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tag = await (Tag as any).findByPk(req.params.id);
+      if (!tag) {
+        throw new NotFoundError('Tag not found');
+      }
+      const filters = await buildTaskWhere(req.query, INCLUDE_PARAMS);
+      const shape = parseResponseShape(Task, req.query, TASK_INCLUDES);
+      const page = await paginate(Task, req, {
+        where: { [Op.and]: [await taskPolicy.scope(req.user!), filters, await buildTagWhere([String(tag.id)], 'any')] },
+        include: shape.include,
+        sort: TASK_SORT
+      });
+      res.json({ ...page, data: applyFieldsets(page.data, shape.fields) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Apply a tag change in one transaction and answer with the task's tags
+  private async changeTags(req: Request, res: Response, next: NextFunction, change: TagChange) {
+    try {
+      const body = pickWritable(req.body, change == 'removeTags' ? ['tags'] : ['tags', 'createMissing']);
+      const refs = this.parseTagRefs(body.tags, change != 'setTags');
+      if (body.createMissing !== undefined && typeof body.createMissing != 'boolean') {
+        throw new BadRequestError('createMissing must be true or false', 'invalid_body');
+      }
+      const task = await this.findTask(req, 'update');
+
+      await Task.sequelize!.transaction(async transaction => {
+        const tags = await this.findTags(req, refs, body.createMissing == true, transaction);
+        await task[change](tags, { transaction });
+      });
+      res.json(await this.listTags(task));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async findTask(req: Request, action: PolicyAction): Promise<Task> {
+    const task = await (Task as any).findByPk(req.params.id);
+    if (!task) {
+      throw new NotFoundError('Task not found');
+    }
+    if (!(await taskPolicy.can(req.user!, action, task))) {
+      throw new ForbiddenError('You do not have access to this task');
+    }
+    return task;
+  }
+
+  private listTags(task: Task): Promise<Tag[]> {
+    return task.getTags({ joinTableAttributes: [], order: [['name', 'ASC']] });
+  }
+
+  // Tags are referenced by id (a number) or by name (a string)
+  private parseTagRefs(value: unknown, requireOne: boolean): Array<number | string> {
+    const isRef = (ref: unknown) => (Number.isInteger(ref) && (ref as number) > 0) || (typeof ref == 'string' && ref.trim() != '');
+    if (!Array.isArray(value) || !value.every(isRef) || (requireOne && value.length == 0)) {
+      throw new BadRequestError(`tags must be an array of ${requireOne ? 'one or more ' : ''}tag ids or names`, 'invalid_body');
+    }
+    return value.map(ref => typeof ref == 'string' ? ref.trim() : ref);
+  }
+
+  // Load the referenced tags, creating missing names when asked to
+  private async findTags(req: Request, refs: Array<number | string>, createMissing: boolean, transaction: Transaction): Promise<Tag[]> {
+    const ids = refs.filter((ref): ref is number => typeof ref == 'number');
+    const names = refs.filter((ref): ref is string => typeof ref == 'string');
+    const tags: Tag[] = await Tag.findAll({
+      where: { [Op.or]: [{ id: { [Op.in]: ids } }, { name: { [Op.in]: names } }] },
+      transaction
+    });
+
+    const missingIds = ids.filter(id => !tags.some(tag => tag.id == id));
+    const missingNames = [...new Set(names.filter(name => !tags.some(tag => tag.name == name)))];
+    if (missingIds.length > 0 || (missingNames.length > 0 && !createMissing)) {
+      throw new NotFoundError(`Tag(s) not found: ${[...missingIds, ...missingNames].join(', ')}`);
+    }
+
+    // Tags are global, so creating them is left to admins like POST /api/tags
+    if (missingNames.length > 0) {
+      if (!req.user!.isAdmin()) {
+        throw new ForbiddenError('Only admins may create tags');
+      }
+      for (const name of missingNames) {
+        tags.push(await (Tag as any).create({ name }, { transaction }));
+      }
+    }
+    return tags.filter((tag, index) => tags.findIndex(other => other.id == tag.id) == index);
+  }
+}
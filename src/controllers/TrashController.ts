@@ -0,0 +1,101 @@
+import { Request, Response, NextFunction } from 'express';
+import { ModelStatic, Op, WhereOptions } from 'sequelize';
+import { User, Task, Project, Tag } from '../models';
+import { taskPolicy, projectPolicy, userPolicy } from '../policies';
+import { purgeRecord, TrashableRecord, TrashType, TRASH_TYPES } from '../services/trash';
+import { assertKnownParams, parseEnum, parseInteger } from '../utils/queryParams';
+import { DEFAULT_LIMIT, MAX_LIMIT } from '../utils/pagination';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+
+const TRASH_PARAMS = ['type', 'limit', 'offset'];
+
+interface TrashAccess {
+  model: ModelStatic<any>;
+  // Where clause restricting the trash to the records the user may see
+  scope(user: User): Promise<WhereOptions>;
+  // Whether the user may purge the record, the same rule as deleting it
+  canPurge(user: User, record: any): Promise<boolean>;
+}
+
+// Tags are managed by admins, so only admins see them in the trash
+const TRASH_ACCESS: Record<TrashType, TrashAccess> = {
+  task: { model: Task, scope: user => taskPolicy.scope(user), canPurge: (user, task) => taskPolicy.can(user, 'delete', task) },
+  project: { model: Project, scope: user => projectPolicy.scope(user), canPurge: (user, project) => projectPolicy.can(user, 'delete', project) },
+  user: { model: User, scope: user => userPolicy.scope(user), canPurge: (user, record) => userPolicy.can(user, 'delete', record) },
+  tag: { model: Tag, scope: async user => user.isAdmin() ? {} : { id: { [Op.in]: [] } }, canPurge: async user => user.isAdmin() }
+};
+
+export class TrashController {
+  // List the records in the trash visible to the caller, most recently deleted first
+  async getTrash(req: Request, res: Response, next: NextFunction) {
+    try {
+      assertKnownParams(req.query, TRASH_PARAMS);
+      const types = req.query.type === undefined
+        ? TRASH_TYPES
+        : parseEnum(req.query.type, 'type', TRASH_TYPES) as TrashType[];
+      const limit = parseInteger(req.query.limit, 'limit', DEFAULT_LIMIT, 1, MAX_LIMIT);
+      const offset = parseInteger(req.query.offset, 'offset', 0, 0);
+
+      // The first offset + limit records of each type are enough to build the page
+      const entries: { type: TrashType, record: TrashableRecord }[] = [];
+      let total = 0;
+      for (const type of types) {
+        const { model, scope } = TRASH_ACCESS[type];
+        const where = { [Op.and]: [await scope(req.user!), { deletedAt: { [Op.ne]: null } }] };
+        total += await model.count({ where, paranoid: false });
+        const records = await model.findAll({ where, paranoid: false, order: [['deletedAt', 'DESC'], ['id', 'DESC']], limit: offset + limit });
+        entries.push(...records.map((record: TrashableRecord) => ({ type, record })));
+      }
+      entries.sort((a, b) => b.record.deletedAt!.getTime() - a.record.deletedAt!.getTime());
+
+      res.json({
+        data: entries.slice(offset, offset + limit).map(({ type, record }) => ({
+          type,
+          id: record.id,
+          deletedAt: record.deletedAt,
+          data: record
+        })),
+        meta: { total, limit, offset }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a task in the trash for good
+  async purgeTask(req: Request, res: Response, next: NextFunction) {
+    return this.purge(req, res, next, 'task');
+  }
+
+  // Delete a project in the trash for good, with its tasks
+  async purgeProject(req: Request, res: Response, next: NextFunction) {
+    return this.purge(req, res, next, 'project');
+  }
+
+  // Delete a user in the trash for good, with their tasks and projects
+  async purgeUser(req: Request, res: Response, next: NextFunction) {
+    return this.purge(req, res, next, 'user');
+  }
+
+  // Delete a tag in the trash for good
+  async purgeTag(req: Request, res: Response, next: NextFunction) {
+    return this.purge(req, res, next, 'tag');
+  }
+
+  private async purge(req: Request, res: Response, next: NextFunction, type: TrashType) {
+    try {
+      const { model, canPurge } = TRASH_ACCESS[type];
+      const record = await model.findByPk(req.params.id, { paranoid: false });
+      if (!record) {
+        throw new NotFoundError(`${model.name} not found`);
+      }
+      if (!(await canPurge(req.user!, record))) {
+        throw new ForbiddenError(`You do not have access to this ${type}`);
+      }
+      await purgeRecord(record);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
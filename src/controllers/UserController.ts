@@ -1,69 +1,160 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { User } from '../models';
+import { userPolicy } from '../policies';
+import { paginate, SortOptions } from '../utils/pagination';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { buildPatch, buildReplacement, pickWritable, WritableFields } from '../utils/requestBody';
+import { assertIfMatch, checkNotModified, setETag } from '../utils/conditionalRequests';
+import { applyFieldsets, IncludeOptions, parseResponseShape } from '../utils/includes';
+import { restoreRecord, trashRecord } from '../services/trash';
+
+// Attributes clients may sort the list by
+export const USER_SORT: SortOptions = {
+  fields: ['id', 'username', 'email', 'firstName', 'lastName', 'createdAt', 'updatedAt']
+};
+
+// Associations clients may include
+const USER_INCLUDES: IncludeOptions = {
+  allowed: ['tasks', 'tasks.project', 'tasks.tags', 'ownedProjects', 'memberProjects'],
+  defaults: ['tasks']
+};
+
+// Attributes clients may write, only admins may change a role
+export const USER_FIELDS: WritableFields = {
+  create: ['username', 'email', 'password', 'firstName', 'lastName', 'role'],
+  update: ['username', 'email', 'password', 'firstName', 'lastName', 'role'],
+  writeOnly: ['password'],
+  keptOnReplace: ['role']
+};
 
 export class UserController {
-  // List all users
-  async getAllUsers(req: Request, res: Response) {
+  // List all users visible to the caller
+  async getAllUsers(req: Request, res: Response, next: NextFunction) {
     try {
-      const users = await (User as any).findAll({
-        include: ['tasks']
+      const shape = parseResponseShape(User, req.query, USER_INCLUDES);
+      const page = await paginate(User, req, {
+        where: await userPolicy.scope(req.user!),
+        include: shape.include,
+        sort: USER_SORT
       });
-      res.json(users);
+      res.json({ ...page, data: applyFieldsets(page.data, shape.fields) });
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
   // Create a new user
-  async createUser(req: Request, res: Response) {
+  async createUser(req: Request, res: Response, next: NextFunction) {
     try {
-      const user = await (User as any).create(req.body);
+      const user = await (User as any).create(pickWritable(req.body, USER_FIELDS.create));
+      setETag(res, user);
       res.status(201).json(user);
     } catch (error) {
-      res.status(400).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
   // Get a specific user
-  async getUserById(req: Request, res: Response) {
+  async getUserById(req: Request, res: Response, next: NextFunction) {
     try {
+      const shape = parseResponseShape(User, req.query, USER_INCLUDES);
       const user = await (User as any).findByPk(req.params.id, {
-        include: ['tasks']
+        include: shape.include
       });
       if (!user) {
-        return res.status(404).json({ error: 'User not found' });
+        throw new NotFoundError('User not found');
+      }
+      if (!(await userPolicy.can(req.user!, 'read', user))) {
+        throw new ForbiddenError('You do not have access to this user');
       }
+      const body = applyFieldsets(user, shape.fields);
+      if (checkNotModified(req, res, user, body)) {
+        return res.status(304).end();
+      }
+      res.json(body);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Replace a user, every writable attribute left out is reset (the password and role are kept)
+  async updateUser(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = await this.findUpdatableUser(req);
+      await this.saveUser(req, user, buildReplacement(User, req.body, USER_FIELDS));
+      setETag(res, user);
       res.json(user);
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
-  // Update a user
-  async updateUser(req: Request, res: Response) {
+  // Change some attributes of a user with a merge patch or JSON Patch document
+  async patchUser(req: Request, res: Response, next: NextFunction) {
     try {
-      const user = await (User as any).findByPk(req.params.id);
-      if (!user) {
-        return res.status(404).json({ error: 'User not found' });
-      }
-      await user.update(req.body);
+      const user = await this.findUpdatableUser(req);
+      await this.saveUser(req, user, buildPatch(req, user, USER_FIELDS));
+      setETag(res, user);
       res.json(user);
     } catch (error) {
-      res.status(400).json({ error: (error as Error).message });
+      next(error);
     }
   }
 
-  // Delete a user
-  async deleteUser(req: Request, res: Response) {
+  // Move a user, their tasks and the projects they own to the trash
+  async deleteUser(req: Request, res: Response, next: NextFunction) {
     try {
       const user = await (User as any).findByPk(req.params.id);
       if (!user) {
-        return res.status(404).json({ error: 'User not found' });
+        throw new NotFoundError('User not found');
+      }
+      if (!(await userPolicy.can(req.user!, 'delete', user))) {
+        throw new ForbiddenError('You do not have access to this user');
       }
-      await user.destroy();
+      assertIfMatch(req, user);
+      await trashRecord(user);
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
+      next(error);
+    }
+  }
+
+  // Restore a user from the trash, with the tasks and projects deleted together with them
+  async restoreUser(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = await (User as any).findByPk(req.params.id, { paranoid: false });
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+      if (!(await userPolicy.can(req.user!, 'delete', user))) {
+        throw new ForbiddenError('You do not have access to this user');
+      }
+      await restoreRecord(user);
+      setETag(res, user);
+      res.json(user);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Load the user for PUT and PATCH, checking access and If-Match
+  private async findUpdatableUser(req: Request): Promise<User> {
+    const user = await (User as any).findByPk(req.params.id);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (!(await userPolicy.can(req.user!, 'update', user))) {
+      throw new ForbiddenError('You do not have access to this user');
+    }
+    assertIfMatch(req, user);
+    return user;
+  }
+
+  private async saveUser(req: Request, user: User, values: Record<string, any>) {
+    user.set(values);
+    if (user.changed('role') && !req.user!.isAdmin()) {
+      throw new ForbiddenError('Only admins can change roles');
     }
+    await user.save();
   }
 } 
\ No newline at end of file
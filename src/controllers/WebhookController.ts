@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from 'express';
+import { Webhook } from '../models';
+import { paginate, SortOptions } from '../utils/pagination';
+import { NotFoundError } from '../utils/errors';
+import { buildPatch, buildReplacement, pickWritable, WritableFields } from '../utils/requestBody';
+import { assertIfMatch, checkNotModified, setETag } from '../utils/conditionalRequests';
+import { withholdFromReplay } from '../middleware/idempotency';
+
+// Attributes clients may sort the list by
+const WEBHOOK_SORT: SortOptions = {
+  fields: ['id', 'url', 'createdAt', 'updatedAt']
+};
+
+// Attributes clients may write, a secret is generated when none is given
+export const WEBHOOK_FIELDS: WritableFields = {
+  create: ['url', 'events', 'active', 'secret'],
+  update: ['url', 'events', 'active', 'secret'],
+  writeOnly: ['secret']
+};
+
+export class WebhookController {
+  // List all webhooks
+  async getAllWebhooks(req: Request, res: Response, next: NextFunction) {
+    try {
+      res.json(await paginate(Webhook, req, { sort: WEBHOOK_SORT }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create a new webhook, the response is the only one that shows its secret
+  async createWebhook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const webhook = await (Webhook as any).create(pickWritable(req.body, WEBHOOK_FIELDS.create));
+      setETag(res, webhook);
+      withholdFromReplay(res);
+      res.status(201).json(this.withSecret(webhook));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a specific webhook
+  async getWebhookById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const webhook = await this.findWebhook(req);
+      if (checkNotModified(req, res, webhook)) {
+        return res.status(304).end();
+      }
+      res.json(webhook);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Replace a webhook, every writable attribute left out is reset (the secret is kept)
+  async updateWebhook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const webhook = await this.findWebhook(req);
+      assertIfMatch(req, webhook);
+      const secret = webhook.secret;
+      await webhook.update(buildReplacement(Webhook, req.body, WEBHOOK_FIELDS));
+      setETag(res, webhook);
+      res.json(webhook.secret == secret ? webhook : this.withSecret(webhook));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Change some attributes of a webhook, a null secret generates a new one
+  async patchWebhook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const webhook = await this.findWebhook(req);
+      assertIfMatch(req, webhook);
+      const secret = webhook.secret;
+      await webhook.update(buildPatch(req, webhook, WEBHOOK_FIELDS));
+      setETag(res, webhook);
+      res.json(webhook.secret == secret ? webhook : this.withSecret(webhook));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a webhook with its deliveries
+  async deleteWebhook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const webhook = await this.findWebhook(req);
+      assertIfMatch(req, webhook);
+      await webhook.destroy();
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async findWebhook(req: Request): Promise<Webhook> {
+    const webhook = await Webhook.findByPk(req.params.id);
+    if (!webhook) {
+      throw new NotFoundError('Webhook not found');
+    }
+    return webhook;
+  }
+
+  // The webhook with its secret, for the responses that created or changed it
+  private withSecret(webhook: Webhook) {
+    return { ...webhook.toJSON(), secret: webhook.secret };
+  }
+}
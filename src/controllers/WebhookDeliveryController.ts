@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from 'express';
+import { Op } from 'sequelize';
+import { Webhook, WebhookDelivery, WebhookAttempt } from '../models';
+import { DELIVERY_STATUSES } from '../models/WebhookDelivery';
+import { replayDelivery } from '../services/webhookDelivery';
+import { paginate, PAGINATION_PARAMS, SortOptions } from '../utils/pagination';
+import { assertKnownParams, parseEnum } from '../utils/queryParams';
+import { NotFoundError } from '../utils/errors';
+
+// Attributes clients may sort the list by
+const DELIVERY_SORT: SortOptions = {
+  fields: ['id', 'createdAt', 'nextAttemptAt'],
+  defaultSort: '-id'
+};
+
+export class WebhookDeliveryController {
+  // List the deliveries of a webhook, newest first
+  async getDeliveries(req: Request, res: Response, next: NextFunction) {
+    try {
+      // Deliveries are never soft deleted, so withDeleted does not apply
+      assertKnownParams(req.query, ['status', ...PAGINATION_PARAMS.filter(name => name != 'withDeleted')]);
+      const webhook = await this.findWebhook(req);
+      const where = req.query.status === undefined
+        ? { webhookId: webhook.id }
+        : { webhookId: webhook.id, status: { [Op.in]: parseEnum(req.query.status, 'status', DELIVERY_STATUSES) } };
+      res.json(await paginate(WebhookDelivery, req, { where, sort: DELIVERY_SORT }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a delivery with all its attempts
+  async getDeliveryById(req: Request, res: Response, next: NextFunction) {
+    try {
+      res.json(await this.findDelivery(req, true));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Send a failed delivery again
+  async replayDelivery(req: Request, res: Response, next: NextFunction) {
+    try {
+      const delivery = await this.findDelivery(req, false);
+      await replayDelivery(delivery);
+      res.status(202).json(delivery);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async findWebhook(req: Request): Promise<Webhook> {
+    const webhook = await Webhook.findByPk(req.params.id);
+    if (!webhook) {
+      throw new NotFoundError('Webhook not found');
+    }
+    return webhook;
+  }
+
+  private async findDelivery(req: Request, withAttempts: boolean): Promise<WebhookDelivery> {
+    const webhook = await this.findWebhook(req);
+    const delivery = await WebhookDelivery.findOne({
+      where: { id: req.params.deliveryId, webhookId: webhook.id },
+      include: withAttempts ? [{ model: WebhookAttempt, as: 'attempts' }] : [],
+      order: withAttempts ? [[{ model: WebhookAttempt, as: 'attempts' }, 'id', 'ASC']] : []
+    });
+    if (!delivery) {
+      throw new NotFoundError('Delivery not found');
+    }
+    return delivery;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * GraphQL Depth Limit
+ * 
+ * This file contains the validation rule that limits how deeply a query may nest.
+ * It demonstrates:
+ * 1. A custom graphql-js validation rule
+ * 2. Following fragment spreads when measuring a selection
+ * 
+ * Associations point both ways (a task's project has tasks, which have a project...),
+ * so without a limit a short query could load most of the database.
+ */
+
+import { ASTVisitor, GraphQLError, Kind, SelectionSetNode, ValidationContext } from 'graphql';
+
+// Deepest allowed field nesting, e.g. tasks { data { project { tasks { tags { id } } } } } is 6
+export const MAX_QUERY_DEPTH = 8;
+
+/**
+ * Measure the deepest field nesting of a selection set
+ * 
+ * @param context - The validation context, used to look up fragments
+ * @param selectionSet - The selection set
+ * @param fragments - The fragments already followed, cycles are reported by NoFragmentCyclesRule
+ * @returns number - The depth, 1 for a selection of leaf fields
+ */
+function getDepth(context: ValidationContext, selectionSet: SelectionSetNode, fragments: string[]): number {
+  let depth = 0;
+  for (const selection of selectionSet.selections) {
+    if (selection.kind == Kind.FIELD) {
+      depth = Math.max(depth, selection.selectionSet ? 1 + getDepth(context, selection.selectionSet, fragments) : 1);
+    } else if (selection.kind == Kind.INLINE_FRAGMENT) {
+      depth = Math.max(depth, getDepth(context, selection.selectionSet, fragments));
+    } else {
+      const name = selection.name.value;
+      const fragment = context.getFragment(name);
+      if (fragment && !fragments.includes(name))
+        depth = Math.max(depth, getDepth(context, fragment.selectionSet, [...fragments, name]));
+    }
+  }
+
+  return depth;
+}
+
+/**
+ * Build a validation rule rejecting operations nested deeper than the limit
+ * 
+ * @param maxDepth - The deepest allowed nesting
+ * @returns The validation rule
+ */
+export function depthLimit(maxDepth: number = MAX_QUERY_DEPTH) {
+  return (context: ValidationContext): ASTVisitor => ({
+    OperationDefinition(node) {
+      const depth = getDepth(context, node.selectionSet, []);
+      if (depth > maxDepth)
+        context.reportError(new GraphQLError(`Query is nested ${depth} levels deep, the limit is ${maxDepth}`, { nodes: node }));
+    }
+  });
+}
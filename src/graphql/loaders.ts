@@ -0,0 +1,110 @@
+/**
+ * GraphQL Loaders
+ * 
+ * This file batches the association lookups of a GraphQL request.
+ * It demonstrates:
+ * 1. One DataLoader per association, created for every request
+ * 2. Loading an association for many records with a single IN query
+ * 3. Applying the list scopes of the policies to associated tasks and projects
+ * 
+ * Resolving the project and tags of 50 tasks takes one query per association
+ * instead of one per task. The loaders cache by id, so they must not outlive
+ * the request (and the user) they were created for.
+ */
+
+import DataLoader from 'dataloader';
+import { Op, WhereOptions } from 'sequelize';
+import { Project, Tag, Task, User } from '../models';
+import { projectPolicy, taskPolicy } from '../policies';
+
+export type Loaders = ReturnType<typeof createLoaders>;
+
+export interface GraphQLContext {
+  user: User;
+  loaders: Loaders;
+}
+
+/**
+ * Order records by the keys they were requested for
+ */
+function byKey<T>(keys: readonly number[], records: T[], getKey: (record: T) => number): (T | null)[] {
+  const found = new Map(records.map(record => [getKey(record), record]));
+  return keys.map(key => found.get(key) ?? null);
+}
+
+/**
+ * Group records by the keys they were requested for
+ */
+function groupByKey<T>(keys: readonly number[], records: T[], getKey: (record: T) => number): T[][] {
+  const groups = new Map<number, T[]>(keys.map(key => [key, []]));
+  for (const record of records)
+    groups.get(getKey(record))?.push(record);
+
+  return keys.map(key => groups.get(key)!);
+}
+
+/**
+ * Create the loaders of one request
+ * 
+ * Single records (the project of a task, the owner of a project) are returned like
+ * the includes of the REST API. Lists of tasks and projects only contain the records
+ * the user could also list.
+ * 
+ * @param user - The authenticated user
+ * @returns Loaders - The loaders, keyed by association
+ */
+export function createLoaders(user: User) {
+  // The scopes are the same for every batch of the request, so they are looked up once
+  let taskScope: Promise<WhereOptions> | null = null;
+  let projectScope: Promise<WhereOptions> | null = null;
+  const getTaskScope = () => taskScope ??= taskPolicy.scope(user);
+  const getProjectScope = () => projectScope ??= projectPolicy.scope(user);
+
+  const loadTasks = async (field: 'projectId' | 'userId', ids: readonly number[]) => {
+    const tasks = await Task.findAll({
+      where: { [Op.and]: [await getTaskScope(), { [field]: { [Op.in]: [...ids] } }] },
+      order: [['id', 'ASC']]
+    });
+    return groupByKey(ids, tasks, task => task[field]);
+  };
+
+  return {
+    projectById: new DataLoader<number, Project | null>(async ids =>
+      byKey(ids, await Project.findAll({ where: { id: { [Op.in]: [...ids] } } }), project => project.id)),
+
+    userById: new DataLoader<number, User | null>(async ids =>
+      byKey(ids, await User.findAll({ where: { id: { [Op.in]: [...ids] } } }), record => record.id)),
+
+    tagsByTaskId: new DataLoader<number, Tag[]>(async ids => {
+      const tasks = await Task.findAll({
+        attributes: ['id'],
+        where: { id: { [Op.in]: [...ids] } },
+        include: [{ model: Tag, as: 'tags', through: { attributes: [] } }],
+        order: [[{ model: Tag, as: 'tags' }, 'id', 'ASC']]
+      });
+      return byKey(ids, tasks, task => task.id).map(task => task ? (task as any).tags as Tag[] : []);
+    }),
+
+    tasksByProjectId: new DataLoader<number, Task[]>(ids => loadTasks('projectId', ids)),
+
+    tasksByUserId: new DataLoader<number, Task[]>(ids => loadTasks('userId', ids)),
+
+    tasksByTagId: new DataLoader<number, Task[]>(async ids => {
+      const tags = await Tag.findAll({
+        attributes: ['id'],
+        where: { id: { [Op.in]: [...ids] } },
+        include: [{ model: Task, as: 'tasks', where: await getTaskScope(), required: false, through: { attributes: [] } }],
+        order: [[{ model: Task, as: 'tasks' }, 'id', 'ASC']]
+      });
+      return byKey(ids, tags, tag => tag.id).map(tag => tag ? (tag as any).tasks as Task[] : []);
+    }),
+
+    projectsByUserId: new DataLoader<number, Project[]>(async ids => {
+      const projects = await Project.findAll({
+        where: { [Op.and]: [await getProjectScope(), { userId: { [Op.in]: [...ids] } }] },
+        order: [['id', 'ASC']]
+      });
+      return groupByKey(ids, projects, project => project.userId);
+    })
+  };
+}
@@ -0,0 +1,318 @@
+/**
+ * GraphQL Schema
+ * 
+ * This file defines the queries and mutations of the /graphql endpoint.
+ * It demonstrates:
+ * 1. A schema built programmatically with graphql-js
+ * 2. List queries with the same filters, sorting and pagination as the REST API
+ * 3. Mutations that reuse the writable fields, model validations and policies of the controllers
+ * 
+ * List arguments are passed to the same helpers as REST query parameters, so they are
+ * validated with the same rules and error codes. Mutation errors carry the REST error
+ * code and status in their extensions (see GraphQLController).
+ */
+
+import {
+  GraphQLBoolean, GraphQLFieldConfigArgumentMap, GraphQLFieldConfigMap, GraphQLInt, GraphQLList,
+  GraphQLNonNull, GraphQLObjectType, GraphQLSchema, GraphQLString
+} from 'graphql';
+import { Op } from 'sequelize';
+import { Project, Tag, Task, User } from '../models';
+import { projectPolicy, taskPolicy, userPolicy, PolicyAction, assertAssignable } from '../policies';
+import { findPage } from '../utils/pagination';
+import { buildTaskWhere } from '../utils/taskFilters';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { applyMergePatch, pickWritable } from '../utils/requestBody';
+import { TASK_FIELDS, TASK_SORT } from '../controllers/TaskController';
+import { PROJECT_FIELDS, PROJECT_SORT } from '../controllers/ProjectController';
+import { USER_FIELDS, USER_SORT } from '../controllers/UserController';
+import { TAG_FIELDS, TAG_SORT } from '../controllers/TagController';
+import { trashRecord } from '../services/trash';
+import { GraphQLContext } from './loaders';
+import {
+  DateTimeType, ProjectInputTypes, ProjectPageType, ProjectType, TagInputTypes, TagMatchType, TagPageType, TagType,
+  TaskInputTypes, TaskPageType, TaskPriorityType, TaskStatusType, TaskType, UserInputTypes, UserPageType, UserType
+} from './types';
+
+const ids = new GraphQLList(new GraphQLNonNull(GraphQLInt));
+const id = { type: new GraphQLNonNull(GraphQLInt) };
+
+// Arguments of every list query, see findPage
+const PAGE_ARGS: GraphQLFieldConfigArgumentMap = {
+  limit: { type: GraphQLInt },
+  offset: { type: GraphQLInt },
+  cursor: { type: GraphQLString },
+  sort: { type: GraphQLString, description: 'Comma separated fields, - for descending, e.g. "-dueDate,priority"' },
+  withDeleted: { type: GraphQLBoolean }
+};
+
+// The filters of GET /tasks, see buildTaskWhere
+const TASK_FILTER_ARGS: GraphQLFieldConfigArgumentMap = {
+  status: { type: new GraphQLList(new GraphQLNonNull(TaskStatusType)) },
+  priority: { type: new GraphQLList(new GraphQLNonNull(TaskPriorityType)) },
+  userId: { type: ids },
+  projectId: { type: ids },
+  tag: { type: new GraphQLList(new GraphQLNonNull(GraphQLString)), description: 'Tag ids or names' },
+  tagMatch: { type: TagMatchType },
+  dueBefore: { type: DateTimeType },
+  dueAfter: { type: DateTimeType },
+  overdue: { type: GraphQLBoolean },
+  text: { type: GraphQLString }
+};
+
+/**
+ * Turn list arguments into query parameters, as they would be parsed from a query string
+ * 
+ * Arguments that are left out or null are not passed on.
+ */
+function toQuery(args: Record<string, unknown>): Record<string, string | string[]> {
+  const toString = (value: unknown) => value instanceof Date ? value.toISOString() : String(value);
+  const query: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(args)) {
+    if (value == null)
+      continue;
+
+    query[name] = Array.isArray(value) ? value.map(toString) : toString(value);
+  }
+
+  return query;
+}
+
+/**
+ * Load a record and check that the user may perform an action on it
+ */
+async function findRecord<T extends Task | Project | User>(
+  model: typeof Task | typeof Project | typeof User,
+  policy: { can(user: User, action: PolicyAction, record: T): Promise<boolean> },
+  context: GraphQLContext,
+  id: number,
+  action: PolicyAction
+): Promise<T> {
+  const record = await (model as any).findByPk(id);
+  if (!record) {
+    throw new NotFoundError(`${model.name} not found`);
+  }
+  if (!(await policy.can(context.user, action, record))) {
+    throw new ForbiddenError(`You do not have access to this ${model.name.toLowerCase()}`);
+  }
+  return record;
+}
+
+async function findTag(id: number): Promise<Tag> {
+  const tag = await (Tag as any).findByPk(id);
+  if (!tag) {
+    throw new NotFoundError('Tag not found');
+  }
+  return tag;
+}
+
+// Tags are shared by everyone, so only admins may change them
+function assertAdmin(context: GraphQLContext) {
+  if (!context.user.isAdmin()) {
+    throw new ForbiddenError('This action requires the admin role');
+  }
+}
+
+// Moving a task needs the same access to the new project as creating one there,
+// reassigning it needs edit rights on the project
+async function saveTask(context: GraphQLContext, task: Task, values: Record<string, any>): Promise<Task> {
+  task.set(values);
+  if ((task.isNewRecord || task.changed('projectId')) && !(await taskPolicy.can(context.user, 'create', task))) {
+    throw new ForbiddenError('You do not have access to this project');
+  }
+  await assertAssignable(context.user, task);
+  return task.save();
+}
+
+const queryFields: GraphQLFieldConfigMap<unknown, GraphQLContext> = {
+  me: {
+    type: new GraphQLNonNull(UserType),
+    resolve: (source, args, context) => context.user
+  },
+
+  tasks: {
+    type: new GraphQLNonNull(TaskPageType),
+    args: { ...TASK_FILTER_ARGS, ...PAGE_ARGS },
+    resolve: async (source, args, context) => {
+      const query = toQuery(args);
+      const filters = await buildTaskWhere(query);
+      return findPage(Task, query, {
+        where: { [Op.and]: [await taskPolicy.scope(context.user), filters] },
+        sort: TASK_SORT
+      });
+    }
+  },
+
+  task: {
+    type: new GraphQLNonNull(TaskType),
+    args: { id },
+    resolve: (source, args, context) => findRecord(Task, taskPolicy, context, args.id, 'read')
+  },
+
+  projects: {
+    type: new GraphQLNonNull(ProjectPageType),
+    args: PAGE_ARGS,
+    resolve: async (source, args, context) => findPage(Project, toQuery(args), {
+      where: await projectPolicy.scope(context.user),
+      sort: PROJECT_SORT
+    })
+  },
+
+  project: {
+    type: new GraphQLNonNull(ProjectType),
+    args: { id },
+    resolve: (source, args, context) => findRecord(Project, projectPolicy, context, args.id, 'read')
+  },
+
+  users: {
+    type: new GraphQLNonNull(UserPageType),
+    args: PAGE_ARGS,
+    resolve: async (source, args, context) => findPage(User, toQuery(args), {
+      where: await userPolicy.scope(context.user),
+      sort: USER_SORT
+    })
+  },
+
+  user: {
+    type: new GraphQLNonNull(UserType),
+    args: { id },
+    resolve: (source, args, context) => findRecord(User, userPolicy, context, args.id, 'read')
+  },
+
+  tags: {
+    type: new GraphQLNonNull(TagPageType),
+    args: PAGE_ARGS,
+    resolve: (source, args) => findPage(Tag, toQuery(args), { sort: TAG_SORT })
+  },
+
+  tag: {
+    type: new GraphQLNonNull(TagType),
+    args: { id },
+    resolve: (source, args) => findTag(args.id)
+  }
+};
+
+const mutationFields: GraphQLFieldConfigMap<unknown, GraphQLContext> = {
+  // Assigned to the caller unless another user is given
+  createTask: {
+    type: new GraphQLNonNull(TaskType),
+    args: { input: { type: new GraphQLNonNull(TaskInputTypes.create) } },
+    resolve: (source, args, context) => {
+      const values = pickWritable(args.input, TASK_FIELDS.create);
+      return saveTask(context, (Task as any).build({ ...values, userId: values.userId ?? context.user.id }), {});
+    }
+  },
+
+  updateTask: {
+    type: new GraphQLNonNull(TaskType),
+    args: { id, input: { type: new GraphQLNonNull(TaskInputTypes.patch) } },
+    resolve: async (source, args, context) => {
+      const task = await findRecord(Task, taskPolicy, context, args.id, 'update');
+      return saveTask(context, task, applyMergePatch(Task, args.input, TASK_FIELDS));
+    }
+  },
+
+  deleteTask: {
+    type: new GraphQLNonNull(GraphQLBoolean),
+    args: { id },
+    resolve: async (source, args, context) => {
+      const task = await findRecord(Task, taskPolicy, context, args.id, 'delete');
+      await task.destroy();
+      return true;
+    }
+  },
+
+  // Owned by the caller
+  createProject: {
+    type: new GraphQLNonNull(ProjectType),
+    args: { input: { type: new GraphQLNonNull(ProjectInputTypes.create) } },
+    resolve: (source, args, context) =>
+      (Project as any).create({ ...pickWritable(args.input, PROJECT_FIELDS.create), userId: context.user.id })
+  },
+
+  updateProject: {
+    type: new GraphQLNonNull(ProjectType),
+    args: { id, input: { type: new GraphQLNonNull(ProjectInputTypes.patch) } },
+    resolve: async (source, args, context) => {
+      const project = await findRecord(Project, projectPolicy, context, args.id, 'update');
+      return project.update(applyMergePatch(Project, args.input, PROJECT_FIELDS));
+    }
+  },
+
+  // Moves the project and its tasks to the trash
+  deleteProject: {
+    type: new GraphQLNonNull(GraphQLBoolean),
+    args: { id },
+    resolve: async (source, args, context) => {
+      await trashRecord(await findRecord(Project, projectPolicy, context, args.id, 'delete'));
+      return true;
+    }
+  },
+
+  createUser: {
+    type: new GraphQLNonNull(UserType),
+    args: { input: { type: new GraphQLNonNull(UserInputTypes.create) } },
+    resolve: (source, args, context) => {
+      assertAdmin(context);
+      return (User as any).create(pickWritable(args.input, USER_FIELDS.create));
+    }
+  },
+
+  updateUser: {
+    type: new GraphQLNonNull(UserType),
+    args: { id, input: { type: new GraphQLNonNull(UserInputTypes.patch) } },
+    resolve: async (source, args, context) => {
+      const user = await findRecord(User, userPolicy, context, args.id, 'update');
+      user.set(applyMergePatch(User, args.input, USER_FIELDS));
+      if (user.changed('role') && !context.user.isAdmin()) {
+        throw new ForbiddenError('Only admins can change roles');
+      }
+      return user.save();
+    }
+  },
+
+  // Moves the user, their tasks and the projects they own to the trash
+  deleteUser: {
+    type: new GraphQLNonNull(GraphQLBoolean),
+    args: { id },
+    resolve: async (source, args, context) => {
+      await trashRecord(await findRecord(User, userPolicy, context, args.id, 'delete'));
+      return true;
+    }
+  },
+
+  createTag: {
+    type: new GraphQLNonNull(TagType),
+    args: { input: { type: new GraphQLNonNull(TagInputTypes.create) } },
+    resolve: (source, args, context) => {
+      assertAdmin(context);
+      return (Tag as any).create(pickWritable(args.input, TAG_FIELDS.create));
+    }
+  },
+
+  updateTag: {
+    type: new GraphQLNonNull(TagType),
+    args: { id, input: { type: new GraphQLNonNull(TagInputTypes.patch) } },
+    resolve: async (source, args, context) => {
+      assertAdmin(context);
+      const tag = await findTag(args.id);
+      return tag.update(applyMergePatch(Tag, args.input, TAG_FIELDS));
+    }
+  },
+
+  deleteTag: {
+    type: new GraphQLNonNull(GraphQLBoolean),
+    args: { id },
+    resolve: async (source, args, context) => {
+      assertAdmin(context);
+      const tag = await findTag(args.id);
+      await tag.destroy();
+      return true;
+    }
+  }
+};
+
+export const schema = new GraphQLSchema({
+  query: new GraphQLObjectType({ name: 'Query', fields: queryFields }),
+  mutation: new GraphQLObjectType({ name: 'Mutation', fields: mutationFields })
+});
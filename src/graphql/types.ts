@@ -0,0 +1,243 @@
+/**
+ * GraphQL Types
+ * 
+ * This file builds the GraphQL object, enum and input types of the API.
+ * It demonstrates:
+ * 1. Object types generated from the Sequelize attribute definitions
+ * 2. Enums built from the same constants the model validators check against
+ * 3. Association fields resolved through per-request DataLoaders
+ * 4. Input types generated from the writable fields of each controller
+ * 
+ * Like the JSON responses, User never exposes its password.
+ */
+
+import {
+  GraphQLBoolean, GraphQLEnumType, GraphQLError, GraphQLFieldConfigMap, GraphQLFloat, GraphQLInputFieldConfigMap,
+  GraphQLInputObjectType, GraphQLInputType, GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLObjectType,
+  GraphQLOutputType, GraphQLScalarType, GraphQLString, Kind
+} from 'graphql';
+import { Model, ModelAttributeColumnOptions, ModelStatic } from 'sequelize';
+import { Project, Tag, Task, User } from '../models';
+import { TASK_STATUSES, TASK_PRIORITIES } from '../models/Task';
+import { PROJECT_STATUSES } from '../models/Project';
+import { USER_ROLES } from '../models/User';
+import { WritableFields } from '../utils/requestBody';
+import { TASK_FIELDS } from '../controllers/TaskController';
+import { PROJECT_FIELDS } from '../controllers/ProjectController';
+import { USER_FIELDS } from '../controllers/UserController';
+import { TAG_FIELDS } from '../controllers/TagController';
+import { GraphQLContext } from './loaders';
+
+/**
+ * Read a DateTime from a variable or literal
+ */
+function parseDateTime(value: unknown): Date {
+  const date = typeof value == 'string' ? new Date(value) : null;
+  if (date == null || isNaN(date.getTime()))
+    throw new GraphQLError('DateTime must be an ISO 8601 date, e.g. 2026-12-01 or 2026-12-01T12:00:00Z');
+
+  return date;
+}
+
+export const DateTimeType = new GraphQLScalarType({
+  name: 'DateTime',
+  description: 'An ISO 8601 date and time, returned in UTC, e.g. 2026-12-01T12:00:00.000Z',
+  serialize(value) {
+    const date = value instanceof Date ? value : new Date(value as string);
+    if (isNaN(date.getTime()))
+      throw new GraphQLError('DateTime cannot represent an invalid date');
+
+    return date.toISOString();
+  },
+  parseValue: parseDateTime,
+  parseLiteral(ast) {
+    if (ast.kind != Kind.STRING)
+      throw new GraphQLError('DateTime must be a string');
+
+    return parseDateTime(ast.value);
+  }
+});
+
+function buildEnum(name: string, values: string[]): GraphQLEnumType {
+  return new GraphQLEnumType({
+    name,
+    values: Object.fromEntries(values.map(value => [value, { value }]))
+  });
+}
+
+export const TaskStatusType = buildEnum('TaskStatus', TASK_STATUSES);
+export const TaskPriorityType = buildEnum('TaskPriority', TASK_PRIORITIES);
+export const ProjectStatusType = buildEnum('ProjectStatus', PROJECT_STATUSES);
+export const UserRoleType = buildEnum('UserRole', USER_ROLES);
+export const TagMatchType = buildEnum('TagMatch', ['any', 'all']);
+
+// Attributes limited to a set of values by a custom validator, by model name
+const ENUM_ATTRIBUTES: Record<string, Record<string, GraphQLEnumType>> = {
+  Task: { status: TaskStatusType, priority: TaskPriorityType },
+  Project: { status: ProjectStatusType },
+  User: { role: UserRoleType }
+};
+
+/**
+ * Get the GraphQL type of an attribute, without nullability
+ */
+function getAttributeType(model: ModelStatic<Model>, name: string, attribute: ModelAttributeColumnOptions): GraphQLScalarType | GraphQLEnumType {
+  const enumType = ENUM_ATTRIBUTES[model.name]?.[name];
+  if (enumType)
+    return enumType;
+
+  switch ((attribute.type as any).key) {
+    case 'INTEGER':
+    case 'BIGINT':
+      return GraphQLInt;
+    case 'FLOAT':
+    case 'DOUBLE':
+    case 'REAL':
+    case 'DECIMAL':
+      return GraphQLFloat;
+    case 'BOOLEAN':
+      return GraphQLBoolean;
+    case 'DATE':
+    case 'DATEONLY':
+      return DateTimeType;
+    default:
+      return GraphQLString;
+  }
+}
+
+/**
+ * Build the fields of an object type from the attributes of a model
+ * 
+ * @param model - The model
+ * @param writeOnly - Attributes that are never returned
+ * @returns GraphQLFieldConfigMap - One field per attribute, non-null where the column is
+ */
+function buildAttributeFields(model: ModelStatic<Model>, writeOnly: string[] = []): GraphQLFieldConfigMap<Model, GraphQLContext> {
+  const attributes = model.getAttributes() as Record<string, ModelAttributeColumnOptions>;
+  const fields: GraphQLFieldConfigMap<Model, GraphQLContext> = {};
+  for (const [name, attribute] of Object.entries(attributes)) {
+    if (writeOnly.includes(name))
+      continue;
+
+    const type = getAttributeType(model, name, attribute);
+    fields[name] = { type: attribute.allowNull === false || attribute.primaryKey ? new GraphQLNonNull(type) : type };
+  }
+
+  return fields;
+}
+
+/**
+ * Build an input type for a list of writable attributes
+ * 
+ * @param name - The name of the input type
+ * @param model - The model
+ * @param names - The writable attributes
+ * @param required - The attributes that are non-null, as for POST
+ * @returns GraphQLInputObjectType - The input type
+ */
+function buildInputType(name: string, model: ModelStatic<Model>, names: string[], required: string[]): GraphQLInputObjectType {
+  const attributes = model.getAttributes() as Record<string, ModelAttributeColumnOptions>;
+  const fields: GraphQLInputFieldConfigMap = {};
+  for (const field of names) {
+    const attribute = attributes[field];
+    const type: GraphQLInputType = getAttributeType(model, field, attribute);
+    fields[field] = { type: required.includes(field) ? new GraphQLNonNull(type) : type };
+  }
+
+  return new GraphQLInputObjectType({ name, fields });
+}
+
+/**
+ * Build the <Model>CreateInput and <Model>PatchInput types of a model
+ * 
+ * Attributes that are not nullable and have no default are required on create, unless
+ * the mutation fills them in. The patch input follows JSON Merge Patch: left out fields
+ * are kept, null resets a field.
+ * 
+ * @param model - The model
+ * @param fields - The writable fields
+ * @param filledIn - Attributes the create mutation sets when they are left out
+ */
+function buildInputTypes(model: ModelStatic<Model>, fields: WritableFields, filledIn: string[] = []) {
+  const attributes = model.getAttributes() as Record<string, ModelAttributeColumnOptions>;
+  const required = fields.create.filter(name =>
+    attributes[name].allowNull === false && attributes[name].defaultValue === undefined && !filledIn.includes(name));
+
+  return {
+    create: buildInputType(`${model.name}CreateInput`, model, fields.create, required),
+    patch: buildInputType(`${model.name}PatchInput`, model, fields.update, [])
+  };
+}
+
+const list = (type: GraphQLOutputType) => new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type)));
+
+export const TaskType: GraphQLObjectType = new GraphQLObjectType<Task, GraphQLContext>({
+  name: 'Task',
+  fields: () => ({
+    ...buildAttributeFields(Task),
+    isOverdue: { type: new GraphQLNonNull(GraphQLBoolean), resolve: task => task.isOverdue() },
+    project: { type: ProjectType, resolve: (task, args, context) => context.loaders.projectById.load(task.projectId) },
+    user: { type: UserType, resolve: (task, args, context) => context.loaders.userById.load(task.userId) },
+    tags: { type: list(TagType), resolve: (task, args, context) => context.loaders.tagsByTaskId.load(task.id) }
+  })
+});
+
+export const ProjectType: GraphQLObjectType = new GraphQLObjectType<Project, GraphQLContext>({
+  name: 'Project',
+  fields: () => ({
+    ...buildAttributeFields(Project),
+    user: { type: UserType, resolve: (project, args, context) => context.loaders.userById.load(project.userId) },
+    tasks: { type: list(TaskType), resolve: (project, args, context) => context.loaders.tasksByProjectId.load(project.id) }
+  })
+});
+
+export const UserType: GraphQLObjectType = new GraphQLObjectType<User, GraphQLContext>({
+  name: 'User',
+  fields: () => ({
+    ...buildAttributeFields(User, USER_FIELDS.writeOnly),
+    tasks: { type: list(TaskType), resolve: (user, args, context) => context.loaders.tasksByUserId.load(user.id) },
+    ownedProjects: { type: list(ProjectType), resolve: (user, args, context) => context.loaders.projectsByUserId.load(user.id) }
+  })
+});
+
+export const TagType: GraphQLObjectType = new GraphQLObjectType<Tag, GraphQLContext>({
+  name: 'Tag',
+  fields: () => ({
+    ...buildAttributeFields(Tag),
+    tasks: { type: list(TaskType), resolve: (tag, args, context) => context.loaders.tasksByTagId.load(tag.id) }
+  })
+});
+
+export const PageMetaType = new GraphQLObjectType({
+  name: 'PageMeta',
+  fields: {
+    total: { type: new GraphQLNonNull(GraphQLInt) },
+    limit: { type: new GraphQLNonNull(GraphQLInt) },
+    offset: { type: GraphQLInt, description: 'null when the page was requested with a cursor' },
+    sort: { type: new GraphQLNonNull(GraphQLString) },
+    nextCursor: { type: GraphQLString, description: 'Pass as cursor to get the next page, null on the last page' }
+  }
+});
+
+/**
+ * Build the page type of a list query, the same envelope as REST without the links
+ */
+function buildPageType(type: GraphQLObjectType): GraphQLObjectType {
+  return new GraphQLObjectType({
+    name: `${type.name}Page`,
+    fields: {
+      data: { type: list(type) },
+      meta: { type: new GraphQLNonNull(PageMetaType) }
+    }
+  });
+}
+
+export const TaskPageType = buildPageType(TaskType);
+export const ProjectPageType = buildPageType(ProjectType);
+export const UserPageType = buildPageType(UserType);
+export const TagPageType = buildPageType(TagType);
+
+export const TaskInputTypes = buildInputTypes(Task, TASK_FIELDS, ['userId']);
+export const ProjectInputTypes = buildInputTypes(Project, PROJECT_FIELDS);
+export const UserInputTypes = buildInputTypes(User, USER_FIELDS);
+export const TagInputTypes = buildInputTypes(Tag, TAG_FIELDS);
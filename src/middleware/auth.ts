@@ -0,0 +1,116 @@
+/**
+ * Authentication Middleware
+ * 
+ * This file contains the middleware that identifies the caller of a request.
+ * It demonstrates:
+ * 1. Bearer token parsing
+ * 2. Token verification
+ * 3. Attaching the authenticated User to the request
+ * 4. Role checks for individual routes
+ * 5. Making the user known to the audit log (utils/requestContext.ts)
+ * 6. Feed tokens for the calendar feeds, which calendar apps send as a query parameter
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { User, FeedToken } from '../models';
+import { hashFeedToken } from '../models/FeedToken';
+import { UserRole } from '../models/User';
+import { verifyToken } from '../utils/token';
+import { AuthenticationError, ForbiddenError } from '../utils/errors';
+import { runAsActor } from '../utils/requestContext';
+
+/**
+ * Extract the bearer token from the Authorization header
+ * 
+ * @param req - The incoming request
+ * @returns string | null - The token, or null if none was sent
+ */
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header == null)
+    return null;
+
+  const [scheme, token] = header.split(' ');
+  if (scheme.toLowerCase() != 'bearer' || !token)
+    return null;
+
+  return token;
+}
+
+/**
+ * Require a valid access token and attach its User to req.user
+ * 
+ * Fails with 401 when the token is missing, invalid, expired or
+ * belongs to a user that no longer exists.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = getBearerToken(req);
+    if (token == null) {
+      throw new AuthenticationError('Authentication required');
+    }
+
+    const payload = verifyToken(token, 'access');
+    if (payload == null) {
+      throw new AuthenticationError('Invalid or expired token', 'invalid_token');
+    }
+
+    const user = await User.findByPk(payload.sub);
+    if (!user) {
+      throw new AuthenticationError('Invalid or expired token', 'invalid_token');
+    }
+
+    req.user = user;
+    // Run the rest of the request as this user, so the audit log can name them
+    runAsActor(user.id, next);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Require a valid feed token in the token query parameter and attach its User to req.user
+ * 
+ * Used instead of authenticate by the calendar feeds. Fails with 401 when the token is
+ * missing, unknown (e.g. replaced by a newer one) or belongs to a user in the trash.
+ */
+export async function authenticateFeed(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = req.query.token;
+    if (typeof token != 'string' || token == '') {
+      throw new AuthenticationError('A feed token is required');
+    }
+
+    const feedToken = await FeedToken.findOne({ where: { tokenHash: hashFeedToken(token) } });
+    const user = feedToken && await User.findByPk(feedToken.userId);
+    if (!user) {
+      throw new AuthenticationError('Invalid feed token', 'invalid_token');
+    }
+
+    req.user = user;
+    runAsActor(user.id, next);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Require the authenticated user to have one of the given roles
+ * 
+ * Must run after authenticate. Fails with 403 when the role does not match.
+ * 
+ * @param roles - The roles allowed to access the route
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new AuthenticationError('Authentication required'));
+    }
+
+    if (!roles.includes(req.user.role)) {
+      return next(new ForbiddenError(`This action requires the ${roles.join(' or ')} role`));
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Deprecation Middleware
+ * 
+ * This file marks the unversioned /api paths as deprecated aliases of the current API version.
+ * It demonstrates:
+ * 1. Deprecation (RFC 9745) and Sunset (RFC 8594) response headers
+ * 2. Linking each request to its versioned successor
+ */
+
+import { Request, Response, NextFunction } from 'express';
+
+// When the unversioned paths were deprecated
+export const ALIASES_DEPRECATED_AT = new Date('2026-10-19T00:00:00Z');
+
+// When the unversioned paths will be removed, unless API_ALIAS_SUNSET is set
+const DEFAULT_ALIAS_SUNSET = '2027-04-30T00:00:00Z';
+
+// Paths that start with a version, e.g. /v1/tasks
+const VERSIONED_PATH = /^\/v\d+(?:\/|$)/;
+
+/**
+ * Get the date the unversioned paths will be removed
+ * 
+ * @returns Date - API_ALIAS_SUNSET, or the default sunset
+ * @throws Error - When API_ALIAS_SUNSET is not a valid date
+ */
+export function getAliasSunset(): Date {
+  const value = process.env.API_ALIAS_SUNSET || DEFAULT_ALIAS_SUNSET;
+  const sunset = new Date(value);
+  if (isNaN(sunset.getTime()))
+    throw new Error(`API_ALIAS_SUNSET '${value}' is not a valid date`);
+
+  return sunset;
+}
+
+/**
+ * Mark requests to an unversioned path as deprecated
+ * 
+ * Must be mounted where the version would be, e.g. on /api. Versioned paths that no
+ * versioned route matched are passed on as not found, instead of being treated as aliases.
+ * 
+ * @param getVersion - Returns the version the aliases are served by, e.g. v1
+ */
+export function deprecatedAlias(getVersion: () => string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (VERSIONED_PATH.test(req.path)) {
+      return next('router');
+    }
+
+    res.setHeader('Deprecation', `@${Math.floor(ALIASES_DEPRECATED_AT.getTime() / 1000)}`);
+    res.setHeader('Sunset', getAliasSunset().toUTCString());
+    res.setHeader('Link', `<${req.baseUrl}/${getVersion()}${req.url}>; rel="successor-version"`);
+    next();
+  };
+}
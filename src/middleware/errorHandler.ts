@@ -0,0 +1,123 @@
+/**
+ * Error Handling Middleware
+ * 
+ * This file turns every error raised while handling a request into a JSON response.
+ * It demonstrates:
+ * 1. Express error middleware
+ * 2. Mapping Sequelize errors to HTTP statuses
+ * 3. Stable, machine-readable error codes
+ * 4. Correlation ids for unexpected failures
+ * 
+ * Every error response has the same shape:
+ * { "error": "Human readable message", "code": "machine_readable_code", "details": [...] }
+ * details is only present for validation, uniqueness, reference and batch errors.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { ForeignKeyConstraintError, OptimisticLockError, UniqueConstraintError, ValidationError } from 'sequelize';
+import { ApiError, NotFoundError } from '../utils/errors';
+
+export interface ErrorResponseBody {
+  error: string;
+  code: string;
+  details?: Record<string, unknown>[];
+  correlationId?: string;
+}
+
+export interface ErrorResponse {
+  status: number;
+  body: ErrorResponseBody;
+}
+
+/**
+ * Describe an error as a status and response body
+ * 
+ * @param error - Anything thrown or passed to next()
+ * @returns ErrorResponse | null - The response, or null for unexpected errors
+ */
+export function toErrorResponse(error: unknown): ErrorResponse | null {
+  if (error instanceof ApiError) {
+    const body: ErrorResponseBody = { error: error.message, code: error.code };
+    if (error.details)
+      body.details = error.details;
+    return { status: error.status, body };
+  }
+
+  // UniqueConstraintError extends ValidationError, so it has to be checked first
+  if (error instanceof UniqueConstraintError) {
+    return {
+      status: 409,
+      body: {
+        error: 'A record with the same values already exists',
+        code: 'already_exists',
+        details: error.errors.map(item => ({ field: item.path, value: item.value, message: item.message }))
+      }
+    };
+  }
+
+  if (error instanceof ValidationError) {
+    return {
+      status: 422,
+      body: {
+        error: 'Validation failed',
+        code: 'validation_failed',
+        details: error.errors.map(item => ({ field: item.path, rule: item.validatorKey ?? item.type, message: item.message }))
+      }
+    };
+  }
+
+  if (error instanceof ForeignKeyConstraintError) {
+    const fields = Array.isArray(error.fields) ? error.fields : Object.keys(error.fields ?? {});
+    return {
+      status: 422,
+      body: {
+        error: error.fields ? error.message : 'A referenced record does not exist',
+        code: 'invalid_reference',
+        details: fields.map(field => ({ field, table: error.table ?? null, value: error.value ?? null }))
+      }
+    };
+  }
+
+  // Another request saved the record between loading and saving it (version: true)
+  if (error instanceof OptimisticLockError)
+    return { status: 409, body: { error: 'The record was changed by another request, load it again and retry', code: 'edit_conflict' } };
+
+  // Errors raised by express.json() for malformed or oversized bodies
+  const httpError = error as { type?: string; status?: number; expose?: boolean; message?: string };
+  if (httpError && httpError.type == 'entity.parse.failed')
+    return { status: 400, body: { error: 'Request body is not valid JSON', code: 'invalid_json' } };
+
+  if (httpError && httpError.expose && typeof httpError.status == 'number' && httpError.status < 500)
+    return { status: httpError.status, body: { error: httpError.message ?? 'Bad request', code: 'bad_request' } };
+
+  return null;
+}
+
+/**
+ * Answer requests that did not match any route
+ */
+export function notFoundHandler(req: Request, res: Response, next: NextFunction) {
+  next(new NotFoundError(`Route ${req.method} ${req.path} not found`, 'route_not_found'));
+}
+
+/**
+ * Send the response for an error
+ * 
+ * Unexpected errors are logged with a correlation id and answered with 500.
+ * The id is returned in the body and the X-Correlation-Id header, so a report
+ * from a client can be matched with the log, without exposing internal details.
+ */
+export function errorHandler(error: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent)
+    return next(error);
+
+  const response = toErrorResponse(error);
+  if (response)
+    return res.status(response.status).json(response.body);
+
+  const correlationId = randomUUID();
+  console.error(`[${correlationId}] ${req.method} ${req.originalUrl} failed:`, error);
+  res.setHeader('X-Correlation-Id', correlationId);
+  res.status(500).json({ error: 'Internal server error', code: 'internal_error', correlationId });
+}
@@ -0,0 +1,185 @@
+/**
+ * Idempotency Middleware
+ * 
+ * This file makes POST requests safe to retry with an Idempotency-Key header.
+ * It demonstrates:
+ * 1. Reserving a key before the request runs, so concurrent retries are refused
+ * 2. Storing the response and replaying it for a retry with the same key
+ * 3. Refusing a key that is reused for a different request
+ * 4. Keys that expire after a configurable window
+ * 5. Keeping secrets (webhook secrets, feed tokens) out of the stored responses
+ * 
+ * Keys are scoped to the authenticated user, so the middleware has to run after
+ * authenticate. Requests without a user (e.g. login) are passed on untouched.
+ */
+
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { Op, UniqueConstraintError } from 'sequelize';
+import { IdempotencyKey } from '../models';
+import { ApiError, BadRequestError, ConflictError } from '../utils/errors';
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// How long a key is remembered in seconds, unless IDEMPOTENCY_KEY_TTL is set
+const DEFAULT_KEY_TTL = 24 * 60 * 60;
+
+// Response headers stored and replayed with the body
+const STORED_HEADERS = ['content-type', 'location', 'etag'];
+
+/**
+ * Get how long a key is remembered
+ * 
+ * @returns number - IDEMPOTENCY_KEY_TTL in seconds, or 24 hours
+ * @throws Error - When IDEMPOTENCY_KEY_TTL is not a positive number of seconds
+ */
+export function getKeyTtl(): number {
+  const value = process.env.IDEMPOTENCY_KEY_TTL;
+  if (!value)
+    return DEFAULT_KEY_TTL;
+
+  const ttl = Number(value);
+  if (!Number.isInteger(ttl) || ttl <= 0)
+    throw new Error(`IDEMPOTENCY_KEY_TTL '${value}' is not a positive number of seconds`);
+
+  return ttl;
+}
+
+/**
+ * Keep the body of a response out of the idempotency store
+ * 
+ * For responses that show a secret once. Only the status and the Location and ETag
+ * headers are stored, so a retry learns that the request succeeded and where the
+ * record is, but not the secret.
+ * 
+ * @param res - The response, before it is sent
+ */
+export function withholdFromReplay(res: Response): void {
+  res.locals.withholdFromReplay = true;
+}
+
+/**
+ * Hash what identifies a request, so a reused key can be told apart from a retry
+ * 
+ * @param req - The request
+ * @returns string - SHA-256 of the method, path, query and body
+ */
+function hashRequest(req: Request): string {
+  return createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${JSON.stringify(req.query)}\n${JSON.stringify(req.body ?? null)}`)
+    .digest('hex');
+}
+
+/**
+ * Answer a request whose key is already stored
+ * 
+ * @throws ApiError - 422 when the key was used for a different request, 409 while the first request is running
+ */
+function replayResponse(record: IdempotencyKey, requestHash: string, res: Response): void {
+  if (record.requestHash != requestHash) {
+    throw new ApiError(422, 'idempotency_key_reused', 'This Idempotency-Key was already used for a different request');
+  }
+  if (!record.isCompleted()) {
+    throw new ConflictError('A request with this Idempotency-Key is still running', 'idempotency_key_in_use');
+  }
+
+  for (const [name, value] of Object.entries(record.headers ?? {}))
+    res.setHeader(name, value);
+  res.setHeader('Idempotent-Replayed', 'true');
+  res.status(record.status!);
+  if (record.body == null)
+    res.end();
+  else
+    res.send(record.body);
+}
+
+/**
+ * Store the response of a request in its reserved key
+ * 
+ * The response is stored as soon as it is sent, so it is kept even when the client
+ * disconnects before receiving it. Server errors release the key instead, so the
+ * request can be retried, and so does a response that ends without res.send.
+ */
+function storeResponse(record: IdempotencyKey, res: Response): void {
+  let handled = false;
+  const release = () => record.destroy()
+    .catch(error => console.error(`Could not release Idempotency-Key ${record.key}:`, error));
+
+  const send = res.send.bind(res);
+  res.send = (body?: any) => {
+    const result = send(body);
+
+    // Objects are sent again as JSON text, which is stored instead
+    if (handled || (body != null && typeof body == 'object' && !Buffer.isBuffer(body)))
+      return result;
+
+    handled = true;
+    if (res.statusCode >= 500) {
+      release();
+      return result;
+    }
+
+    const withheld = res.locals.withholdFromReplay == true;
+    const names = STORED_HEADERS.filter(name => res.hasHeader(name) && !(withheld && name == 'content-type'));
+    record.update({
+      status: res.statusCode,
+      headers: Object.fromEntries(names.map(name => [name, String(res.getHeader(name))])),
+      body: body == null || withheld ? null : String(body)
+    }).catch(error => console.error(`Could not store the response for Idempotency-Key ${record.key}:`, error));
+    return result;
+  };
+
+  // Finished or aborted without a response to store, e.g. a handler that only called res.end
+  res.on('close', () => {
+    if (!handled) {
+      handled = true;
+      release();
+    }
+  });
+}
+
+/**
+ * Make POST requests with an Idempotency-Key header safe to retry
+ * 
+ * The first request with a key runs normally and its response is stored. A retry with
+ * the same key and the same request gets the stored response with an
+ * Idempotent-Replayed: true header, until the key expires.
+ */
+export async function idempotency(req: Request, res: Response, next: NextFunction) {
+  const key = req.get('Idempotency-Key');
+  if (req.method != 'POST' || key == null || req.user == null) {
+    return next();
+  }
+
+  try {
+    if (key.length == 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new BadRequestError(`Idempotency-Key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`, 'invalid_idempotency_key');
+    }
+
+    const scope = `user:${req.user.id}`;
+    const requestHash = hashRequest(req);
+    const now = new Date();
+    await IdempotencyKey.destroy({ where: { expiresAt: { [Op.lte]: now } } });
+
+    let record: IdempotencyKey;
+    try {
+      record = await IdempotencyKey.create({ key, scope, requestHash, expiresAt: new Date(now.getTime() + getKeyTtl() * 1000) });
+    } catch (error) {
+      if (!(error instanceof UniqueConstraintError)) {
+        throw error;
+      }
+
+      const existing = await IdempotencyKey.findOne({ where: { scope, key } });
+      if (existing == null) {
+        // Released by a failed request in the meantime
+        throw new ConflictError('A request with this Idempotency-Key is still running', 'idempotency_key_in_use');
+      }
+      return replayResponse(existing, requestHash, res);
+    }
+
+    storeResponse(record, res);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * AuditLog Model
+ * 
+ * This model records one change to a task, project, user, tag, project membership or webhook.
+ * It demonstrates:
+ * 1. Sequelize model definition with validations
+ * 2. JSON columns
+ * 3. Append-only records (no updatedAt)
+ * 
+ * Entries are written by the hooks in services/auditLog.ts and are never changed.
+ * They keep no foreign keys, so they outlive the records and users they mention.
+ */
+
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+// The same values, for validating and documenting the action
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'restore', 'purge'];
+
+// Changed attributes with their values before and after the change
+export type AuditChanges = Record<string, { before: unknown, after: unknown }>;
+
+/**
+ * AuditLog Model Class
+ * 
+ * Extends Sequelize's Model class to create an AuditLog model with:
+ * - Type-safe attributes
+ * - Validations
+ */
+export class AuditLog extends Model {
+  // Basic properties
+  public id!: number;
+  public modelName!: string;
+  public recordId!: number;
+  public action!: AuditAction;
+  // The user who made the change, null for changes made outside a request (e.g. the seeder)
+  public actorId!: number | null;
+  public changes!: AuditChanges;
+  public readonly createdAt!: Date;
+}
+
+// Initialize the AuditLog model with Sequelize
+AuditLog.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    modelName: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    recordId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    action: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate:
+      {
+        ValidateAction(value: any)
+        {
+          if(AUDIT_ACTIONS.includes(value) == false)
+            throw new Error("Action had unexpected value. Look to AuditAction for correct values");
+        }
+      }
+    },
+    actorId: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    changes: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: {}
+    },
+
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  },
+  {
+    sequelize,
+    tableName: 'audit_logs',
+    modelName: 'AuditLog',
+    timestamps: true,
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['modelName', 'recordId'],
+      },
+      {
+        fields: ['actorId'],
+      },
+      {
+        fields: ['createdAt'],
+      }
+    ],
+  }
+);
@@ -0,0 +1,104 @@
+/**
+ * FeedToken Model
+ * 
+ * This model stores the token a user's calendar app sends to read the iCalendar feeds.
+ * It demonstrates:
+ * 1. Sequelize model definition with validations
+ * 2. Storing only a hash of a secret
+ * 3. Database relationships (belongsTo)
+ * 
+ * Calendar apps cannot send a bearer token, so the feeds take the token as a query
+ * parameter. A user has at most one token, and creating a new one replaces it.
+ */
+
+import { Model, DataTypes } from 'sequelize';
+import { createHash, randomBytes } from 'crypto';
+import sequelize from '../config/database';
+
+/**
+ * Generate a new feed token
+ * 
+ * @returns string - 32 random bytes, base64url encoded
+ */
+export function generateFeedToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hash a feed token, only the hash is stored
+ * 
+ * @param token - The token sent by the calendar app
+ * @returns string - SHA-256 of the token, hex encoded
+ */
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * FeedToken Model Class
+ * 
+ * Extends Sequelize's Model class to create a FeedToken model with:
+ * - Type-safe attributes
+ * - Validations
+ */
+export class FeedToken extends Model {
+  // Basic properties
+  public id!: number;
+  public userId!: number;
+  public tokenHash!: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// Initialize the FeedToken model with Sequelize
+FeedToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      validate: {
+        is: /^[0-9a-f]{64}$/ // A SHA-256 hex digest
+      }
+    },
+
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  },
+  {
+    sequelize,
+    tableName: 'feed_tokens',
+    modelName: 'FeedToken',
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['userId'], // One token per user
+      },
+      {
+        unique: true,
+        fields: ['tokenHash'],
+      }
+    ],
+  }
+);
@@ -0,0 +1,112 @@
+/**
+ * IdempotencyKey Model
+ * 
+ * This model stores the Idempotency-Key of a POST request together with its response.
+ * It demonstrates:
+ * 1. Sequelize model definition with validations
+ * 2. Composite unique indexes
+ * 3. Records that expire
+ * 
+ * A key is reserved (status null) when its request starts and gets the response once
+ * the request has finished, so a retry with the same key can be answered with it.
+ */
+
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+
+/**
+ * IdempotencyKey Model Class
+ * 
+ * Extends Sequelize's Model class to create an IdempotencyKey model with:
+ * - Type-safe attributes
+ * - Validations
+ */
+export class IdempotencyKey extends Model {
+  // Basic properties
+  public id!: number;
+  public key!: string;
+  // Who sent the key, e.g. user:3, keys of different users never collide
+  public scope!: string;
+  public requestHash!: string;
+  // The response, null while the request is running
+  public status!: number | null;
+  public headers!: Record<string, string> | null;
+  public body!: string | null;
+  public expiresAt!: Date;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Whether the response has been stored
+  public isCompleted(): boolean
+  {
+    return this.status != null;
+  }
+}
+
+// Initialize the IdempotencyKey model with Sequelize
+IdempotencyKey.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    key: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        len: [1, 255] // Key must be between 1 and 255 characters
+      }
+    },
+    scope: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    requestHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false
+    },
+    status: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    headers: {
+      type: DataTypes.JSON,
+      allowNull: true
+    },
+    body: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  },
+  {
+    sequelize,
+    tableName: 'idempotency_keys',
+    modelName: 'IdempotencyKey',
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['scope', 'key'], // A key can only be used once per caller
+      },
+      {
+        fields: ['expiresAt'],
+      }
+    ],
+  }
+);
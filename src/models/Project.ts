@@ -8,6 +8,7 @@
  * 3. Instance methods for business logic
  * 4. Database relationships (belongsTo, hasMany)
  * 5. Custom validations and hooks
+ * 6. Soft deletes (paranoid), see services/trash.ts
  */
 
 import { Model, DataTypes } from 'sequelize';
@@ -18,6 +19,9 @@ import sequelize from '../config/database';
 // Keep the simple enum type
 export type ProjectStatus = 'active' | 'completed' | 'on_hold' | 'cancelled';
 
+// The same values in their natural order, for sorting and validating queries
+export const PROJECT_STATUSES: ProjectStatus[] = ['active', 'on_hold', 'completed', 'cancelled'];
+
 
 /**
  * Project Model Class
@@ -39,10 +43,14 @@ export class Project extends Model {
   public userId!: number;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
+  public readonly version!: number;
+  // Set when the record is in the trash
+  public readonly deletedAt!: Date | null;
 
   // Simple association methods
   public getUser!: () => Promise<User>;
   public getTasks!: () => Promise<Task[]>;
+  public getMembers!: () => Promise<User[]>;
 
   /**
    * Calculate the project's progress based on its tasks
@@ -142,6 +150,10 @@ Project.init(
       type: DataTypes.DATE,
       allowNull: false,
       defaultValue: DataTypes.NOW
+    },
+    deletedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
     }
   },
   {
@@ -149,6 +161,8 @@ Project.init(
     tableName: 'projects',
     modelName: 'Project',
     timestamps: true, // Adds createdAt and updatedAt fields
+    version: true, // Adds a version field, incremented on every update (optimistic locking)
+    paranoid: true, // destroy() sets deletedAt instead of removing the row, until it is purged
     indexes: [
       {
         fields: ['userId'], // Index for faster user-based queries
@@ -0,0 +1,108 @@
+/**
+ * ProjectMember Model
+ * 
+ * This model represents a user's membership in a project.
+ * It demonstrates:
+ * 1. A join model with its own attributes
+ * 2. Sequelize model definition with validations
+ * 3. Composite unique indexes
+ * 
+ * The user in Project.userId is always the project's owner and does not need
+ * a membership row. Memberships share the project with other users:
+ * - owner: manages the project, its members and its tasks
+ * - editor: manages the project's tasks
+ * - viewer: reads the project and its tasks
+ */
+
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+
+export type ProjectRole = 'owner' | 'editor' | 'viewer';
+
+// The same values, for validating and documenting the role
+export const PROJECT_ROLES: ProjectRole[] = ['owner', 'editor', 'viewer'];
+
+
+/**
+ * ProjectMember Model Class
+ * 
+ * Extends Sequelize's Model class to create a ProjectMember model with:
+ * - Type-safe attributes
+ * - Validations
+ * - Database relationships
+ */
+export class ProjectMember extends Model {
+  // Basic properties
+  public id!: number;
+  public projectId!: number;
+  public userId!: number;
+  public role!: ProjectRole;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// Initialize the ProjectMember model with Sequelize
+ProjectMember.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    projectId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'projects',
+        key: 'id'
+      }
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    role: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'viewer',
+      validate:
+      {
+        ValidateRole(value: any)
+        {
+          if(value != "owner" && value != "editor" && value != "viewer")
+            throw new Error("Role had unexpected value. Look to ProjectRole for correct values");
+        }
+      }
+    },
+
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  },
+  {
+    sequelize,
+    tableName: 'project_members',
+    modelName: 'ProjectMember',
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['projectId', 'userId'], // A user can only be a member of a project once
+      },
+      {
+        fields: ['userId'],
+      }
+    ],
+  }
+);
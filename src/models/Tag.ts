@@ -14,6 +14,8 @@ import { Model, DataTypes } from 'sequelize';
 import { Task } from './Task';
 import sequelize from '../config/database';
 
+// Colors are #rgb or #rrggbb hex codes
+export const HEX_COLOR_PATTERN = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
 
 /**
  * Tag Model Class
@@ -31,6 +33,9 @@ export class Tag extends Model {
   public color!: string;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
+  public readonly version!: number;
+  // Set when the record is in the trash
+  public readonly deletedAt!: Date | null;
 
   // Association mixins
   public getTasks!: () => Promise<Task[]>;
@@ -68,7 +73,7 @@ Tag.init(
           if(value == null)
             throw new Error("Color is null");
 
-          if((/^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/).test(value) == false)
+          if(HEX_COLOR_PATTERN.test(value) == false)
             throw new Error("Color is not a valid hex code")
         }
       }
@@ -83,6 +88,10 @@ Tag.init(
       type: DataTypes.DATE,
       allowNull: false,
       defaultValue: DataTypes.NOW
+    },
+    deletedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
     }
   },
   {
@@ -90,6 +99,8 @@ Tag.init(
     tableName: 'tags',
     modelName: 'Tag',
     timestamps: true,
+    version: true,
+    paranoid: true,
     indexes: [
       {
         unique: true,
@@ -20,6 +20,10 @@ import sequelize from '../config/database';
 export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
 export type TaskPriority = 'low' | 'medium' | 'high';
 
+// The same values in their natural order, for sorting and validating queries
+export const TASK_STATUSES: TaskStatus[] = ['pending', 'in_progress', 'completed', 'cancelled'];
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high'];
+
 /**
  * Task Model Class
  * 
@@ -41,13 +45,17 @@ export class Task extends Model {
   public projectId!: number;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
+  public readonly version!: number;
+  // Set when the record is in the trash
+  public readonly deletedAt!: Date | null;
 
   // Simple association methods
   public getUser!: () => Promise<User>;
   public getProject!: () => Promise<Project>;
-  public getTags!: () => Promise<Tag[]>;
-  public addTags!: (tags: any | any[]) => Promise<void>;
-  public removeTags!: (tags: any | any[]) => Promise<void>;
+  public getTags!: (options?: any) => Promise<Tag[]>;
+  public addTags!: (tags: any | any[], options?: any) => Promise<void>;
+  public removeTags!: (tags: any | any[], options?: any) => Promise<void>;
+  public setTags!: (tags: any | any[], options?: any) => Promise<void>;
 
   /**
    * Check if the task is overdue
@@ -174,6 +182,10 @@ Task.init(
       type: DataTypes.DATE,
       allowNull: false,
       defaultValue: DataTypes.NOW
+    },
+    deletedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
     }
   },
   {
@@ -181,6 +193,8 @@ Task.init(
     tableName: 'tasks',
     modelName: 'Task',
     timestamps: true,
+    version: true,
+    paranoid: true,
     indexes: [
       {
         fields: ['userId'],
@@ -10,11 +10,18 @@
  * 5. Email format validation
  */
 
-import { Model, DataTypes } from 'sequelize';
+import { Model, DataTypes, Op } from 'sequelize';
 import { Task } from './Task';
 import { Project, ProjectStatus } from './Project';
+import { ProjectMember } from './ProjectMember';
 import sequelize from '../config/database';
+import { hashPassword, verifyPassword } from '../utils/password';
 
+// Admins can manage every record, members only manage their own
+export type UserRole = 'admin' | 'member';
+
+// The same values, for validating and documenting the role
+export const USER_ROLES: UserRole[] = ['admin', 'member'];
 
 
 /**
@@ -34,12 +41,16 @@ export class User extends Model {
   public password!: string;
   public firstName!: string;
   public lastName!: string;
+  public role!: UserRole;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
+  public readonly version!: number;
+  // Set when the record is in the trash
+  public readonly deletedAt!: Date | null;
 
   // Simple association types
   public getTasks!: () => Promise<any[]>;
-  public getProjects!: () => Promise<any[]>;
+  public getOwnedProjects!: () => Promise<Project[]>;
 
   /**
    * Get the user's full name
@@ -50,6 +61,15 @@ export class User extends Model {
     return this.firstName + " " + this.lastName;
   }
 
+  /**
+   * Check whether the user has the admin role
+   * 
+   * @returns boolean - true if the user is an admin
+   */
+  public isAdmin(): boolean {
+    return this.role == 'admin';
+  }
+
   /**
    * Get the user's task completion rate
    * 
@@ -71,19 +91,85 @@ export class User extends Model {
   }
 
   /**
-   * Get the user's active projects count
+   * Get the projects the user owns or is a member of
+   * 
+   * @param status - Only return projects with this status
+   * @returns Promise<Project[]> - The user's projects
+   */
+  public async getProjects(status?: ProjectStatus): Promise<Project[]>
+  {
+    const memberships = await ProjectMember.findAll({attributes: ['projectId'], where: {userId: this.id}});
+    const memberProjectIds = memberships.map(membership => membership.projectId);
+
+    const where: any = {[Op.or]: [{userId: this.id}, {id: {[Op.in]: memberProjectIds}}]};
+    if(status != null)
+      where.status = status;
+
+    return Project.findAll({where});
+  }
+
+  /**
+   * Get the user's active projects count, including projects they are a member of
    * 
    * @returns Promise<number> - Number of active projects
    */
   public async getActiveProjectsCount(): Promise<number> 
   {
-    const allProjects = await Project.findAll({where: {userId: this.id, status: 'active'}});
-    return allProjects.length;
+    const activeProjects = await this.getProjects('active');
+    return activeProjects.length;
   }
 
+  /**
+   * Check a plaintext password against the stored hash
+   * 
+   * The instance must have been loaded with the password attribute
+   * (e.g. through the 'withPassword' scope), as the default scope omits it.
+   * 
+   * @param password - The plaintext password to check
+   * @returns Promise<boolean> - true if the password matches
+   */
+  public async verifyPassword(password: string): Promise<boolean> {
+    const hash = this.getDataValue('password');
+    if (hash == null)
+      return false;
+
+    return verifyPassword(password, hash);
+  }
+
+  /**
+   * Serialize the user without the password hash
+   * 
+   * @returns object - The user's attributes minus the password
+   */
+  public toJSON(): object {
+    const values = { ...this.get() } as any;
+    delete values.password;
+    return values;
+  }
 
 }
 
+// The hash each user's password was replaced with by hashUserPassword
+const passwordHashes = new WeakMap<User, string>();
+
+/**
+ * Replace a changed plaintext password with its salted hash
+ * 
+ * The hash is remembered, so ValidatePassword can skip it when Sequelize
+ * re-validates the fields changed by the hook.
+ * 
+ * @param user - The user being saved
+ */
+async function hashUserPassword(user: User): Promise<void> {
+  const password = user.getDataValue('password');
+  if (password == null || (user.isNewRecord == false && user.changed('password') == false))
+    return;
+
+  const hash = await hashPassword(password);
+  passwordHashes.set(user, hash);
+  user.setDataValue('password', hash);
+}
+
 // Initialize the User model with Sequelize
 User.init(
   {
@@ -132,8 +218,12 @@ User.init(
       validate:
       {
         len:[8, 100],
-        ValidatePassword(value: any)
+        ValidatePassword(this: User, value: any)
         {
+          // Sequelize re-validates fields changed by the hashing hook, the plaintext was already checked
+          if(passwordHashes.get(this) == value)
+            return;
+
           if((/^(?=.*[A-Z])/).test(value) == false)
             throw new Error("Password does not contain at least one uppercase letter");
           
@@ -176,7 +266,20 @@ User.init(
               throw new Error("lastName should not contain any special characters");
         }
       }
-    },   
+    },
+    role: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'member',
+      validate:
+      {
+        ValidateRole(value: any)
+        {
+          if(value != "admin" && value != "member")
+            throw new Error("Role had unexpected value. Look to UserRole for correct values");
+        }
+      }
+    },
     
     createdAt: {
       type: DataTypes.DATE,
@@ -187,6 +290,10 @@ User.init(
       type: DataTypes.DATE,
       allowNull: false,
       defaultValue: DataTypes.NOW
+    },
+    deletedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
     }
   },
   {
@@ -194,6 +301,8 @@ User.init(
     tableName: 'users',
     modelName: 'User',
     timestamps: true,
+    version: true,
+    paranoid: true,
     indexes: [
       {
         unique: true,
@@ -204,10 +313,26 @@ User.init(
         fields: ['email']
       }
     ],
+    // Never select the password hash unless it is explicitly asked for
+    defaultScope: {
+      attributes: { exclude: ['password'] }
+    },
+    scopes: {
+      withPassword: {
+        attributes: { include: ['password'] }
+      }
+    },
+    // Validation runs against the plaintext first, the hash is only stored afterwards
     hooks: {
-    
+      async beforeCreate(user: User) {
+        await hashUserPassword(user);
+      },
+      async beforeUpdate(user: User) {
+        await hashUserPassword(user);
+      },
+      async beforeBulkCreate(users: User[]) {
+        await Promise.all(users.map(hashUserPassword));
+      }
     },
-    
-   
   }
 ); 
\ No newline at end of file
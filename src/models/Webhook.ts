@@ -0,0 +1,162 @@
+/**
+ * Webhook Model
+ * 
+ * This model represents a subscription of an external URL to task and project events.
+ * It demonstrates:
+ * 1. Sequelize model definition with validations
+ * 2. JSON columns validated against a list of values
+ * 3. Generated secrets that are never returned
+ * 4. Database relationships (hasMany)
+ * 
+ * Matching events are queued as WebhookDelivery records and sent by services/webhookDelivery.ts.
+ */
+
+import { Model, DataTypes } from 'sequelize';
+import { randomBytes } from 'crypto';
+import sequelize from '../config/database';
+
+export type WebhookEvent =
+  'task.created' | 'task.completed' | 'task.reassigned' | 'task.deleted' |
+  'project.created' | 'project.completed' | 'project.deleted';
+
+// The same values, for validating and documenting the events
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'task.created', 'task.completed', 'task.reassigned', 'task.deleted',
+  'project.created', 'project.completed', 'project.deleted'
+];
+
+/**
+ * Generate a secret for signing the deliveries of a webhook
+ * 
+ * @returns string - 32 random bytes, hex encoded
+ */
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Webhook Model Class
+ * 
+ * Extends Sequelize's Model class to create a Webhook model with:
+ * - Type-safe attributes
+ * - Validations
+ * - Instance methods
+ */
+export class Webhook extends Model {
+  // Basic properties
+  public id!: number;
+  public url!: string;
+  public events!: WebhookEvent[];
+  // Key of the HMAC signature sent with every delivery
+  public secret!: string;
+  // Inactive webhooks get no new deliveries, and their pending deliveries wait
+  public active!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+  public readonly version!: number;
+
+  /**
+   * Check whether the webhook wants an event
+   * 
+   * @param event - The event that happened
+   * @returns boolean - true if the webhook is active and subscribed to the event
+   */
+  public isSubscribed(event: WebhookEvent): boolean
+  {
+    return this.active == true && this.events.includes(event);
+  }
+
+  /**
+   * Serialize the webhook without its secret
+   * 
+   * @returns object - The webhook's attributes minus the secret
+   */
+  public toJSON(): object {
+    const values = { ...this.get() } as any;
+    delete values.secret;
+    return values;
+  }
+
+}
+
+// Initialize the Webhook model with Sequelize
+Webhook.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    url: {
+      type: DataTypes.STRING(2048),
+      allowNull: false,
+      validate:
+      {
+        ValidateUrl(value: any)
+        {
+          let url: URL;
+          try
+          {
+            url = new URL(value);
+          }
+          catch
+          {
+            throw new Error("Url is not a valid URL");
+          }
+
+          if(url.protocol != 'http:' && url.protocol != 'https:')
+            throw new Error("Url must use http or https");
+        }
+      }
+    },
+    events: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      validate:
+      {
+        ValidateEvents(value: any)
+        {
+          if(Array.isArray(value) == false || value.length == 0)
+            throw new Error("Events must be a non-empty array");
+
+          for(const event of value)
+          {
+            if(WEBHOOK_EVENTS.includes(event) == false)
+              throw new Error("Events had unexpected value. Look to WebhookEvent for correct values");
+          }
+        }
+      }
+    },
+    secret: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: generateWebhookSecret,
+      validate: {
+        len: [16, 255] // Short secrets are easy to guess
+      }
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    },
+
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  },
+  {
+    sequelize,
+    tableName: 'webhooks',
+    modelName: 'Webhook',
+    timestamps: true,
+    version: true,
+  }
+);
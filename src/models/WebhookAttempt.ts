@@ -0,0 +1,80 @@
+/**
+ * WebhookAttempt Model
+ * 
+ * This model records one attempt to send a webhook delivery.
+ * It demonstrates:
+ * 1. Sequelize model definition
+ * 2. Append-only records (no updatedAt)
+ * 3. Database relationships (belongsTo)
+ */
+
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+
+/**
+ * WebhookAttempt Model Class
+ * 
+ * Extends Sequelize's Model class to create a WebhookAttempt model with:
+ * - Type-safe attributes
+ * - Database relationships
+ */
+export class WebhookAttempt extends Model {
+  // Basic properties
+  public id!: number;
+  public deliveryId!: number;
+  // The response status, null when no response arrived (e.g. a timeout)
+  public statusCode!: number | null;
+  public latencyMs!: number;
+  // Why the attempt failed without a response
+  public error!: string | null;
+  public readonly createdAt!: Date;
+}
+
+// Initialize the WebhookAttempt model with Sequelize
+WebhookAttempt.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    deliveryId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'webhook_deliveries',
+        key: 'id'
+      }
+    },
+    statusCode: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    latencyMs: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    error: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  },
+  {
+    sequelize,
+    tableName: 'webhook_attempts',
+    modelName: 'WebhookAttempt',
+    timestamps: true,
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['deliveryId'],
+      }
+    ],
+  }
+);
@@ -0,0 +1,124 @@
+/**
+ * WebhookDelivery Model
+ * 
+ * This model is one event queued for sending to a webhook.
+ * It demonstrates:
+ * 1. Sequelize model definition with validations
+ * 2. A persisted queue, polled by nextAttemptAt
+ * 3. Database relationships (belongsTo, hasMany)
+ * 
+ * A delivery stays pending until its URL answers with a 2xx status, or fails once it
+ * has used all its attempts. Every attempt is recorded as a WebhookAttempt.
+ */
+
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { WebhookEvent } from './Webhook';
+
+export type DeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// The same values, for validating and documenting the status
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+
+/**
+ * WebhookDelivery Model Class
+ * 
+ * Extends Sequelize's Model class to create a WebhookDelivery model with:
+ * - Type-safe attributes
+ * - Validations
+ * - Database relationships
+ */
+export class WebhookDelivery extends Model {
+  // Basic properties
+  public id!: number;
+  public webhookId!: number;
+  public event!: WebhookEvent;
+  // The JSON body sent to the webhook
+  public payload!: Record<string, unknown>;
+  public status!: DeliveryStatus;
+  public attemptCount!: number;
+  // When the next attempt is due, null once the delivery has succeeded or failed
+  public nextAttemptAt!: Date | null;
+  public deliveredAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// Initialize the WebhookDelivery model with Sequelize
+WebhookDelivery.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    webhookId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'webhooks',
+        key: 'id'
+      }
+    },
+    event: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    payload: {
+      type: DataTypes.JSON,
+      allowNull: false
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'pending',
+      validate:
+      {
+        ValidateStatus(value: any)
+        {
+          if(DELIVERY_STATUSES.includes(value) == false)
+            throw new Error("Status had unexpected value. Look to DeliveryStatus for correct values");
+        }
+      }
+    },
+    attemptCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    nextAttemptAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      defaultValue: DataTypes.NOW
+    },
+    deliveredAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  },
+  {
+    sequelize,
+    tableName: 'webhook_deliveries',
+    modelName: 'WebhookDelivery',
+    timestamps: true,
+    indexes: [
+      {
+        fields: ['status', 'nextAttemptAt'], // Index for finding the deliveries that are due
+      },
+      {
+        fields: ['webhookId'],
+      }
+    ],
+  }
+);
@@ -12,13 +12,25 @@ import { User } from './User';
 import { Task } from './Task';
 import { Project } from './Project';
 import { Tag } from './Tag';
+import { ProjectMember } from './ProjectMember';
+import { IdempotencyKey } from './IdempotencyKey';
+import { AuditLog } from './AuditLog';
+import { Webhook } from './Webhook';
+import { WebhookDelivery } from './WebhookDelivery';
+import { WebhookAttempt } from './WebhookAttempt';
+import { FeedToken } from './FeedToken';
 import sequelize from '../config/database';
+import { registerSearchHooks } from '../services/searchIndex';
+import { registerAuditHooks } from '../services/auditLog';
+import { registerWebhookHooks } from '../services/webhooks';
+import { registerChangeHooks } from '../services/changeStream';
+import { assertReferencesExist } from '../utils/references';
 
 // Set up basic associations between models
 User.hasMany(Task, { 
   as: 'tasks',
   foreignKey: 'userId',
-  onDelete: 'CASCADE', // When a user is deleted, delete all their tasks
+  onDelete: 'CASCADE', // When a user is purged, delete all their tasks (soft deletes cascade in services/trash.ts)
 });
 
 Task.belongsTo(User, { 
@@ -29,7 +41,7 @@ Task.belongsTo(User, {
 Project.hasMany(Task, { 
   as: 'tasks',
   foreignKey: 'projectId',
-  onDelete: 'CASCADE', // When a project is deleted, delete all its tasks
+  onDelete: 'CASCADE', // When a project is purged, delete all its tasks
 });
 
 Task.belongsTo(Project, { 
@@ -37,6 +49,17 @@ Task.belongsTo(Project, {
   foreignKey: 'projectId',
 });
 
+User.hasMany(Project, {
+  as: 'ownedProjects',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE', // When a user is purged, delete the projects they own
+});
+
+Project.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+});
+
 Task.belongsToMany(Tag, { 
   through: 'TaskTags',
   as: 'tags',
@@ -49,23 +72,91 @@ Tag.belongsToMany(Task, {
   foreignKey: 'tagId',
 });
 
+Project.belongsToMany(User, {
+  through: ProjectMember,
+  as: 'members',
+  foreignKey: 'projectId',
+  otherKey: 'userId',
+});
+
+User.belongsToMany(Project, {
+  through: ProjectMember,
+  as: 'memberProjects',
+  foreignKey: 'userId',
+  otherKey: 'projectId',
+});
+
+Project.hasMany(ProjectMember, {
+  as: 'memberships',
+  foreignKey: 'projectId',
+  onDelete: 'CASCADE', // When a project is purged, remove its memberships
+});
 
-// This hook will be called whenever any model is created
-sequelize.addHook('afterCreate', (instance, options) => {
-  console.log("Record created: " + JSON.stringify(instance, null, 2));
+User.hasMany(ProjectMember, {
+  as: 'memberships',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE', // When a user is purged, remove their memberships
 });
 
-// This hook will be called whenever any model is updated
-sequelize.addHook('afterUpdate', (instance, options) => {
-  
-  console.log("Record updated: " + JSON.stringify(instance, null, 2));
+ProjectMember.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
 });
 
-// This hook will be called whenever any model is deleted
-sequelize.addHook('afterDestroy', (instance, options) => {  
-  console.log("Record deleted: " + JSON.stringify(instance, null, 2));
+ProjectMember.belongsTo(Project, {
+  as: 'project',
+  foreignKey: 'projectId',
 });
 
+Webhook.hasMany(WebhookDelivery, {
+  as: 'deliveries',
+  foreignKey: 'webhookId',
+  onDelete: 'CASCADE', // When a webhook is deleted, drop its queued and past deliveries
+});
+
+WebhookDelivery.belongsTo(Webhook, {
+  as: 'webhook',
+  foreignKey: 'webhookId',
+});
+
+WebhookDelivery.hasMany(WebhookAttempt, {
+  as: 'attempts',
+  foreignKey: 'deliveryId',
+  onDelete: 'CASCADE', // When a delivery is deleted, delete its attempts
+});
+
+WebhookAttempt.belongsTo(WebhookDelivery, {
+  as: 'delivery',
+  foreignKey: 'deliveryId',
+});
+
+User.hasOne(FeedToken, {
+  as: 'feedToken',
+  foreignKey: 'userId',
+  onDelete: 'CASCADE', // When a user is purged, their calendar feeds stop working
+});
+
+FeedToken.belongsTo(User, {
+  as: 'user',
+  foreignKey: 'userId',
+});
+
+// Keep the full-text search index in sync with the searchable models
+registerSearchHooks(Task);
+registerSearchHooks(Project);
+registerSearchHooks(Tag);
+
+// Report a bad foreign key by name instead of SQLite's generic constraint failure
+sequelize.addHook('beforeSave', assertReferencesExist);
+
+// Record every change to the audited models in the audit log
+registerAuditHooks(sequelize);
+
+// Queue webhook deliveries for task and project events
+registerWebhookHooks(sequelize);
+
+// Publish task, project and tag changes to the event stream
+registerChangeHooks(sequelize);
 
 // Export all models
-export { User, Task, Project, Tag, sequelize }; 
\ No newline at end of file
+export { User, Task, Project, Tag, ProjectMember, IdempotencyKey, AuditLog, Webhook, WebhookDelivery, WebhookAttempt, FeedToken, sequelize }; 
\ No newline at end of file
@@ -0,0 +1,175 @@
+/**
+ * Policies Index
+ * 
+ * This file is the single place where access rules for each model are defined.
+ * It demonstrates:
+ * 1. Scoping list queries to the records a user may see
+ * 2. Per-record permission checks
+ * 3. Keeping authorization rules out of the controllers
+ * 4. Admin access to every record
+ * 5. Checking who a task may be assigned to
+ */
+
+import { Op, WhereOptions } from 'sequelize';
+import { User, Task, Project, ProjectMember } from '../models';
+import { ProjectRole } from '../models/ProjectMember';
+import { ApiError, ForbiddenError } from '../utils/errors';
+
+export type PolicyAction = 'read' | 'create' | 'update' | 'delete';
+
+export interface Policy<T> {
+  // Where clause restricting list queries to the records the user may see
+  scope(user: User): Promise<WhereOptions>;
+
+  // Whether the user may perform the action on the record
+  can(user: User, action: PolicyAction, record: T): Promise<boolean>;
+}
+
+/**
+ * Give admins full access on top of a policy's own rules
+ * 
+ * @param policy - The rules that apply to members
+ * @returns Policy<T> - The policy with the admin bypass applied
+ */
+function allowAdmins<T>(policy: Policy<T>): Policy<T> {
+  return {
+    async scope(user) {
+      return user.isAdmin() ? {} : policy.scope(user);
+    },
+
+    async can(user, action, record) {
+      return user.isAdmin() || policy.can(user, action, record);
+    }
+  };
+}
+
+/**
+ * Get the user's role in a project
+ * 
+ * The project's creator (Project.userId) is always an owner, everyone else
+ * gets the role of their ProjectMember row. Projects in the trash keep their
+ * roles, so they can be restored.
+ * 
+ * @param user - The user
+ * @param projectId - The project's id
+ * @returns Promise<ProjectRole | null> - The role, or null if the user is not part of the project
+ */
+export async function getProjectRole(user: User, projectId: number): Promise<ProjectRole | null> {
+  const project = await Project.findByPk(projectId, { attributes: ['id', 'userId'], paranoid: false });
+  if (project == null)
+    return null;
+
+  if (project.userId == user.id)
+    return 'owner';
+
+  const membership = await ProjectMember.findOne({ where: { projectId, userId: user.id } });
+  return membership ? membership.role : null;
+}
+
+/**
+ * Get the ids of the projects a user owns or is a member of, including projects in the trash
+ * 
+ * @param user - The user
+ * @returns Promise<number[]> - The project ids
+ */
+async function getMemberProjectIds(user: User): Promise<number[]> {
+  const ownedProjects = await Project.findAll({ attributes: ['id'], where: { userId: user.id }, paranoid: false });
+  const memberships = await ProjectMember.findAll({ attributes: ['projectId'], where: { userId: user.id } });
+  return [
+    ...ownedProjects.map(project => project.id),
+    ...memberships.map(membership => membership.projectId)
+  ];
+}
+
+/**
+ * Tasks are visible to their assignee and to every member of their project.
+ * Owners and editors manage the tasks of a project, assignees may update their own tasks.
+ */
+export const taskPolicy: Policy<Task> = allowAdmins<Task>({
+  async scope(user) {
+    const projectIds = await getMemberProjectIds(user);
+    return { [Op.or]: [{ userId: user.id }, { projectId: { [Op.in]: projectIds } }] };
+  },
+
+  async can(user, action, task) {
+    const role = await getProjectRole(user, task.projectId);
+    const canEdit = role == 'owner' || role == 'editor';
+
+    switch (action) {
+      case 'read':
+        return role != null || task.userId == user.id;
+      case 'update':
+        return canEdit || task.userId == user.id;
+      case 'create':
+      case 'delete':
+        return canEdit;
+    }
+  }
+});
+
+/**
+ * Check the assignee of a task before it is saved
+ * 
+ * Assigning a new task to someone else or changing the assignee of an existing task
+ * needs edit rights on its project, so assignees cannot hand their tasks to someone else. The assignee of a new, moved
+ * or reassigned task must be able to see the project: a member of it or an admin.
+ * 
+ * @param user - The user saving the task
+ * @param task - The new or changed task
+ * @throws ForbiddenError - When the user may not change the assignee
+ * @throws ApiError - 422 assignee_not_member when the assignee is not part of the project
+ */
+export async function assertAssignable(user: User, task: Task): Promise<void> {
+  if (!task.isNewRecord && !task.changed('userId') && !task.changed('projectId'))
+    return;
+
+  const assignsOther = task.isNewRecord ? task.userId != user.id : task.changed('userId');
+  if (assignsOther && !(await taskPolicy.can(user, 'create', task)))
+    throw new ForbiddenError('Only owners and editors of the project may assign a task to someone else');
+
+  // A missing user is reported by the reference check when the task is saved
+  const assignee = await User.findByPk(task.userId);
+  if (assignee == null || assignee.isAdmin())
+    return;
+
+  if ((await getProjectRole(assignee, task.projectId)) == null)
+    throw new ApiError(422, 'assignee_not_member', `User ${assignee.id} is not a member of project ${task.projectId}`);
+}
+
+/**
+ * Projects are visible to their members and to anyone assigned a task in them.
+ * Only owners may change or delete a project and manage its members.
+ */
+export const projectPolicy: Policy<Project> = allowAdmins<Project>({
+  async scope(user) {
+    const memberProjectIds = await getMemberProjectIds(user);
+    const assignedTasks = await Task.findAll({ attributes: ['projectId'], where: { userId: user.id } });
+    const assignedProjectIds = assignedTasks.map(task => task.projectId);
+    return { id: { [Op.in]: [...memberProjectIds, ...assignedProjectIds] } };
+  },
+
+  async can(user, action, project) {
+    const role = await getProjectRole(user, project.id);
+    if (action != 'read')
+      return role == 'owner';
+
+    if (role != null)
+      return true;
+
+    const assignedTask = await Task.findOne({ attributes: ['id'], where: { userId: user.id, projectId: project.id } });
+    return assignedTask != null;
+  }
+});
+
+/**
+ * Users may only see and manage their own account.
+ */
+export const userPolicy: Policy<User> = allowAdmins<User>({
+  async scope(user) {
+    return { id: user.id };
+  },
+
+  async can(user, action, record) {
+    return record.id == user.id;
+  }
+});
@@ -0,0 +1,98 @@
+/**
+ * API Router Table
+ * 
+ * This file lists the API routers of every version with their prefixes and OpenAPI operation specs.
+ * It demonstrates:
+ * 1. A single table used both to mount the routers and to generate the OpenAPI document
+ * 2. Declaring which routers require an authenticated user
+ * 3. Versions that inherit the routers of an older version and replace some of them
+ * 
+ * A new version lists only the routers it changes. A replacement router can override single
+ * routes and inherit the others by mounting the old router after its own routes:
+ * 
+ *   router.get('/', v2TaskController.getAllTasks.bind(v2TaskController));
+ *   router.use(taskRoutes);
+ * 
+ * Its operations are then the old ones with the changed entries replaced.
+ */
+
+import taskRoutes, { taskOperations } from './taskRoutes';
+import userRoutes, { userOperations } from './userRoutes';
+import projectRoutes, { projectOperations } from './projectRoutes';
+import tagRoutes, { tagOperations } from './tagRoutes';
+import authRoutes, { authOperations } from './authRoutes';
+import searchRoutes, { searchOperations } from './searchRoutes';
+import trashRoutes, { trashOperations } from './trashRoutes';
+import auditRoutes, { auditOperations } from './auditRoutes';
+import webhookRoutes, { webhookOperations } from './webhookRoutes';
+import eventRoutes, { eventOperations } from './eventRoutes';
+import graphqlRoutes, { graphqlOperations } from './graphqlRoutes';
+import { userCalendarRoutes, projectCalendarRoutes, userCalendarOperations, projectCalendarOperations } from './calendarRoutes';
+import { ApiRouter } from '../services/openapi';
+
+export interface ApiVersion {
+  // Path segment of the version, e.g. v1
+  name: string;
+  // The version whose routers are inherited
+  base?: string;
+  // Routers added by this version, or replacing the base version's router with the same prefix
+  routers: ApiRouter[];
+}
+
+// The version served by the unversioned paths when API_VERSION is not set
+const DEFAULT_API_VERSION = 'v1';
+
+export const API_VERSIONS: ApiVersion[] = [
+  {
+    name: 'v1',
+    routers: [
+      // Authentication routes handle their own access rules
+      { prefix: '/auth', router: authRoutes, authenticated: false, operations: authOperations },
+      // Calendar feeds check a feed token, they come before the /users and /projects routers
+      { prefix: '/users/:id/calendar.ics', router: userCalendarRoutes, authenticated: false, operations: userCalendarOperations },
+      { prefix: '/projects/:id/calendar.ics', router: projectCalendarRoutes, authenticated: false, operations: projectCalendarOperations },
+      { prefix: '/tasks', router: taskRoutes, authenticated: true, operations: taskOperations },
+      { prefix: '/users', router: userRoutes, authenticated: true, operations: userOperations },
+      { prefix: '/projects', router: projectRoutes, authenticated: true, operations: projectOperations },
+      { prefix: '/tags', router: tagRoutes, authenticated: true, operations: tagOperations },
+      { prefix: '/search', router: searchRoutes, authenticated: true, operations: searchOperations },
+      { prefix: '/trash', router: trashRoutes, authenticated: true, operations: trashOperations },
+      { prefix: '/audit', router: auditRoutes, authenticated: true, operations: auditOperations },
+      { prefix: '/webhooks', router: webhookRoutes, authenticated: true, operations: webhookOperations },
+      { prefix: '/events', router: eventRoutes, authenticated: true, operations: eventOperations },
+      { prefix: '/graphql', router: graphqlRoutes, authenticated: true, operations: graphqlOperations }
+    ]
+  }
+];
+
+/**
+ * Get the routers of a version, including the ones it inherits
+ * 
+ * @param name - The version, e.g. v1
+ * @param versions - The version table
+ * @returns ApiRouter[] - The routers, with prefixes relative to the version
+ * @throws Error - When the version, or a version it inherits from, does not exist
+ */
+export function getVersionRouters(name: string, versions: ApiVersion[] = API_VERSIONS): ApiRouter[] {
+  const version = versions.find(candidate => candidate.name == name);
+  if (version == null)
+    throw new Error(`API version '${name}' does not exist. Versions: ${versions.map(candidate => candidate.name).join(', ')}`);
+
+  const inherited = version.base ? getVersionRouters(version.base, versions) : [];
+  return [
+    ...inherited.filter(router => !version.routers.some(replacement => replacement.prefix == router.prefix)),
+    ...version.routers
+  ];
+}
+
+/**
+ * Get the version served by the unversioned /api paths and described at /api/openapi.json
+ * 
+ * @returns string - API_VERSION, or v1 when it is not set
+ * @throws Error - When API_VERSION names a version that does not exist
+ */
+export function getCurrentVersion(): string {
+  const name = process.env.API_VERSION || DEFAULT_API_VERSION;
+  getVersionRouters(name);
+  return name;
+}
@@ -0,0 +1,27 @@
+/**
+ * Audit Routes
+ * 
+ * This file contains the route for reading the audit log.
+ * It demonstrates:
+ * 1. Express router setup
+ * 2. Role-based access for a whole router
+ * 3. A read-only endpoint
+ */
+
+import { Router } from 'express';
+import { AuditController } from '../controllers/AuditController';
+import { requireRole } from '../middleware/auth';
+import { OperationSpecs } from '../services/openapi';
+
+const router = Router();
+const auditController = new AuditController();
+
+// List the recorded changes (admins only)
+router.get('/', requireRole('admin'), auditController.getAuditLog.bind(auditController));
+
+// OpenAPI descriptions of the routes above
+export const auditOperations: OperationSpecs = {
+  'get /': { summary: 'List recorded changes, newest first (admins only)', query: ['audit'], responses: { 200: 'AuditLogPage' } }
+};
+
+export default router;
@@ -0,0 +1,40 @@
+/**
+ * Auth Routes
+ * 
+ * This file contains all routes related to authentication.
+ * It demonstrates:
+ * 1. Express router setup
+ * 2. Public and protected routes in the same router
+ * 3. Middleware usage
+ * 4. TypeScript type safety
+ */
+
+import { Router } from 'express';
+import { AuthController } from '../controllers/AuthController';
+import { authenticate } from '../middleware/auth';
+import { OperationSpecs } from '../services/openapi';
+
+const router = Router();
+const authController = new AuthController();
+
+// Register a new user
+router.post('/register', authController.register.bind(authController));
+
+// Log in and receive a token pair
+router.post('/login', authController.login.bind(authController));
+
+// Refresh an expired access token
+router.post('/refresh', authController.refresh.bind(authController));
+
+// Get the authenticated user
+router.get('/me', authenticate, authController.me.bind(authController));
+
+// OpenAPI descriptions of the routes above
+export const authOperations: OperationSpecs = {
+  'post /register': { summary: 'Register a new user', public: true, body: 'RegisterRequest', responses: { 201: 'AuthResponse' } },
+  'post /login': { summary: 'Log in with a username or email and password', public: true, body: 'LoginRequest', responses: { 200: 'AuthResponse' } },
+  'post /refresh': { summary: 'Exchange a refresh token for a new token pair', public: true, body: 'RefreshRequest', responses: { 200: 'TokenPair' } },
+  'get /me': { summary: 'Get the authenticated user', responses: { 200: 'User' } }
+};
+
+export default router;
@@ -0,0 +1,49 @@
+/**
+ * Calendar Routes
+ * 
+ * This file contains the iCalendar feeds of task due dates.
+ * It demonstrates:
+ * 1. Express routers mounted on a nested path, reading the parent's :id with mergeParams
+ * 2. Routes authenticated by a feed token instead of a bearer token
+ * 3. TypeScript type safety
+ * 
+ * The feeds are mounted before /users and /projects in routes/apiRouters.ts, as those
+ * routers would otherwise ask calendar apps for a bearer token.
+ */
+
+import { Router } from 'express';
+import { CalendarController } from '../controllers/CalendarController';
+import { authenticateFeed } from '../middleware/auth';
+import { OperationSpecs } from '../services/openapi';
+
+const calendarController = new CalendarController();
+
+export const userCalendarRoutes = Router({ mergeParams: true });
+export const projectCalendarRoutes = Router({ mergeParams: true });
+
+// Get the due dates of the tasks assigned to a user
+userCalendarRoutes.get('/', authenticateFeed, calendarController.getUserCalendar.bind(calendarController));
+
+// Get the due dates of the tasks of a project
+projectCalendarRoutes.get('/', authenticateFeed, calendarController.getProjectCalendar.bind(calendarController));
+
+// OpenAPI descriptions of the routes above
+export const userCalendarOperations: OperationSpecs = {
+  'get /': {
+    summary: 'Get the due dates of the tasks assigned to a user as an iCalendar feed',
+    public: true,
+    query: ['calendar'],
+    contentType: 'text/calendar',
+    responses: { 200: 'Calendar' }
+  }
+};
+
+export const projectCalendarOperations: OperationSpecs = {
+  'get /': {
+    summary: 'Get the due dates of the tasks of a project as an iCalendar feed',
+    public: true,
+    query: ['calendar'],
+    contentType: 'text/calendar',
+    responses: { 200: 'Calendar' }
+  }
+};
@@ -0,0 +1,22 @@
+/**
+ * Docs Routes
+ * 
+ * This file contains the API documentation routes.
+ * It demonstrates:
+ * 1. Express router setup
+ * 2. Public routes serving a generated document
+ */
+
+import { Router } from 'express';
+import { DocsController } from '../controllers/DocsController';
+
+const router = Router();
+const docsController = new DocsController();
+
+// Get the OpenAPI 3 document
+router.get('/openapi.json', docsController.getOpenApiDocument.bind(docsController));
+
+// Get the interactive docs
+router.get('/docs', docsController.getDocsPage.bind(docsController));
+
+export default router;
@@ -0,0 +1,31 @@
+/**
+ * Event Routes
+ * 
+ * This file contains the Server-Sent Events stream of changes.
+ * It demonstrates:
+ * 1. Express router setup
+ * 2. A long-lived streaming response
+ * 3. TypeScript type safety
+ */
+
+import { Router } from 'express';
+import { EventController } from '../controllers/EventController';
+import { OperationSpecs } from '../services/openapi';
+
+const router = Router();
+const eventController = new EventController();
+
+// Stream changes to tasks, projects and tags
+router.get('/', eventController.streamEvents.bind(eventController));
+
+// OpenAPI descriptions of the routes above
+export const eventOperations: OperationSpecs = {
+  'get /': {
+    summary: 'Stream created, updated and deleted events of tasks, projects and tags (Server-Sent Events)',
+    query: ['events'],
+    contentType: 'text/event-stream',
+    responses: { 200: 'ChangeEvent' }
+  }
+};
+
+export default router;
@@ -0,0 +1,30 @@
+/**
+ * GraphQL Routes
+ * 
+ * This file contains the GraphQL endpoint.
+ * It demonstrates:
+ * 1. Express router setup
+ * 2. A single endpoint for every query and mutation
+ * 3. TypeScript type safety
+ */
+
+import { Router } from 'express';
+import { GraphQLController } from '../controllers/GraphQLController';
+import { OperationSpecs } from '../services/openapi';
+
+const router = Router();
+const graphqlController = new GraphQLController();
+
+// Run a query or mutation
+router.post('/', graphqlController.executeQuery.bind(graphqlController));
+
+// OpenAPI descriptions of the routes above
+export const graphqlOperations: OperationSpecs = {
+  'post /': {
+    summary: 'Run a GraphQL query or mutation against users, projects, tasks and tags',
+    body: 'GraphQLRequest',
+    responses: { 200: 'GraphQLResponse' }
+  }
+};
+
+export default router;
@@ -6,21 +6,64 @@
  * 1. Route module organization
  * 2. Express router setup
  * 3. Route prefixing
- * 4. API versioning
+ * 4. API versioning, with deprecated unversioned aliases
+ * 5. The GraphQL endpoint at /graphql, where GraphQL clients look for it
  */
 
 import { Router } from 'express';
-import taskRoutes from './taskRoutes';
-import userRoutes from './userRoutes';
-import projectRoutes from './projectRoutes';
-import tagRoutes from './tagRoutes';
+import docsRoutes from './docsRoutes';
+import { API_VERSIONS, getCurrentVersion, getVersionRouters } from './apiRouters';
+import { authenticate } from '../middleware/auth';
+import { deprecatedAlias } from '../middleware/deprecation';
+import { idempotency } from '../middleware/idempotency';
 
 const router = Router();
 
-// Mount routes with their respective prefixes
-router.use(`/api/tasks`, taskRoutes);
-router.use(`/api/users`, userRoutes);
-router.use(`/api/projects`, projectRoutes);
-router.use(`/api/tags`, tagRoutes);
+/**
+ * Mount the routers of a version on a router of their own
+ * 
+ * @param name - The version, e.g. v1
+ * @returns Router - The version's routes, most of them require an authenticated user and accept an Idempotency-Key
+ */
+function createVersionRouter(name: string): Router {
+  const versionRouter = Router();
+  for (const apiRouter of getVersionRouters(name)) {
+    if (apiRouter.authenticated)
+      versionRouter.use(apiRouter.prefix, authenticate, idempotency, apiRouter.router);
+    else
+      versionRouter.use(apiRouter.prefix, apiRouter.router);
+  }
+  return versionRouter;
+}
+
+// The API documentation is public
+router.use(`/api`, docsRoutes);
+
+// Mount every version under its own prefix, e.g. /api/v1/tasks
+const versionRouters = new Map<string, Router>();
+for (const version of API_VERSIONS) {
+  versionRouters.set(version.name, createVersionRouter(version.name));
+  router.use(`/api/${version.name}`, versionRouters.get(version.name)!);
+}
+
+// The unversioned paths are deprecated aliases of the current version, e.g. /api/tasks
+router.use(`/api`, deprecatedAlias(getCurrentVersion), (req, res, next) => {
+  versionRouters.get(getCurrentVersion())!(req, res, next);
+});
+
+// /graphql serves the GraphQL endpoint of the current version, e.g. /api/v1/graphql
+const graphqlRouters = new Map<string, Router>();
+for (const version of API_VERSIONS) {
+  const graphql = getVersionRouters(version.name).find(apiRouter => apiRouter.prefix == '/graphql');
+  if (graphql)
+    graphqlRouters.set(version.name, Router().use(authenticate, idempotency, graphql.router));
+}
+router.use('/graphql', (req, res, next) => {
+  const graphqlRouter = graphqlRouters.get(getCurrentVersion());
+  if (graphqlRouter == null)
+    return next();
+
+  graphqlRouter(req, res, next);
+});
 
-export default router; 
\ No newline at end of file
+export default router;
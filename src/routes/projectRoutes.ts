@@ -11,9 +11,14 @@
 
 import { Router } from 'express';
 import { ProjectController } from '../controllers/ProjectController';
+import { ProjectMemberController } from '../controllers/ProjectMemberController';
+import { TaskController } from '../controllers/TaskController';
+import { OperationSpecs } from '../services/openapi';
 
 const router = Router();
 const projectController = new ProjectController();
+const projectMemberController = new ProjectMemberController();
+const taskController = new TaskController();
 
 // List all projects
 router.get('/', projectController.getAllProjects.bind(projectController));
@@ -24,10 +29,51 @@ router.post('/', projectController.createProject.bind(projectController));
 // Get a specific project
 router.get('/:id', projectController.getProjectById.bind(projectController));
 
-// Update a project
+// Replace a project
 router.put('/:id', projectController.updateProject.bind(projectController));
 
-// Delete a project
+// Change some attributes of a project (JSON Merge Patch or JSON Patch)
+router.patch('/:id', projectController.patchProject.bind(projectController));
+
+// Move a project and its tasks to the trash
 router.delete('/:id', projectController.deleteProject.bind(projectController));
 
-export default router; 
\ No newline at end of file
+// Restore a project and its tasks from the trash
+router.post('/:id/restore', projectController.restoreProject.bind(projectController));
+
+// List the tasks of a project
+router.get('/:id/tasks', taskController.getProjectTasks.bind(taskController));
+
+// Create a task in a project
+router.post('/:id/tasks', taskController.createProjectTask.bind(taskController));
+
+// List the members of a project
+router.get('/:id/members', projectMemberController.getMembers.bind(projectMemberController));
+
+// Add a member to a project
+router.post('/:id/members', projectMemberController.addMember.bind(projectMemberController));
+
+// Change a member's role
+router.put('/:id/members/:userId', projectMemberController.updateMember.bind(projectMemberController));
+
+// Remove a member from a project
+router.delete('/:id/members/:userId', projectMemberController.removeMember.bind(projectMemberController));
+
+// OpenAPI descriptions of the routes above
+export const projectOperations: OperationSpecs = {
+  'get /': { summary: 'List projects', query: ['pagination', 'includes'], responses: { 200: 'ProjectPage' } },
+  'post /': { summary: 'Create a project', body: 'ProjectCreate', responses: { 201: 'Project' } },
+  'get /:id': { summary: 'Get a project', query: ['includes'], responses: { 200: 'Project', 304: null } },
+  'put /:id': { summary: 'Replace a project', body: 'ProjectUpdate', responses: { 200: 'Project' } },
+  'patch /:id': { summary: 'Change some attributes of a project', patch: 'ProjectPatch', responses: { 200: 'Project' } },
+  'delete /:id': { summary: 'Move a project and its tasks to the trash', responses: { 204: null } },
+  'post /:id/restore': { summary: 'Restore a project and its tasks from the trash', responses: { 200: 'Project' } },
+  'get /:id/tasks': { summary: 'List the tasks of a project', query: ['pagination', 'taskFilters', 'includes'], responses: { 200: 'TaskPage' } },
+  'post /:id/tasks': { summary: 'Create a task in a project (projectId is not accepted)', body: 'ProjectTaskCreate', responses: { 201: 'Task' } },
+  'get /:id/members': { summary: 'List the members of a project', responses: { 200: 'ProjectMember[]' } },
+  'post /:id/members': { summary: 'Add a member to a project', body: 'ProjectMemberCreate', responses: { 201: 'ProjectMember' } },
+  'put /:id/members/:userId': { summary: "Change a member's role", body: 'ProjectMemberUpdate', responses: { 200: 'ProjectMember' } },
+  'delete /:id/members/:userId': { summary: 'Remove a member from a project', responses: { 204: null } }
+};
+
+export default router;
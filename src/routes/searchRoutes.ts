@@ -0,0 +1,26 @@
+/**
+ * Search Routes
+ * 
+ * This file contains the full-text search route.
+ * It demonstrates:
+ * 1. Express router setup
+ * 2. A read-only endpoint spanning several models
+ * 3. TypeScript type safety
+ */
+
+import { Router } from 'express';
+import { SearchController } from '../controllers/SearchController';
+import { OperationSpecs } from '../services/openapi';
+
+const router = Router();
+const searchController = new SearchController();
+
+// Search tasks, projects and tags
+router.get('/', searchController.search.bind(searchController));
+
+// OpenAPI descriptions of the routes above
+export const searchOperations: OperationSpecs = {
+  'get /': { summary: 'Search tasks, projects and tags', query: ['search'], responses: { 200: 'SearchResponse' } }
+};
+
+export default router;
@@ -7,27 +7,54 @@
  * 2. CRUD operations for tags
  * 3. Error handling
  * 4. TypeScript type safety
+ * 
+ * Tags are global, so only admins may create, update or delete them.
  */
 
 import { Router } from 'express';
 import { TagController } from '../controllers/TagController';
+import { TaskTagController } from '../controllers/TaskTagController';
+import { requireRole } from '../middleware/auth';
+import { OperationSpecs } from '../services/openapi';
 
 const router = Router();
 const tagController = new TagController();
+const taskTagController = new TaskTagController();
 
 // List all tags
 router.get('/', tagController.getAllTags.bind(tagController));
 
 // Create a new tag
-router.post('/', tagController.createTag.bind(tagController));
+router.post('/', requireRole('admin'), tagController.createTag.bind(tagController));
 
 // Get a specific tag
 router.get('/:id', tagController.getTagById.bind(tagController));
 
-// Update a tag
-router.put('/:id', tagController.updateTag.bind(tagController));
+// Replace a tag
+router.put('/:id', requireRole('admin'), tagController.updateTag.bind(tagController));
+
+// Change some attributes of a tag (JSON Merge Patch or JSON Patch)
+router.patch('/:id', requireRole('admin'), tagController.patchTag.bind(tagController));
+
+// Move a tag to the trash
+router.delete('/:id', requireRole('admin'), tagController.deleteTag.bind(tagController));
+
+// Restore a tag from the trash
+router.post('/:id/restore', requireRole('admin'), tagController.restoreTag.bind(tagController));
+
+// List the tasks with a tag
+router.get('/:id/tasks', taskTagController.getTagTasks.bind(taskTagController));
 
-// Delete a tag
-router.delete('/:id', tagController.deleteTag.bind(tagController));
+// OpenAPI descriptions of the routes above
+export const tagOperations: OperationSpecs = {
+  'get /': { summary: 'List tags', query: ['pagination', 'includes'], responses: { 200: 'TagPage' } },
+  'post /': { summary: 'Create a tag (admins only)', body: 'TagCreate', responses: { 201: 'Tag' } },
+  'get /:id': { summary: 'Get a tag', query: ['includes'], responses: { 200: 'Tag', 304: null } },
+  'put /:id': { summary: 'Replace a tag (admins only)', body: 'TagUpdate', responses: { 200: 'Tag' } },
+  'patch /:id': { summary: 'Change some attributes of a tag (admins only)', patch: 'TagPatch', responses: { 200: 'Tag' } },
+  'delete /:id': { summary: 'Move a tag to the trash (admins only)', responses: { 204: null } },
+  'post /:id/restore': { summary: 'Restore a tag from the trash (admins only)', responses: { 200: 'Tag' } },
+  'get /:id/tasks': { summary: 'List the tasks with a tag', query: ['pagination', 'taskFilters', 'includes'], responses: { 200: 'TaskPage' } }
+};
 
-export default router; 
\ No newline at end of file
+export default router;
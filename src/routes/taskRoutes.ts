@@ -11,9 +11,16 @@
 
 import { Router } from 'express';
 import { TaskController } from '../controllers/TaskController';
+import { TaskBulkController } from '../controllers/TaskBulkController';
+import { TaskTagController } from '../controllers/TaskTagController';
+import { TaskCsvController } from '../controllers/TaskCsvController';
+import { OperationSpecs } from '../services/openapi';
 
 const router = Router();
 const taskController = new TaskController();
+const taskBulkController = new TaskBulkController();
+const taskTagController = new TaskTagController();
+const taskCsvController = new TaskCsvController();
 
 // List all tasks
 router.get('/', taskController.getAllTasks.bind(taskController));
@@ -21,13 +28,58 @@ router.get('/', taskController.getAllTasks.bind(taskController));
 // Create a new task
 router.post('/', taskController.createTask.bind(taskController));
 
+// Create, update, delete and tag many tasks in one transaction
+router.post('/bulk', taskBulkController.runBulk.bind(taskBulkController));
+
+// Export the tasks as CSV
+router.get('/export.csv', taskCsvController.exportTasks.bind(taskCsvController));
+
+// Create tasks from CSV, sent as JSON or as a text/csv upload
+router.post('/import', taskCsvController.importTasks.bind(taskCsvController));
+
 // Get a specific task
 router.get('/:id', taskController.getTaskById.bind(taskController));
 
-// Update a task
+// Replace a task
 router.put('/:id', taskController.updateTask.bind(taskController));
 
-// Delete a task
+// Change some attributes of a task (JSON Merge Patch or JSON Patch)
+router.patch('/:id', taskController.patchTask.bind(taskController));
+
+// Move a task to the trash
 router.delete('/:id', taskController.deleteTask.bind(taskController));
 
-export default router; 
\ No newline at end of file
+// Restore a task from the trash
+router.post('/:id/restore', taskController.restoreTask.bind(taskController));
+
+// List the tags of a task
+router.get('/:id/tags', taskTagController.getTaskTags.bind(taskTagController));
+
+// Replace the tags of a task
+router.put('/:id/tags', taskTagController.setTaskTags.bind(taskTagController));
+
+// Add tags to a task
+router.post('/:id/tags', taskTagController.addTaskTags.bind(taskTagController));
+
+// Remove tags from a task
+router.delete('/:id/tags', taskTagController.removeTaskTags.bind(taskTagController));
+
+// OpenAPI descriptions of the routes above
+export const taskOperations: OperationSpecs = {
+  'get /': { summary: 'List tasks', query: ['pagination', 'taskFilters', 'includes'], responses: { 200: 'TaskPage' } },
+  'post /': { summary: 'Create a task', body: 'TaskCreate', responses: { 201: 'Task' } },
+  'post /bulk': { summary: 'Run task operations in one transaction', body: 'BulkRequest', responses: { 200: 'BulkResponse' } },
+  'get /export.csv': { summary: 'Export the tasks as CSV', query: ['taskFilters', 'export'], contentType: 'text/csv', responses: { 200: 'TaskCsv' } },
+  'post /import': { summary: 'Create tasks from CSV, or check them with dryRun', query: ['import'], body: 'TaskImportRequest', csvBody: 'TaskCsv', responses: { 200: 'TaskImportResult', 201: 'TaskImportResult' } },
+  'get /:id': { summary: 'Get a task', query: ['includes'], responses: { 200: 'Task', 304: null } },
+  'put /:id': { summary: 'Replace a task', body: 'TaskUpdate', responses: { 200: 'Task' } },
+  'patch /:id': { summary: 'Change some attributes of a task', patch: 'TaskPatch', responses: { 200: 'Task' } },
+  'delete /:id': { summary: 'Move a task to the trash', responses: { 204: null } },
+  'post /:id/restore': { summary: 'Restore a task from the trash', responses: { 200: 'Task' } },
+  'get /:id/tags': { summary: 'List the tags of a task', responses: { 200: 'Tag[]' } },
+  'put /:id/tags': { summary: 'Replace the tags of a task', body: 'TagChange', responses: { 200: 'Tag[]' } },
+  'post /:id/tags': { summary: 'Add tags to a task', body: 'TagChange', responses: { 200: 'Tag[]' } },
+  'delete /:id/tags': { summary: 'Remove tags from a task', body: 'TagChange', responses: { 200: 'Tag[]' } }
+};
+
+export default router;
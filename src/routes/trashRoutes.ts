@@ -0,0 +1,38 @@
+/**
+ * Trash Routes
+ * 
+ * This file contains the routes for records that were deleted (soft deleted).
+ * It demonstrates:
+ * 1. Express router setup
+ * 2. A read-only listing spanning several models
+ * 3. Permanently deleting records
+ * 
+ * Records are restored through their own routes, e.g. POST /tasks/:id/restore.
+ */
+
+import { Router } from 'express';
+import { TrashController } from '../controllers/TrashController';
+import { OperationSpecs } from '../services/openapi';
+
+const router = Router();
+const trashController = new TrashController();
+
+// List the deleted tasks, projects, users and tags
+router.get('/', trashController.getTrash.bind(trashController));
+
+// Delete records in the trash for good
+router.delete('/tasks/:id', trashController.purgeTask.bind(trashController));
+router.delete('/projects/:id', trashController.purgeProject.bind(trashController));
+router.delete('/users/:id', trashController.purgeUser.bind(trashController));
+router.delete('/tags/:id', trashController.purgeTag.bind(trashController));
+
+// OpenAPI descriptions of the routes above
+export const trashOperations: OperationSpecs = {
+  'get /': { summary: 'List deleted records, most recently deleted first', query: ['trash'], responses: { 200: 'TrashResponse' } },
+  'delete /tasks/:id': { summary: 'Delete a task in the trash for good', responses: { 204: null } },
+  'delete /projects/:id': { summary: 'Delete a project in the trash for good, with its tasks', responses: { 204: null } },
+  'delete /users/:id': { summary: 'Delete a user in the trash for good, with their tasks and projects', responses: { 204: null } },
+  'delete /tags/:id': { summary: 'Delete a tag in the trash for good (admins only)', responses: { 204: null } }
+};
+
+export default router;
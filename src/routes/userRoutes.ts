@@ -11,24 +11,72 @@
 
 import { Router } from 'express';
 import { UserController } from '../controllers/UserController';
+import { TaskController } from '../controllers/TaskController';
+import { ProjectController } from '../controllers/ProjectController';
+import { CalendarController } from '../controllers/CalendarController';
+import { requireRole } from '../middleware/auth';
+import { OperationSpecs } from '../services/openapi';
 
 const router = Router();
 const userController = new UserController();
+const taskController = new TaskController();
+const projectController = new ProjectController();
+const calendarController = new CalendarController();
 
 // List all users
 router.get('/', userController.getAllUsers.bind(userController));
 
-// Create a new user
-router.post('/', userController.createUser.bind(userController));
+// Create a new user (members sign up through /api/auth/register)
+router.post('/', requireRole('admin'), userController.createUser.bind(userController));
 
 // Get a specific user
 router.get('/:id', userController.getUserById.bind(userController));
 
-// Update a user
+// Replace a user
 router.put('/:id', userController.updateUser.bind(userController));
 
-// Delete a user
+// Change some attributes of a user (JSON Merge Patch or JSON Patch)
+router.patch('/:id', userController.patchUser.bind(userController));
+
+// Move a user, their tasks and their projects to the trash
 router.delete('/:id', userController.deleteUser.bind(userController));
 
+// Restore a user, their tasks and their projects from the trash
+router.post('/:id/restore', userController.restoreUser.bind(userController));
+
+// List the tasks assigned to a user
+router.get('/:id/tasks', taskController.getUserTasks.bind(taskController));
+
+// Create a task assigned to a user
+router.post('/:id/tasks', taskController.createUserTask.bind(taskController));
+
+// List the projects a user owns or is a member of
+router.get('/:id/projects', projectController.getUserProjects.bind(projectController));
+
+// Create a project owned by a user
+router.post('/:id/projects', projectController.createUserProject.bind(projectController));
+
+// Create the token of a user's calendar feeds, replacing the old one
+router.post('/:id/feed-token', calendarController.createFeedToken.bind(calendarController));
+
+// Revoke the token of a user's calendar feeds
+router.delete('/:id/feed-token', calendarController.deleteFeedToken.bind(calendarController));
+
+// OpenAPI descriptions of the routes above
+export const userOperations: OperationSpecs = {
+  'get /': { summary: 'List users', query: ['pagination', 'includes'], responses: { 200: 'UserPage' } },
+  'post /': { summary: 'Create a user (admins only)', body: 'UserCreate', responses: { 201: 'User' } },
+  'get /:id': { summary: 'Get a user', query: ['includes'], responses: { 200: 'User', 304: null } },
+  'put /:id': { summary: 'Replace a user', body: 'UserUpdate', responses: { 200: 'User' } },
+  'patch /:id': { summary: 'Change some attributes of a user', patch: 'UserPatch', responses: { 200: 'User' } },
+  'delete /:id': { summary: 'Move a user, their tasks and their projects to the trash', responses: { 204: null } },
+  'post /:id/restore': { summary: 'Restore a user, their tasks and their projects from the trash', responses: { 200: 'User' } },
+  'get /:id/tasks': { summary: 'List the tasks assigned to a user', query: ['pagination', 'taskFilters', 'includes'], responses: { 200: 'TaskPage' } },
+  'post /:id/tasks': { summary: 'Create a task assigned to a user (userId is not accepted)', body: 'UserTaskCreate', responses: { 201: 'Task' } },
+  'get /:id/projects': { summary: 'List the projects a user owns or is a member of', query: ['pagination', 'includes'], responses: { 200: 'ProjectPage' } },
+  'post /:id/projects': { summary: 'Create a project owned by a user', body: 'ProjectCreate', responses: { 201: 'Project' } },
+  'post /:id/feed-token': { summary: 'Create the token of a user\'s calendar feeds, replacing the old one', responses: { 201: 'FeedToken' } },
+  'delete /:id/feed-token': { summary: 'Revoke the token of a user\'s calendar feeds', responses: { 204: null } }
+};
 
-export default router; 
\ No newline at end of file
+export default router;
@@ -0,0 +1,64 @@
+/**
+ * Webhook Routes
+ * 
+ * This file contains all routes related to webhook subscriptions and their deliveries.
+ * It demonstrates:
+ * 1. Express router setup
+ * 2. CRUD operations for webhooks
+ * 3. Nested routes for the deliveries of a webhook
+ * 4. Role-based access for a whole router
+ * 
+ * Webhooks receive events about every task and project, so only admins may manage them.
+ */
+
+import { Router } from 'express';
+import { WebhookController } from '../controllers/WebhookController';
+import { WebhookDeliveryController } from '../controllers/WebhookDeliveryController';
+import { requireRole } from '../middleware/auth';
+import { OperationSpecs } from '../services/openapi';
+
+const router = Router();
+const webhookController = new WebhookController();
+const webhookDeliveryController = new WebhookDeliveryController();
+
+// List all webhooks
+router.get('/', requireRole('admin'), webhookController.getAllWebhooks.bind(webhookController));
+
+// Create a new webhook
+router.post('/', requireRole('admin'), webhookController.createWebhook.bind(webhookController));
+
+// Get a specific webhook
+router.get('/:id', requireRole('admin'), webhookController.getWebhookById.bind(webhookController));
+
+// Replace a webhook
+router.put('/:id', requireRole('admin'), webhookController.updateWebhook.bind(webhookController));
+
+// Change some attributes of a webhook (JSON Merge Patch or JSON Patch)
+router.patch('/:id', requireRole('admin'), webhookController.patchWebhook.bind(webhookController));
+
+// Delete a webhook
+router.delete('/:id', requireRole('admin'), webhookController.deleteWebhook.bind(webhookController));
+
+// List the deliveries of a webhook
+router.get('/:id/deliveries', requireRole('admin'), webhookDeliveryController.getDeliveries.bind(webhookDeliveryController));
+
+// Get a delivery with its attempts
+router.get('/:id/deliveries/:deliveryId', requireRole('admin'), webhookDeliveryController.getDeliveryById.bind(webhookDeliveryController));
+
+// Send a failed delivery again
+router.post('/:id/deliveries/:deliveryId/replay', requireRole('admin'), webhookDeliveryController.replayDelivery.bind(webhookDeliveryController));
+
+// OpenAPI descriptions of the routes above
+export const webhookOperations: OperationSpecs = {
+  'get /': { summary: 'List webhooks (admins only)', query: ['pagination'], responses: { 200: 'WebhookPage' } },
+  'post /': { summary: 'Create a webhook, the response includes its secret (admins only)', body: 'WebhookCreate', responses: { 201: 'WebhookWithSecret' } },
+  'get /:id': { summary: 'Get a webhook (admins only)', responses: { 200: 'Webhook', 304: null } },
+  'put /:id': { summary: 'Replace a webhook (admins only)', body: 'WebhookUpdate', responses: { 200: 'Webhook' } },
+  'patch /:id': { summary: 'Change some attributes of a webhook, a null secret generates a new one (admins only)', patch: 'WebhookPatch', responses: { 200: 'Webhook' } },
+  'delete /:id': { summary: 'Delete a webhook and its deliveries (admins only)', responses: { 204: null } },
+  'get /:id/deliveries': { summary: 'List the deliveries of a webhook, newest first (admins only)', query: ['deliveries'], responses: { 200: 'WebhookDeliveryPage' } },
+  'get /:id/deliveries/:deliveryId': { summary: 'Get a delivery with its attempts (admins only)', responses: { 200: 'WebhookDeliveryWithAttempts' } },
+  'post /:id/deliveries/:deliveryId/replay': { summary: 'Send a failed delivery again (admins only)', responses: { 202: 'WebhookDelivery' } }
+};
+
+export default router;
@@ -0,0 +1,47 @@
+/**
+ * Admin Bootstrap
+ * 
+ * This file creates the first admin account from environment variables.
+ * It is used by both the server startup and the seeder, and does nothing when:
+ * 1. ADMIN_USERNAME, ADMIN_EMAIL or ADMIN_PASSWORD is not set
+ * 2. An admin already exists
+ * 
+ * An existing user with the same username or email is promoted instead of recreated,
+ * and restored first when it is in the trash.
+ */
+
+import { Op } from 'sequelize';
+import { User } from '../models';
+import { restoreRecord } from '../services/trash';
+
+export async function bootstrapAdmin(): Promise<User | null> {
+  const username = process.env.ADMIN_USERNAME;
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !email || !password)
+    return null;
+
+  const existingAdmin = await User.findOne({ where: { role: 'admin' } });
+  if (existingAdmin)
+    return null;
+
+  const existingUser = await User.findOne({
+    where: { [Op.or]: [{ username }, { email: email.toLowerCase() }] },
+    paranoid: false
+  });
+  if (existingUser) {
+    if (existingUser.deletedAt != null)
+      await restoreRecord(existingUser);
+
+    return await existingUser.update({ role: 'admin' });
+  }
+
+  return await User.create({
+    username,
+    email,
+    password,
+    firstName: process.env.ADMIN_FIRST_NAME || 'Admin',
+    lastName: process.env.ADMIN_LAST_NAME || 'User',
+    role: 'admin'
+  });
+}
@@ -1,5 +1,10 @@
 import { User, Project, Task, Tag, sequelize } from '../models';
 import { faker } from '@faker-js/faker';
+import dotenv from 'dotenv';
+import { bootstrapAdmin } from './admin';
+import { rebuildSearchIndex } from '../services/searchIndex';
+
+dotenv.config();
 
 const statuses = ['pending', 'in_progress', 'completed'] as const;
 const priorities = ['low', 'medium', 'high'] as const;
@@ -14,6 +19,7 @@ async function seed() {
   try {
     // Sync database to create tables
     await sequelize.sync({ force: true });
+    await rebuildSearchIndex(sequelize);
     console.log('Database synced successfully');
 
     // Create users
@@ -28,6 +34,17 @@ async function seed() {
         });
       })
     );
+    // Create the first admin from ADMIN_* variables, falling back to a local default
+    const admin = await bootstrapAdmin() ?? await User.create({
+      username: 'admin',
+      email: 'admin@example.com',
+      password: 'Admin123!',
+      firstName: 'Admin',
+      lastName: 'User',
+      role: 'admin'
+    });
+    console.log(`Admin account: ${admin.username}`);
+
     // const users: User[] = [];
     // for (let i = 0; i < 5; i++) {
     //   const user = await User.create({
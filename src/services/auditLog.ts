@@ -0,0 +1,153 @@
+/**
+ * Audit Log Service
+ * 
+ * This file records every change to the audited models in the AuditLog table.
+ * It demonstrates:
+ * 1. Global (universal) Sequelize hooks
+ * 2. Before and after values from instance.previous()
+ * 3. Redacting sensitive attributes
+ * 4. Writing the entry in the transaction of the change
+ * 
+ * Actions:
+ * - create, update: the attributes that were set or changed
+ * - delete: a record moved to the trash (deletedAt set), or a membership removed
+ * - restore: a record taken out of the trash
+ * - purge: a record deleted for good, with its last values
+ * 
+ * Rows removed by the database's foreign keys (e.g. the tasks of a purged project)
+ * are not recorded, only the record that was purged.
+ */
+
+import { Model, ModelStatic, Sequelize } from 'sequelize';
+import { AuditAction, AuditChanges, AuditLog } from '../models/AuditLog';
+import { getActorId } from '../utils/requestContext';
+
+// Audited models, by the resource name used in GET /api/audit?resource=
+export const AUDITED_RESOURCES: Record<string, string> = {
+  task: 'Task',
+  project: 'Project',
+  user: 'User',
+  tag: 'Tag',
+  projectMember: 'ProjectMember',
+  webhook: 'Webhook'
+};
+
+// Attributes whose values are never stored, only the fact that they changed
+const REDACTED_FIELDS = ['password', 'secret'];
+const REDACTED = '[REDACTED]';
+
+// Bookkeeping attributes that change on every save
+const IGNORED_FIELDS = ['createdAt', 'updatedAt', 'version'];
+
+// deletedAt of records being restored, which the restore itself clears
+const restoring = new WeakMap<Model, unknown>();
+
+function isAudited(model: ModelStatic<Model>): boolean {
+  return Object.values(AUDITED_RESOURCES).includes(model.name);
+}
+
+// Values that were not loaded (e.g. a password outside the default scope) are redacted too
+function redact(field: string, value: unknown): unknown {
+  return REDACTED_FIELDS.includes(field) && value !== null ? REDACTED : value;
+}
+
+/**
+ * Describe attributes of a record with their before and after values
+ * 
+ * @param record - The record
+ * @param fields - The attributes to describe
+ * @param values - Reads the before and after value of an attribute
+ */
+function describeChanges(record: Model, fields: string[], values: (field: string) => [unknown, unknown]): AuditChanges {
+  const changes: AuditChanges = {};
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field))
+      continue;
+
+    const [before, after] = values(field);
+    changes[field] = { before: redact(field, before), after: redact(field, after) };
+  }
+  return changes;
+}
+
+/**
+ * Write an audit entry for a change to a record
+ */
+async function writeEntry(record: Model, action: AuditAction, changes: AuditChanges, options: any): Promise<void> {
+  const model = record.constructor as ModelStatic<Model>;
+  await AuditLog.create({
+    modelName: model.name,
+    recordId: record.get(model.primaryKeyAttribute),
+    action,
+    actorId: getActorId(),
+    changes
+  }, { transaction: options.transaction });
+}
+
+async function recordCreate(record: Model, options: any): Promise<void> {
+  const fields = Object.keys(record.get()).filter(field => record.get(field) != null);
+  await writeEntry(record, 'create', describeChanges(record, fields, field => [null, record.get(field)]), options);
+}
+
+async function recordUpdate(record: Model, options: any): Promise<void> {
+  const previous = (field: string) => record.previous(field as keyof Model) as unknown;
+  const fields = (record.changed() || [])
+    .filter(field => String(previous(field)) != String(record.get(field)) || (previous(field) == null) != (record.get(field) == null));
+  const changes = describeChanges(record, fields, field => [previous(field), record.get(field)]);
+  if (Object.keys(changes).length == 0)
+    return;
+
+  // Records moved to the trash along with another record are updated, not destroyed
+  let action: AuditAction = 'update';
+  if (Object.keys(changes).length == 1 && changes.deletedAt)
+    action = changes.deletedAt.after == null ? 'restore' : 'delete';
+
+  await writeEntry(record, action, changes, options);
+}
+
+async function recordDestroy(record: Model, options: any): Promise<void> {
+  const model = record.constructor as ModelStatic<Model>;
+  if (model.options.paranoid && !options.force) {
+    await writeEntry(record, 'delete', { deletedAt: { before: null, after: record.get('deletedAt') } }, options);
+    return;
+  }
+
+  const fields = Object.keys(record.get());
+  const changes = describeChanges(record, fields, field => [record.get(field), null]);
+  await writeEntry(record, model.options.paranoid ? 'purge' : 'delete', changes, options);
+}
+
+async function recordRestore(record: Model, options: any): Promise<void> {
+  const deletedAt = restoring.get(record) ?? null;
+  restoring.delete(record);
+  await writeEntry(record, 'restore', { deletedAt: { before: deletedAt, after: null } }, options);
+}
+
+/**
+ * Record the changes to the audited models of a database
+ * 
+ * Bulk updates, deletes and restores of audited models are switched to individual
+ * hooks, so every record they change gets an entry.
+ * 
+ * @param sequelize - The database
+ */
+export function registerAuditHooks(sequelize: Sequelize): void {
+  const whenAudited = (handler: (record: Model, options: any) => Promise<void>) =>
+    async (record: Model, options: any) => {
+      if (isAudited(record.constructor as ModelStatic<Model>))
+        await handler(record, options);
+    };
+  const individually = (options: any) => {
+    if (options.model && isAudited(options.model))
+      options.individualHooks = true;
+  };
+
+  sequelize.addHook('afterCreate', whenAudited(recordCreate));
+  sequelize.addHook('afterUpdate', whenAudited(recordUpdate));
+  sequelize.addHook('afterDestroy', whenAudited(recordDestroy));
+  sequelize.addHook('beforeRestore', whenAudited(async record => { restoring.set(record, record.get('deletedAt')); }));
+  sequelize.addHook('afterRestore', whenAudited(recordRestore));
+  sequelize.addHook('beforeBulkUpdate', individually);
+  sequelize.addHook('beforeBulkDestroy', individually);
+  sequelize.addHook('beforeBulkRestore', individually);
+}
@@ -0,0 +1,184 @@
+/**
+ * Change Stream Service
+ * 
+ * This file publishes changes to tasks, projects and tags to the Server-Sent Events stream.
+ * It demonstrates:
+ * 1. Global (universal) Sequelize hooks
+ * 2. Publishing after the transaction of a change commits
+ * 3. A bounded in-memory buffer of numbered events, for resuming with Last-Event-ID
+ * 4. An EventEmitter fanning events out to the open streams
+ * 
+ * Actions:
+ * - created: the record was created, or restored from the trash
+ * - updated: any other change
+ * - deleted: the record was moved to the trash, directly or with its project or user
+ * 
+ * Event ids count up from 1 while the process runs. The buffer keeps the last
+ * CHANGE_BUFFER_SIZE events (1000), older ones can only be caught up on by reloading.
+ */
+
+import { EventEmitter } from 'events';
+import { Model, ModelStatic, Sequelize } from 'sequelize';
+
+export type ChangeType = 'task' | 'project' | 'tag';
+export type ChangeAction = 'created' | 'updated' | 'deleted';
+
+// The same values, for validating and documenting the type
+export const CHANGE_TYPES: ChangeType[] = ['task', 'project', 'tag'];
+
+export interface ChangeEvent {
+  id: number;
+  type: ChangeType;
+  action: ChangeAction;
+  recordId: number;
+  // The project the change belongs to, null for tags
+  projectId: number | null;
+  occurredAt: string;
+  // The record after the change
+  data: Record<string, unknown>;
+}
+
+// Models whose changes are published, by model name
+const CHANGE_SOURCES: Record<string, ChangeType> = {
+  Task: 'task',
+  Project: 'project',
+  Tag: 'tag'
+};
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+const buffer: ChangeEvent[] = [];
+const emitter = new EventEmitter();
+let lastEventId = 0;
+
+// Every open stream listens, so there is no sensible listener limit
+emitter.setMaxListeners(0);
+
+/**
+ * Get how many events are kept for resuming
+ * 
+ * @returns number - CHANGE_BUFFER_SIZE, or 1000
+ * @throws Error - When CHANGE_BUFFER_SIZE is not a positive whole number
+ */
+export function getBufferSize(): number {
+  const value = process.env.CHANGE_BUFFER_SIZE;
+  if (!value)
+    return DEFAULT_BUFFER_SIZE;
+
+  const size = Number(value);
+  if (!Number.isInteger(size) || size <= 0)
+    throw new Error(`CHANGE_BUFFER_SIZE '${value}' is not a positive whole number`);
+
+  return size;
+}
+
+/**
+ * Number a change, keep it in the buffer and send it to the open streams
+ * 
+ * @param change - The change without its id
+ * @returns ChangeEvent - The published event
+ */
+export function publishChange(change: Omit<ChangeEvent, 'id'>): ChangeEvent {
+  const event = { id: ++lastEventId, ...change };
+  buffer.push(event);
+  buffer.splice(0, Math.max(0, buffer.length - getBufferSize()));
+  emitter.emit('change', event);
+  return event;
+}
+
+/**
+ * Get the buffered events after the last one a client received
+ * 
+ * @param eventId - The client's Last-Event-ID
+ * @returns ChangeEvent[] | null - The missed events, oldest first, or null when some of
+ *   them are no longer buffered (or the id is from before a restart)
+ */
+export function getChangesSince(eventId: number): ChangeEvent[] | null {
+  if (eventId > lastEventId)
+    return null;
+
+  const oldest = buffer.length > 0 ? buffer[0].id : lastEventId + 1;
+  if (eventId < oldest - 1)
+    return null;
+
+  return buffer.filter(event => event.id > eventId);
+}
+
+/**
+ * Get the id of the newest event
+ * 
+ * @returns number - The id, 0 before the first event
+ */
+export function getLastEventId(): number {
+  return lastEventId;
+}
+
+/**
+ * Listen for new events
+ * 
+ * @param listener - Called with every event published from now on
+ * @returns () => void - Stops listening
+ */
+export function subscribeToChanges(listener: (event: ChangeEvent) => void): () => void {
+  emitter.on('change', listener);
+  return () => { emitter.off('change', listener); };
+}
+
+/**
+ * Publish a change to a record once its transaction has committed
+ * 
+ * The record is serialized right away, so later changes to the instance do not leak in.
+ */
+function queueChange(record: Model, action: ChangeAction, options: any): void {
+  const type = CHANGE_SOURCES[(record.constructor as ModelStatic<Model>).name];
+  if (type == null)
+    return;
+
+  const data = JSON.parse(JSON.stringify(record)) as Record<string, unknown>;
+  const change = {
+    type,
+    action,
+    recordId: data.id as number,
+    projectId: type == 'task' ? data.projectId as number : type == 'project' ? data.id as number : null,
+    occurredAt: new Date().toISOString(),
+    data
+  };
+
+  // A change that is rolled back never happened, so it is not published
+  if (options.transaction)
+    options.transaction.afterCommit(() => { publishChange(change); });
+  else
+    publishChange(change);
+}
+
+/**
+ * Publish the changes to the tasks, projects and tags of a database
+ * 
+ * Bulk changes are switched to individual hooks, so every record gets its event.
+ * 
+ * @param sequelize - The database
+ */
+export function registerChangeHooks(sequelize: Sequelize): void {
+  sequelize.addHook('afterCreate', (record: Model, options: any) => queueChange(record, 'created', options));
+  sequelize.addHook('afterUpdate', (record: Model, options: any) => {
+    if (!record.changed('deletedAt' as keyof Model))
+      return queueChange(record, 'updated', options);
+
+    // Records moved to the trash or restored along with another record are updated
+    queueChange(record, record.get('deletedAt') == null ? 'created' : 'deleted', options);
+  });
+  sequelize.addHook('afterDestroy', (record: Model, options: any) => {
+    // Purging a record from the trash publishes nothing, it was deleted when it was trashed
+    if (!options.force)
+      queueChange(record, 'deleted', options);
+  });
+  sequelize.addHook('afterRestore', (record: Model, options: any) => queueChange(record, 'created', options));
+
+  const individually = (options: any) => {
+    if (options.model && CHANGE_SOURCES[options.model.name])
+      options.individualHooks = true;
+  };
+  sequelize.addHook('beforeBulkUpdate', individually);
+  sequelize.addHook('beforeBulkDestroy', individually);
+  sequelize.addHook('beforeBulkRestore', individually);
+}
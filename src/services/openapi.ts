@@ -0,0 +1,837 @@
+/**
+ * OpenAPI Service
+ * 
+ * This file generates the OpenAPI 3 document served at /api/openapi.json.
+ * It demonstrates:
+ * 1. Schemas derived from the Sequelize attribute definitions and validators
+ * 2. Request schemas derived from the writable fields of each controller
+ * 3. Paths derived from the Express router table, described by each router's operation specs
+ * 
+ * Rules that live in custom validators (enums, the hex color format) cannot be read from
+ * the attribute definitions, so they are listed in ATTRIBUTE_RULES next to the constants
+ * the validators check against.
+ */
+
+import { Router } from 'express';
+import { Model, ModelAttributeColumnOptions, ModelStatic, Utils } from 'sequelize';
+import { TASK_STATUSES, TASK_PRIORITIES } from '../models/Task';
+import { PROJECT_STATUSES } from '../models/Project';
+import { PROJECT_ROLES } from '../models/ProjectMember';
+import { USER_ROLES } from '../models/User';
+import { HEX_COLOR_PATTERN } from '../models/Tag';
+import { AUDIT_ACTIONS } from '../models/AuditLog';
+import { WEBHOOK_EVENTS } from '../models/Webhook';
+import { DELIVERY_STATUSES } from '../models/WebhookDelivery';
+import { DEFAULT_LIMIT, MAX_LIMIT } from '../utils/pagination';
+import { MAX_IDEMPOTENCY_KEY_LENGTH } from '../middleware/idempotency';
+import { TRASH_TYPES } from './trash';
+import { CHANGE_TYPES } from './changeStream';
+import { AUDITED_RESOURCES } from './auditLog';
+import { EXPORT_COLUMNS, IMPORT_FIELDS, TAG_DELIMITER } from '../controllers/TaskCsvController';
+import { CALENDAR_COMPONENTS, CALENDAR_PRIORITIES, EVENT_STATUSES, TODO_STATUSES } from '../controllers/CalendarController';
+import { MERGE_PATCH_TYPE, JSON_PATCH_TYPE, WritableFields } from '../utils/requestBody';
+
+export type SchemaObject = Record<string, any>;
+
+// Named groups of query parameters, see QUERY_PARAMETERS
+export type QueryGroup = 'pagination' | 'taskFilters' | 'includes' | 'search' | 'trash' | 'audit' | 'deliveries' | 'events' | 'export' | 'import' | 'calendar';
+
+export interface OperationSpec {
+  summary: string;
+  // Operations that do not need a bearer token
+  public?: boolean;
+  query?: QueryGroup[];
+  // Component schema of the JSON request body
+  body?: string;
+  // Component schema of a text/csv request body, accepted as well as the JSON body
+  csvBody?: string;
+  // Component schema of a merge patch, JSON Patch documents are accepted as well
+  patch?: string;
+  // Component schema per success status, 'Name[]' for arrays and null for an empty body
+  responses: Record<number, string | null>;
+  // Media type of the success responses, application/json by default
+  contentType?: string;
+}
+
+// Operation specs of a router, keyed by lower case method and route path, e.g. 'get /:id'
+export type OperationSpecs = Record<string, OperationSpec>;
+
+export interface ApiRouter {
+  // Mount path within the version, e.g. /tasks
+  prefix: string;
+  router: Router;
+  // Whether every route of the router requires an authenticated user
+  authenticated: boolean;
+  operations: OperationSpecs;
+}
+
+export interface DocumentedModel {
+  model: ModelStatic<Model>;
+  // The attributes clients may write, to generate Create, Update and Patch schemas
+  fields?: WritableFields;
+  // Attributes the create operations set when they are left out, e.g. a task's userId
+  filledIn?: string[];
+  // Create schemas of nested routes by name, with the attributes each route takes from its path
+  nestedCreate?: Record<string, string[]>;
+}
+
+export interface RouteEntry {
+  method: string;
+  // Full Express path, e.g. /api/tasks/:id
+  path: string;
+  // Key of the route in its router's OperationSpecs
+  key: string;
+  operation?: OperationSpec;
+}
+
+// Rules enforced by custom validators
+const ATTRIBUTE_RULES: Record<string, Record<string, SchemaObject>> = {
+  Task: {
+    status: { enum: TASK_STATUSES },
+    priority: { enum: TASK_PRIORITIES },
+    dueDate: { description: 'Must be in the future' }
+  },
+  Project: {
+    status: { enum: PROJECT_STATUSES },
+    endDate: { description: 'Must be after startDate' }
+  },
+  ProjectMember: {
+    role: { enum: PROJECT_ROLES }
+  },
+  User: {
+    username: { description: 'Letters, numbers and spaces only' },
+    email: { format: 'email' },
+    password: { description: 'At least one uppercase letter, one number and one special character' },
+    role: { enum: USER_ROLES, description: 'Only admins may change a role' }
+  },
+  Tag: {
+    color: { pattern: HEX_COLOR_PATTERN.source }
+  },
+  AuditLog: {
+    action: { enum: AUDIT_ACTIONS },
+    changes: { description: 'The changed attributes with their values before and after, e.g. {"status": {"before": "pending", "after": "completed"}}' }
+  },
+  Webhook: {
+    url: { format: 'uri', description: 'An http or https URL' },
+    events: { type: 'array', items: { type: 'string', enum: WEBHOOK_EVENTS }, minItems: 1 },
+    secret: { description: 'Key of the X-Webhook-Signature HMAC, generated when left out' }
+  },
+  WebhookDelivery: {
+    status: { enum: DELIVERY_STATUSES },
+    payload: { description: 'The JSON body sent: event, occurredAt, data (the task or project) and for some events previous' }
+  }
+};
+
+// Attributes maintained by the database or Sequelize
+const READ_ONLY_ATTRIBUTES = ['createdAt', 'updatedAt', 'version'];
+
+// Parameters of paginate, except withDeleted
+const PAGE_PARAMETERS: SchemaObject[] = [
+  { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_LIMIT, default: DEFAULT_LIMIT } },
+  { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0, default: 0 } },
+  { name: 'cursor', in: 'query', description: 'meta.nextCursor of the previous page, takes precedence over offset', schema: { type: 'string' } },
+  { name: 'sort', in: 'query', description: 'Comma separated fields, - for descending, e.g. -dueDate,priority', schema: { type: 'string' } }
+];
+
+const QUERY_PARAMETERS: Record<QueryGroup, SchemaObject[]> = {
+  pagination: [
+    ...PAGE_PARAMETERS,
+    { name: 'withDeleted', in: 'query', description: 'Include records in the trash', schema: { type: 'boolean', default: false } }
+  ],
+  taskFilters: [
+    { name: 'status', in: 'query', description: 'Comma separated', schema: { type: 'string' } },
+    { name: 'priority', in: 'query', description: 'Comma separated', schema: { type: 'string' } },
+    { name: 'userId', in: 'query', description: 'Comma separated assignee ids', schema: { type: 'string' } },
+    { name: 'projectId', in: 'query', description: 'Comma separated', schema: { type: 'string' } },
+    { name: 'tag', in: 'query', description: 'Comma separated tag ids or names', schema: { type: 'string' } },
+    { name: 'tagMatch', in: 'query', schema: { type: 'string', enum: ['any', 'all'], default: 'any' } },
+    { name: 'dueBefore', in: 'query', schema: { type: 'string', format: 'date-time' } },
+    { name: 'dueAfter', in: 'query', schema: { type: 'string', format: 'date-time' } },
+    { name: 'overdue', in: 'query', schema: { type: 'boolean' } },
+    { name: 'text', in: 'query', description: 'Case-insensitive text in the title or description', schema: { type: 'string' } }
+  ],
+  includes: [
+    { name: 'include', in: 'query', description: 'Comma separated associations to embed, empty for none', schema: { type: 'string' } },
+    {
+      name: 'fields',
+      in: 'query',
+      description: 'Attributes to return per type, e.g. fields[task]=id,title',
+      style: 'deepObject',
+      explode: true,
+      schema: { type: 'object', additionalProperties: { type: 'string' } }
+    }
+  ],
+  search: [
+    { name: 'q', in: 'query', required: true, description: 'Words to search for', schema: { type: 'string' } },
+    { name: 'type', in: 'query', description: 'Comma separated: task, project, tag', schema: { type: 'string' } },
+    { name: 'projectId', in: 'query', description: 'Comma separated', schema: { type: 'string' } },
+    { name: 'status', in: 'query', description: 'Comma separated task or project statuses', schema: { type: 'string' } },
+    { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_LIMIT, default: DEFAULT_LIMIT } },
+    { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0, default: 0 } }
+  ],
+  trash: [
+    { name: 'type', in: 'query', description: `Comma separated: ${TRASH_TYPES.join(', ')}`, schema: { type: 'string' } },
+    { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_LIMIT, default: DEFAULT_LIMIT } },
+    { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0, default: 0 } }
+  ],
+  audit: [
+    { name: 'resource', in: 'query', description: `Comma separated: ${Object.keys(AUDITED_RESOURCES).join(', ')}`, schema: { type: 'string' } },
+    { name: 'recordId', in: 'query', description: 'Comma separated', schema: { type: 'string' } },
+    { name: 'actorId', in: 'query', description: 'Comma separated ids of the users who made the changes', schema: { type: 'string' } },
+    { name: 'action', in: 'query', description: `Comma separated: ${AUDIT_ACTIONS.join(', ')}`, schema: { type: 'string' } },
+    { name: 'after', in: 'query', description: 'Changes at or after this time', schema: { type: 'string', format: 'date-time' } },
+    { name: 'before', in: 'query', description: 'Changes before this time', schema: { type: 'string', format: 'date-time' } },
+    ...PAGE_PARAMETERS
+  ],
+  deliveries: [
+    { name: 'status', in: 'query', description: `Comma separated: ${DELIVERY_STATUSES.join(', ')}`, schema: { type: 'string' } },
+    ...PAGE_PARAMETERS
+  ],
+  events: [
+    { name: 'type', in: 'query', description: `Comma separated: ${CHANGE_TYPES.join(', ')}`, schema: { type: 'string' } },
+    { name: 'projectId', in: 'query', description: 'Comma separated, tags belong to no project', schema: { type: 'string' } },
+    { name: 'Last-Event-ID', in: 'header', description: 'Id of the last event received, to resume after it', schema: { type: 'integer', minimum: 0 } }
+  ],
+  export: [
+    { name: 'sort', in: 'query', description: 'Comma separated fields, - for descending, e.g. -dueDate,priority', schema: { type: 'string' } },
+    { name: 'withDeleted', in: 'query', description: 'Include tasks in the trash', schema: { type: 'boolean', default: false } }
+  ],
+  import: [
+    {
+      name: 'columns',
+      in: 'query',
+      style: 'deepObject',
+      description: 'text/csv uploads only: header names mapped to fields, e.g. columns[Due]=dueDate, or to nothing to ignore the column',
+      schema: { type: 'object', additionalProperties: { type: 'string', enum: [...IMPORT_FIELDS, ''] } }
+    },
+    { name: 'dryRun', in: 'query', description: 'text/csv uploads only: only check the rows', schema: { type: 'boolean', default: false } },
+    { name: 'createMissingTags', in: 'query', description: 'text/csv uploads only: create tags for unknown names (admins only)', schema: { type: 'boolean', default: false } }
+  ],
+  calendar: [
+    { name: 'token', in: 'query', required: true, description: 'The feed token, see POST /users/{id}/feed-token', schema: { type: 'string' } },
+    { name: 'component', in: 'query', description: 'Render the tasks as events or to-dos', schema: { type: 'string', enum: CALENDAR_COMPONENTS, default: 'VEVENT' } }
+  ]
+};
+
+/**
+ * Describe one attribute of a model
+ * 
+ * @param attribute - The attribute definition from Model.getAttributes()
+ * @param rules - Extra rules from ATTRIBUTE_RULES
+ * @returns SchemaObject - The JSON schema of the attribute
+ */
+function buildAttributeSchema(attribute: ModelAttributeColumnOptions, rules: SchemaObject = {}): SchemaObject {
+  const type = attribute.type as any;
+  const schema: SchemaObject = {};
+
+  switch (type.key) {
+    case 'INTEGER':
+    case 'BIGINT':
+      schema.type = 'integer';
+      break;
+    case 'FLOAT':
+    case 'DOUBLE':
+    case 'REAL':
+    case 'DECIMAL':
+      schema.type = 'number';
+      break;
+    case 'BOOLEAN':
+      schema.type = 'boolean';
+      break;
+    case 'DATE':
+      schema.type = 'string';
+      schema.format = 'date-time';
+      break;
+    case 'DATEONLY':
+      schema.type = 'string';
+      schema.format = 'date';
+      break;
+    case 'ENUM':
+      schema.type = 'string';
+      schema.enum = type.values;
+      break;
+    case 'JSON':
+      schema.type = 'object';
+      break;
+    default:
+      schema.type = 'string';
+      if (type.options?.length != null)
+        schema.maxLength = type.options.length;
+  }
+
+  const validate: Record<string, any> = attribute.validate ?? {};
+  if (Array.isArray(validate.len)) {
+    schema.minLength = validate.len[0];
+    schema.maxLength = validate.len[1];
+  }
+  if (validate.notEmpty && schema.minLength == null)
+    schema.minLength = 1;
+  if (validate.isEmail)
+    schema.format = 'email';
+  if (validate.isUrl)
+    schema.format = 'uri';
+  if (validate.isIn)
+    schema.enum = validate.isIn[0] ?? validate.isIn;
+  if (validate.min != null)
+    schema.minimum = validate.min;
+  if (validate.max != null)
+    schema.maximum = validate.max;
+
+  if (attribute.allowNull !== false && !attribute.primaryKey)
+    schema.nullable = true;
+
+  // Generated defaults (e.g. a webhook's secret) differ on every call, so they are not documented
+  if (attribute.defaultValue !== undefined && typeof attribute.defaultValue != 'function') {
+    const defaultValue = Utils.toDefaultValue(attribute.defaultValue);
+    if (typeof defaultValue != 'object' || defaultValue == null)
+      schema.default = defaultValue;
+  }
+
+  return { ...schema, ...rules };
+}
+
+/**
+ * Whether an attribute must be sent when a record is created or replaced
+ * 
+ * Same rule as buildReplacement: not nullable and without a default.
+ */
+function isRequired(attribute: ModelAttributeColumnOptions): boolean {
+  return attribute.allowNull === false && attribute.defaultValue === undefined;
+}
+
+/**
+ * Build the request schema for a list of writable attributes
+ * 
+ * @param model - The model
+ * @param names - The writable attributes
+ * @param writeOnly - Attributes that are never returned
+ * @param optional - Required attributes the operation fills in or keeps, or null to list none as required
+ * @returns SchemaObject - An object schema that rejects other properties
+ */
+function buildInputSchema(model: ModelStatic<Model>, names: string[], writeOnly: string[], optional: string[] | null): SchemaObject {
+  const attributes = model.getAttributes() as Record<string, ModelAttributeColumnOptions>;
+  const rules = ATTRIBUTE_RULES[model.name] ?? {};
+
+  const properties: Record<string, SchemaObject> = {};
+  for (const name of names) {
+    properties[name] = buildAttributeSchema(attributes[name], rules[name]);
+    if (writeOnly.includes(name))
+      properties[name].writeOnly = true;
+  }
+
+  const required = names.filter(name => isRequired(attributes[name]) && !optional?.includes(name));
+  return {
+    type: 'object',
+    properties,
+    ...(optional != null && required.length > 0 ? { required } : {}),
+    additionalProperties: false
+  };
+}
+
+/**
+ * Build the component schemas of the documented models
+ * 
+ * Every model gets a response schema named after it. Models with writable fields also get
+ * <Model>Create, <Model>Update (PUT, a full replacement) and <Model>Patch schemas, and a
+ * create schema per nested route that leaves out the attributes taken from the path. A PUT
+ * keeps left out write-only and keptOnReplace attributes, so <Model>Update does not require them.
+ * 
+ * @param models - The models and their writable fields
+ * @returns Record<string, SchemaObject> - The schemas by name
+ */
+export function buildModelSchemas(models: DocumentedModel[]): Record<string, SchemaObject> {
+  const schemas: Record<string, SchemaObject> = {};
+
+  for (const { model, fields, filledIn = [], nestedCreate = {} } of models) {
+    const attributes = model.getAttributes() as Record<string, ModelAttributeColumnOptions>;
+    const rules = ATTRIBUTE_RULES[model.name] ?? {};
+    const writeOnly = fields?.writeOnly ?? [];
+
+    const properties: Record<string, SchemaObject> = {};
+    for (const [name, attribute] of Object.entries(attributes)) {
+      if (writeOnly.includes(name))
+        continue;
+
+      properties[name] = buildAttributeSchema(attribute, rules[name]);
+      if (attribute.primaryKey || READ_ONLY_ATTRIBUTES.includes(name))
+        properties[name].readOnly = true;
+    }
+    schemas[model.name] = { type: 'object', properties };
+
+    if (fields != null) {
+      schemas[`${model.name}Create`] = buildInputSchema(model, fields.create, writeOnly, filledIn);
+      for (const [name, fromPath] of Object.entries(nestedCreate))
+        schemas[name] = buildInputSchema(model, fields.create.filter(field => !fromPath.includes(field)), writeOnly, filledIn);
+
+      schemas[`${model.name}Update`] = buildInputSchema(model, fields.update, writeOnly, [...writeOnly, ...fields.keptOnReplace ?? []]);
+      schemas[`${model.name}Patch`] = buildInputSchema(model, fields.update, writeOnly, null);
+    }
+  }
+
+  return schemas;
+}
+
+/**
+ * List the routes of an Express router, including the routers it mounts without a path
+ * 
+ * A route found twice is only listed once, Express always answers with the first one.
+ * 
+ * @param router - The router
+ * @param seen - The keys of the routes listed so far, e.g. 'get /:id'
+ */
+function listRouterRoutes(router: Router, seen: Set<string> = new Set()): { method: string, path: string }[] {
+  const routes: { method: string, path: string }[] = [];
+  for (const layer of router.stack) {
+    // An inherited router, e.g. a v2 router mounting the v1 routes it does not change
+    if (layer.route == null) {
+      if (layer.name == 'router')
+        routes.push(...listRouterRoutes(layer.handle as unknown as Router, seen));
+
+      continue;
+    }
+
+    const routePath = layer.route.path as string;
+    for (const method of Object.keys((layer.route as any).methods)) {
+      if (seen.has(`${method} ${routePath}`))
+        continue;
+
+      seen.add(`${method} ${routePath}`);
+      routes.push({ method, path: routePath });
+    }
+  }
+  return routes;
+}
+
+/**
+ * List every route of the router table
+ * 
+ * @param routers - The API routers and their operation specs
+ * @returns RouteEntry[] - One entry per method and path, with its operation spec if there is one
+ */
+export function listRoutes(routers: ApiRouter[]): RouteEntry[] {
+  const routes: RouteEntry[] = [];
+  for (const { prefix, router, operations } of routers) {
+    for (const { method, path: routePath } of listRouterRoutes(router)) {
+      const key = `${method} ${routePath}`;
+      routes.push({ method, path: routePath == '/' ? prefix : prefix + routePath, key, operation: operations[key] });
+    }
+  }
+  return routes;
+}
+
+// Accepted by every authenticated POST route, see middleware/idempotency.ts
+const IDEMPOTENCY_KEY_PARAMETER: SchemaObject = {
+  name: 'Idempotency-Key',
+  in: 'header',
+  description: 'Makes the request safe to retry, a retry with the same key gets the first response',
+  schema: { type: 'string', minLength: 1, maxLength: MAX_IDEMPOTENCY_KEY_LENGTH }
+};
+
+/**
+ * Turn a schema name from an operation spec into a schema
+ * 
+ * @param name - A component name, or 'Name[]' for an array of them
+ */
+function schemaRef(name: string): SchemaObject {
+  if (name.endsWith('[]'))
+    return { type: 'array', items: schemaRef(name.slice(0, -2)) };
+
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * Describe one operation
+ * 
+ * @param route - The route and its operation spec
+ * @returns SchemaObject - The OpenAPI operation object
+ */
+function buildOperation(route: RouteEntry): SchemaObject {
+  const operation = route.operation!;
+  const tag = route.path.split('/')[1];
+
+  const parameters: SchemaObject[] = [...route.path.matchAll(/:(\w+)/g)].map(match => ({
+    name: match[1],
+    in: 'path',
+    required: true,
+    schema: { type: 'integer' }
+  }));
+  for (const group of operation.query ?? [])
+    parameters.push(...QUERY_PARAMETERS[group]);
+  if (route.method == 'post' && !operation.public)
+    parameters.push(IDEMPOTENCY_KEY_PARAMETER);
+
+  let requestBody: SchemaObject | undefined;
+  if (operation.body != null)
+    requestBody = { required: true, content: { 'application/json': { schema: schemaRef(operation.body) } } };
+
+  if (operation.csvBody != null)
+    requestBody = { required: true, content: { ...requestBody?.content, 'text/csv': { schema: schemaRef(operation.csvBody) } } };
+
+  if (operation.patch != null) {
+    requestBody = {
+      required: true,
+      content: {
+        [MERGE_PATCH_TYPE]: { schema: schemaRef(operation.patch) },
+        'application/json': { schema: schemaRef(operation.patch) },
+        [JSON_PATCH_TYPE]: { schema: schemaRef('JsonPatch') }
+      }
+    };
+  }
+
+  const responses: SchemaObject = {};
+  for (const [status, schema] of Object.entries(operation.responses)) {
+    responses[status] = schema == null
+      ? { description: 'No content' }
+      : { description: 'Success', content: { [operation.contentType ?? 'application/json']: { schema: schemaRef(schema) } } };
+  }
+  responses.default = { $ref: '#/components/responses/Error' };
+
+  return {
+    summary: operation.summary,
+    tags: [tag],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(requestBody ? { requestBody } : {}),
+    responses,
+    ...(operation.public ? { security: [] } : {})
+  };
+}
+
+/**
+ * Build the schemas that are not generated from a model
+ * 
+ * @param schemas - The generated model schemas, some of the others are derived from them
+ */
+function buildStaticSchemas(schemas: Record<string, SchemaObject>): Record<string, SchemaObject> {
+  const page = (name: string) => ({
+    type: 'object',
+    properties: { data: schemaRef(`${name}[]`), meta: schemaRef('PageMeta'), links: schemaRef('PageLinks') }
+  });
+
+  // e.g. "high 1, medium 5, low 9"
+  const describeMapping = (mapping: Record<string, string | number>) =>
+    Object.entries(mapping).map(([key, value]) => `${key} ${value}`).join(', ');
+
+  const { role, ...registerProperties } = schemas.UserCreate.properties;
+
+  return {
+    Error: {
+      type: 'object',
+      required: ['error', 'code'],
+      properties: {
+        error: { type: 'string', description: 'Human readable message, may change' },
+        code: { type: 'string', description: 'Stable error code, see the README' },
+        details: { type: 'array', items: { type: 'object' } },
+        correlationId: { type: 'string', description: 'Only for 500 internal_error, also logged on the server' }
+      }
+    },
+    PageMeta: {
+      type: 'object',
+      properties: {
+        total: { type: 'integer' },
+        limit: { type: 'integer' },
+        offset: { type: 'integer', nullable: true },
+        sort: { type: 'string' },
+        nextCursor: { type: 'string', nullable: true }
+      }
+    },
+    PageLinks: {
+      type: 'object',
+      properties: {
+        self: { type: 'string' },
+        next: { type: 'string', nullable: true },
+        prev: { type: 'string', nullable: true }
+      }
+    },
+    TaskPage: page('Task'),
+    ProjectPage: page('Project'),
+    UserPage: page('User'),
+    TagPage: page('Tag'),
+    AuditLogPage: page('AuditLog'),
+    WebhookPage: page('Webhook'),
+    WebhookDeliveryPage: page('WebhookDelivery'),
+    WebhookWithSecret: {
+      allOf: [schemaRef('Webhook'), { type: 'object', properties: { secret: { type: 'string' } } }]
+    },
+    ChangeEvent: {
+      type: 'object',
+      description: 'The data of each event, named <type>.<action> (e.g. task.updated) and sent with an id. '
+        + 'A resync event means some events were missed and the client should reload',
+      properties: {
+        type: { type: 'string', enum: CHANGE_TYPES },
+        action: { type: 'string', enum: ['created', 'updated', 'deleted'] },
+        recordId: { type: 'integer' },
+        projectId: { type: 'integer', nullable: true },
+        occurredAt: { type: 'string', format: 'date-time' },
+        data: { oneOf: [schemaRef('Task'), schemaRef('Project'), schemaRef('Tag')] }
+      }
+    },
+    TaskCsv: {
+      type: 'string',
+      description: `Columns: ${EXPORT_COLUMNS.join(', ')}. user and project are names, tags are joined with "${TAG_DELIMITER} "`
+    },
+    TaskImportRequest: {
+      type: 'object',
+      required: ['csv'],
+      properties: {
+        csv: { type: 'string', description: 'A CSV document with a header row' },
+        columns: {
+          type: 'object',
+          description: 'Header names mapped to fields, or to null to ignore the column. Other columns named like a field are mapped to it',
+          additionalProperties: { type: 'string', enum: IMPORT_FIELDS, nullable: true }
+        },
+        dryRun: { type: 'boolean', default: false, description: 'Only check the rows' },
+        createMissingTags: { type: 'boolean', default: false, description: 'Create tags for unknown names (admins only)' }
+      },
+      additionalProperties: false
+    },
+    TaskImportResult: {
+      type: 'object',
+      properties: {
+        dryRun: { type: 'boolean' },
+        rows: { type: 'integer' },
+        valid: { type: 'integer' },
+        invalid: { type: 'integer' },
+        ignoredColumns: { type: 'array', items: { type: 'string' } },
+        newTags: { type: 'array', items: { type: 'string' }, description: 'Tags that are (or would be) created' },
+        errors: {
+          type: 'array',
+          items: { allOf: [schemaRef('Error'), { type: 'object', properties: { row: { type: 'integer', description: 'The header is row 1' } } }] }
+        },
+        taskIds: { type: 'array', items: { type: 'integer' }, description: 'The created tasks, not for a dry run' }
+      }
+    },
+    Calendar: {
+      type: 'string',
+      description: 'An iCalendar document with a VEVENT or VTODO per task, cancelled tasks are left out. UIDs are task-<id>@task-management-api. '
+        + `PRIORITY per task priority: ${describeMapping(CALENDAR_PRIORITIES)}. `
+        + `VTODO STATUS: ${describeMapping(TODO_STATUSES)}. VEVENT STATUS: ${describeMapping(EVENT_STATUSES)}`
+    },
+    FeedToken: {
+      type: 'object',
+      properties: {
+        token: { type: 'string', description: 'Only shown in this response, a new token replaces the old one' },
+        createdAt: { type: 'string', format: 'date-time' },
+        calendarUrl: { type: 'string', description: 'The user\'s feed, the feed of a project is /projects/{id}/calendar.ics?token=...' }
+      }
+    },
+    GraphQLRequest: {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query: { type: 'string', description: 'The GraphQL document, the schema can be read with an introspection query' },
+        variables: { type: 'object', nullable: true },
+        operationName: { type: 'string', nullable: true }
+      },
+      additionalProperties: false
+    },
+    GraphQLResponse: {
+      type: 'object',
+      properties: {
+        data: { type: 'object', nullable: true },
+        errors: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              path: { type: 'array', items: { oneOf: [{ type: 'string' }, { type: 'integer' }] } },
+              extensions: {
+                type: 'object',
+                description: 'The code, status and details the REST API would answer with',
+                properties: { code: { type: 'string' }, status: { type: 'integer' }, details: { type: 'array', items: { type: 'object' } } }
+              }
+            }
+          }
+        }
+      }
+    },
+    WebhookDeliveryWithAttempts: {
+      allOf: [schemaRef('WebhookDelivery'), { type: 'object', properties: { attempts: schemaRef('WebhookAttempt[]') } }]
+    },
+    JsonPatch: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['op', 'path'],
+        properties: {
+          op: { type: 'string', enum: ['add', 'remove', 'replace', 'move', 'copy', 'test'] },
+          path: { type: 'string', description: 'A top-level field, e.g. /status' },
+          from: { type: 'string' },
+          value: {}
+        }
+      }
+    },
+    RegisterRequest: { ...schemas.UserCreate, properties: registerProperties },
+    LoginRequest: {
+      type: 'object',
+      required: ['password'],
+      properties: {
+        username: { type: 'string', description: 'The username or email' },
+        email: { type: 'string' },
+        password: { type: 'string', writeOnly: true }
+      }
+    },
+    RefreshRequest: {
+      type: 'object',
+      required: ['refreshToken'],
+      properties: { refreshToken: { type: 'string' } }
+    },
+    TokenPair: {
+      type: 'object',
+      properties: {
+        accessToken: { type: 'string' },
+        refreshToken: { type: 'string' },
+        tokenType: { type: 'string', enum: ['Bearer'] },
+        expiresIn: { type: 'integer', description: 'Seconds until the access token expires' }
+      }
+    },
+    AuthResponse: {
+      allOf: [schemaRef('TokenPair'), { type: 'object', properties: { user: schemaRef('User') } }]
+    },
+    ProjectMemberCreate: {
+      type: 'object',
+      required: ['userId'],
+      properties: { userId: { type: 'integer' }, role: schemas.ProjectMember.properties.role }
+    },
+    ProjectMemberUpdate: {
+      type: 'object',
+      required: ['role'],
+      properties: { role: schemas.ProjectMember.properties.role }
+    },
+    TagChange: {
+      type: 'object',
+      required: ['tags'],
+      properties: {
+        tags: { type: 'array', items: { oneOf: [{ type: 'integer' }, { type: 'string' }] }, description: 'Tag ids or names' },
+        createMissing: { type: 'boolean', description: 'Create tags for unknown names (admins only), not for DELETE' }
+      },
+      additionalProperties: false
+    },
+    BulkRequest: {
+      type: 'object',
+      required: ['operations'],
+      properties: {
+        mode: { type: 'string', enum: ['atomic', 'partial'], default: 'atomic' },
+        operations: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['op'],
+            properties: {
+              op: { type: 'string', enum: ['create', 'update', 'delete', 'addTags', 'removeTags', 'setTags'] },
+              id: { type: 'integer' },
+              data: { type: 'object', description: 'TaskCreate for create, a TaskPatch merge patch for update' },
+              tagIds: { type: 'array', items: { type: 'integer' } }
+            }
+          }
+        }
+      }
+    },
+    BulkResponse: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string' },
+        succeeded: { type: 'integer' },
+        failed: { type: 'integer' },
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: { type: 'integer' },
+              op: { type: 'string' },
+              status: { type: 'integer' },
+              id: { type: 'integer' },
+              data: {},
+              error: schemaRef('Error')
+            }
+          }
+        }
+      }
+    },
+    SearchResponse: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ['task', 'project', 'tag'] },
+              id: { type: 'integer' },
+              projectId: { type: 'integer', nullable: true },
+              status: { type: 'string', nullable: true },
+              score: { type: 'number' },
+              highlights: { type: 'object', properties: { title: { type: 'string' }, snippet: { type: 'string' } } }
+            }
+          }
+        },
+        meta: { type: 'object' }
+      }
+    },
+    TrashResponse: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: TRASH_TYPES },
+              id: { type: 'integer' },
+              deletedAt: { type: 'string', format: 'date-time' },
+              data: { oneOf: [schemaRef('Task'), schemaRef('Project'), schemaRef('User'), schemaRef('Tag')] }
+            }
+          }
+        },
+        meta: { type: 'object', properties: { total: { type: 'integer' }, limit: { type: 'integer' }, offset: { type: 'integer' } } }
+      }
+    }
+  };
+}
+
+/**
+ * Build the OpenAPI document
+ * 
+ * Routes without an operation spec are left out, the OpenAPI test fails for them.
+ * 
+ * @param routers - The API routers of one version and their operation specs
+ * @param models - The models to describe
+ * @param serverUrl - Where the version is mounted, e.g. /api/v1
+ * @returns SchemaObject - The OpenAPI 3 document
+ */
+export function buildOpenApiDocument(routers: ApiRouter[], models: DocumentedModel[], serverUrl: string): SchemaObject {
+  const modelSchemas = buildModelSchemas(models);
+  const schemas = { ...modelSchemas, ...buildStaticSchemas(modelSchemas) };
+
+  const paths: Record<string, SchemaObject> = {};
+  for (const route of listRoutes(routers)) {
+    if (route.operation == null)
+      continue;
+
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = { ...paths[path], [route.method]: buildOperation(route) };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Task Management API',
+      version: '1.0.0',
+      description: 'Tasks, projects, users and tags. Errors always have the Error shape, see the README for the codes.'
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: {
+      schemas,
+      responses: {
+        Error: { description: 'An error', content: { 'application/json': { schema: schemaRef('Error') } } }
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+      }
+    },
+    security: [{ bearerAuth: [] }]
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Schema Upgrade Service
+ * 
+ * This file brings the tables of an existing database up to date with the models.
+ * It demonstrates:
+ * 1. Comparing a table's columns with its model's attributes
+ * 2. Adding the missing columns with their defaults
+ * 
+ * sequelize.sync() only creates missing tables, it never changes existing ones, and
+ * sync({ alter: true }) rebuilds every SQLite table. Columns added to a model since
+ * the database was created (e.g. User.role, the version columns and deletedAt) are
+ * therefore added here, after sync. Existing rows get the column's default value.
+ */
+
+import { DataTypes, ModelAttributeColumnOptions, Sequelize } from 'sequelize';
+
+/**
+ * Add the model attributes that have no column yet
+ * 
+ * @param sequelize - The database, with every model defined and synced
+ * @returns Promise<string[]> - The columns added, as table.column
+ * @throws Error - When a missing column is required but has no default to fill existing rows with
+ */
+export async function addMissingColumns(sequelize: Sequelize): Promise<string[]> {
+  const queryInterface = sequelize.getQueryInterface();
+  const added: string[] = [];
+
+  for (const model of Object.values(sequelize.models)) {
+    const table = model.getTableName() as string;
+    const columns = await queryInterface.describeTable(table);
+
+    for (const [name, attribute] of Object.entries(model.getAttributes()) as [string, ModelAttributeColumnOptions][]) {
+      const column = attribute.field ?? name;
+      if (column in columns || attribute.type instanceof DataTypes.VIRTUAL)
+        continue;
+
+      if (attribute.allowNull === false && attribute.defaultValue === undefined)
+        throw new Error(`Cannot add ${table}.${column} to the existing rows, it is required and has no default`);
+
+      await queryInterface.addColumn(table, column, attribute);
+      added.push(`${table}.${column}`);
+    }
+  }
+
+  return added;
+}
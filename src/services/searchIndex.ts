@@ -0,0 +1,308 @@
+/**
+ * Search Index Service
+ * 
+ * This file maintains the SQLite FTS5 full-text index used by GET /api/search.
+ * It demonstrates:
+ * 1. An FTS5 virtual table with ranked (bm25) queries and highlighted snippets
+ *    (HTML escaped, so only the <mark> tags around the matches are markup)
+ * 2. Keeping the index in sync through model hooks
+ * 3. Backfilling the index from existing rows
+ * 
+ * One table holds every searchable resource, so results of different types can be
+ * ranked against each other:
+ * - task: title, description (projectId and status are stored for filtering)
+ * - project: name, description (its own id is stored as projectId)
+ * - tag: name
+ * 
+ * This module only depends on the Sequelize instance of the records it is given,
+ * so models/index.ts can register its hooks without a circular import.
+ */
+
+import { Model, ModelStatic, QueryTypes, Sequelize, Transaction } from 'sequelize';
+
+export type SearchResourceType = 'task' | 'project' | 'tag';
+
+export const SEARCH_RESOURCE_TYPES: SearchResourceType[] = ['task', 'project', 'tag'];
+
+interface SearchDocument {
+  resourceType: SearchResourceType;
+  resourceId: number;
+  projectId: number | null;
+  status: string | null;
+  title: string;
+  body: string;
+}
+
+export interface SearchIndexQuery {
+  terms: string[];
+  types: SearchResourceType[];
+  projectIds?: number[];
+  statuses?: string[];
+}
+
+export interface SearchHit {
+  resourceType: SearchResourceType;
+  resourceId: number;
+  projectId: number | null;
+  status: string | null;
+  score: number;
+  title: string;
+  snippet: string;
+}
+
+const TABLE = 'search_index';
+
+// Control characters FTS5 puts around the matches, replaced by <mark> tags once the text is escaped
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+const HTML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// How each searchable model is turned into a search document
+const DOCUMENTS: Record<string, (record: any) => SearchDocument> = {
+  Task: task => ({
+    resourceType: 'task',
+    resourceId: task.id,
+    projectId: task.projectId,
+    status: task.status,
+    title: task.title,
+    body: task.description ?? ''
+  }),
+  Project: project => ({
+    resourceType: 'project',
+    resourceId: project.id,
+    projectId: project.id,
+    status: project.status,
+    title: project.name,
+    body: project.description ?? ''
+  }),
+  Tag: tag => ({
+    resourceType: 'tag',
+    resourceId: tag.id,
+    projectId: null,
+    status: null,
+    title: tag.name,
+    body: ''
+  })
+};
+
+// Statements that fill the index from the existing tables, used when the index is first created.
+// Records in the trash are left out.
+const BACKFILL = [
+  `INSERT INTO ${TABLE} (resourceType, resourceId, projectId, status, title, body)
+   SELECT 'task', id, projectId, status, title, COALESCE(description, '') FROM tasks WHERE deletedAt IS NULL`,
+  `INSERT INTO ${TABLE} (resourceType, resourceId, projectId, status, title, body)
+   SELECT 'project', id, id, status, name, COALESCE(description, '') FROM projects WHERE deletedAt IS NULL`,
+  `INSERT INTO ${TABLE} (resourceType, resourceId, projectId, status, title, body)
+   SELECT 'tag', id, NULL, NULL, name, '' FROM tags WHERE deletedAt IS NULL`
+];
+
+const ready = new WeakMap<Sequelize, Promise<void>>();
+
+/**
+ * Create the index for a database if it does not exist yet
+ * 
+ * When the table is created, rows already in the tasks, projects and tags tables
+ * are indexed. Runs once per Sequelize instance.
+ * 
+ * @param sequelize - The database to index
+ */
+export function ensureSearchIndex(sequelize: Sequelize): Promise<void> {
+  let promise = ready.get(sequelize);
+  if (promise == null) {
+    promise = createSearchIndex(sequelize);
+    ready.set(sequelize, promise);
+    promise.catch(() => ready.delete(sequelize));
+  }
+
+  return promise;
+}
+
+async function createSearchIndex(sequelize: Sequelize): Promise<void> {
+  const existing = await sequelize.query(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = :name`,
+    { replacements: { name: TABLE }, type: QueryTypes.SELECT }
+  );
+  if (existing.length > 0)
+    return;
+
+  await sequelize.query(
+    `CREATE VIRTUAL TABLE IF NOT EXISTS ${TABLE} USING fts5(
+      resourceType UNINDEXED, resourceId UNINDEXED, projectId UNINDEXED, status UNINDEXED,
+      title, body, tokenize = 'porter unicode61'
+    )`
+  );
+
+  const tables = await sequelize.getQueryInterface().showAllTables();
+  for (const [index, table] of ['tasks', 'projects', 'tags'].entries()) {
+    if (tables.includes(table))
+      await sequelize.query(BACKFILL[index]);
+  }
+}
+
+/**
+ * Drop and recreate the index from the current tasks, projects and tags
+ * 
+ * Needed after sequelize.sync({ force: true }), which recreates the model
+ * tables but leaves the virtual table and its rows behind.
+ * 
+ * @param sequelize - The database to index
+ */
+export async function rebuildSearchIndex(sequelize: Sequelize): Promise<void> {
+  ready.delete(sequelize);
+  await sequelize.query(`DROP TABLE IF EXISTS ${TABLE}`);
+  await ensureSearchIndex(sequelize);
+}
+
+/**
+ * Add or replace a record in the index
+ * 
+ * @param record - A Task, Project or Tag instance
+ * @param transaction - The transaction the record was saved in, if any
+ */
+export async function indexRecord(record: Model, transaction?: Transaction | null): Promise<void> {
+  const toDocument = DOCUMENTS[record.constructor.name];
+  const sequelize = record.sequelize;
+  if (toDocument == null || sequelize == null)
+    return;
+
+  const document = toDocument(record.get());
+  await ensureSearchIndex(sequelize);
+  await removeDocument(sequelize, document.resourceType, document.resourceId, transaction);
+  await sequelize.query(
+    `INSERT INTO ${TABLE} (resourceType, resourceId, projectId, status, title, body)
+     VALUES (:resourceType, :resourceId, :projectId, :status, :title, :body)`,
+    { replacements: { ...document }, transaction: transaction ?? undefined }
+  );
+}
+
+/**
+ * Remove a record from the index
+ * 
+ * @param record - A Task, Project or Tag instance
+ * @param transaction - The transaction the record was deleted in, if any
+ */
+export async function removeRecord(record: Model, transaction?: Transaction | null): Promise<void> {
+  const toDocument = DOCUMENTS[record.constructor.name];
+  const sequelize = record.sequelize;
+  if (toDocument == null || sequelize == null)
+    return;
+
+  const document = toDocument(record.get());
+  await ensureSearchIndex(sequelize);
+  await removeDocument(sequelize, document.resourceType, document.resourceId, transaction);
+}
+
+async function removeDocument(sequelize: Sequelize, resourceType: string, resourceId: number, transaction?: Transaction | null) {
+  await sequelize.query(
+    `DELETE FROM ${TABLE} WHERE resourceType = :resourceType AND resourceId = :resourceId`,
+    { replacements: { resourceType, resourceId }, transaction: transaction ?? undefined }
+  );
+}
+
+/**
+ * Keep the index in sync with a model through its hooks
+ * 
+ * Bulk updates, deletes and restores only know their where clause, so they are
+ * switched to individual hooks for these models. Records moved to the trash (by
+ * destroy or by setting deletedAt) leave the index and return when restored.
+ * 
+ * @param model - Task, Project or Tag
+ */
+export function registerSearchHooks(model: ModelStatic<Model>): void {
+  model.addHook('afterCreate', (record: Model, options: any) => indexRecord(record, options.transaction));
+  model.addHook('afterUpdate', (record: Model, options: any) => record.get('deletedAt') == null
+    ? indexRecord(record, options.transaction)
+    : removeRecord(record, options.transaction));
+  model.addHook('afterDestroy', (record: Model, options: any) => removeRecord(record, options.transaction));
+  model.addHook('afterRestore', (record: Model, options: any) => indexRecord(record, options.transaction));
+  model.addHook('afterBulkCreate', async (records: Model[], options: any) => {
+    for (const record of records)
+      await indexRecord(record, options.transaction);
+  });
+  model.addHook('beforeBulkUpdate', (options: any) => { options.individualHooks = true; });
+  model.addHook('beforeBulkDestroy', (options: any) => { options.individualHooks = true; });
+  model.addHook('beforeBulkRestore', (options: any) => { options.individualHooks = true; });
+}
+
+/**
+ * Turn user input into a safe FTS5 query
+ * 
+ * Every word is quoted, so FTS5 operators in the input are matched literally,
+ * and the last word also matches as a prefix.
+ * 
+ * @param terms - The words to search for
+ * @returns string - The MATCH expression
+ */
+function toMatchExpression(terms: string[]): string {
+  return terms.map((term, index) => {
+    const quoted = `"${term.replace(/"/g, '""')}"`;
+    return index == terms.length - 1 ? quoted + '*' : quoted;
+  }).join(' ');
+}
+
+/**
+ * Turn highlighted text from FTS5 into HTML
+ * 
+ * The text is escaped before the match markers become <mark> tags, so titles and
+ * descriptions can never add markup of their own.
+ * 
+ * @param text - The text with the matches between MATCH_START and MATCH_END
+ * @returns string - Safe HTML with the matches wrapped in <mark> tags
+ */
+function toHighlightHtml(text: string): string {
+  return text
+    .replace(/[&<>"']/g, char => HTML_ENTITIES[char])
+    .split(MATCH_START).join('<mark>')
+    .split(MATCH_END).join('</mark>');
+}
+
+/**
+ * Run a ranked query against the index
+ * 
+ * @param sequelize - The database to search
+ * @param query - The words to search for and the filters to apply
+ * @returns Promise<SearchHit[]> - The matches, best first
+ */
+export async function querySearchIndex(sequelize: Sequelize, query: SearchIndexQuery): Promise<SearchHit[]> {
+  await ensureSearchIndex(sequelize);
+
+  const conditions = [`${TABLE} MATCH :match`, `resourceType IN (:types)`];
+  const replacements: Record<string, any> = {
+    match: toMatchExpression(query.terms),
+    types: query.types,
+    matchStart: MATCH_START,
+    matchEnd: MATCH_END
+  };
+  if (query.projectIds) {
+    conditions.push('projectId IN (:projectIds)');
+    replacements.projectIds = query.projectIds;
+  }
+  if (query.statuses) {
+    conditions.push('status IN (:statuses)');
+    replacements.statuses = query.statuses;
+  }
+
+  // Title matches weigh ten times more than body matches
+  const rows = await sequelize.query<any>(
+    `SELECT resourceType, resourceId, projectId, status,
+       bm25(${TABLE}, 0, 0, 0, 0, 10.0, 1.0) AS score,
+       highlight(${TABLE}, 4, :matchStart, :matchEnd) AS title,
+       snippet(${TABLE}, 5, :matchStart, :matchEnd, '…', 16) AS snippet
+     FROM ${TABLE}
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY score`,
+    { replacements, type: QueryTypes.SELECT }
+  );
+
+  // bm25 is lower for better matches, flip it so a higher score is better
+  return rows.map(row => ({
+    resourceType: row.resourceType,
+    resourceId: Number(row.resourceId),
+    projectId: row.projectId == null ? null : Number(row.projectId),
+    status: row.status,
+    score: -row.score,
+    title: toHighlightHtml(row.title),
+    snippet: toHighlightHtml(row.snippet)
+  }));
+}
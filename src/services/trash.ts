@@ -0,0 +1,141 @@
+/**
+ * Trash Service
+ * 
+ * This file implements soft deletes for users, projects, tasks and tags (paranoid models).
+ * It demonstrates:
+ * 1. Moving a record and its dependent records to the trash in one transaction
+ * 2. Restoring a record together with the records that were trashed with it
+ * 3. Purging a record from the trash for good
+ * 
+ * Soft deletes do not trigger the onDelete: 'CASCADE' foreign keys, so the records
+ * that depend on a user or project are moved to the trash here instead:
+ * - user: the tasks assigned to them and the projects they own, with those projects' tasks
+ * - project: its tasks
+ * 
+ * The dependent records get the same deletedAt as the record itself, which is how a
+ * restore tells them apart from records that were deleted on their own. Purging hard
+ * deletes the row, and the foreign keys remove its dependent rows.
+ */
+
+import { Model, Op, Transaction } from 'sequelize';
+import { User, Task, Project, Tag } from '../models';
+import { ConflictError } from '../utils/errors';
+
+export type TrashableRecord = User | Project | Task | Tag;
+
+export type TrashType = 'task' | 'project' | 'user' | 'tag';
+
+export const TRASH_TYPES: TrashType[] = ['task', 'project', 'user', 'tag'];
+
+/**
+ * Move the records that depend on a record to the trash, with the record's deletedAt
+ */
+async function trashDependents(record: TrashableRecord, deletedAt: Date, transaction: Transaction): Promise<void> {
+  if (record instanceof User) {
+    const projects = await Project.findAll({ attributes: ['id'], where: { userId: record.id }, transaction });
+    await Project.update({ deletedAt }, { where: { userId: record.id }, transaction });
+    await Task.update({ deletedAt }, {
+      where: { [Op.or]: [{ userId: record.id }, { projectId: { [Op.in]: projects.map(project => project.id) } }] },
+      transaction
+    });
+  } else if (record instanceof Project) {
+    await Task.update({ deletedAt }, { where: { projectId: record.id }, transaction });
+  }
+}
+
+/**
+ * Restore the records that were moved to the trash together with a record
+ * 
+ * Tasks whose project or assignee is still in the trash for another reason stay there.
+ */
+async function restoreDependents(record: TrashableRecord, deletedAt: Date, transaction: Transaction): Promise<void> {
+  let taskWhere: Record<string | symbol, unknown>;
+  if (record instanceof User) {
+    const projects = await Project.findAll({ attributes: ['id'], where: { userId: record.id, deletedAt }, paranoid: false, transaction });
+    await Project.restore({ where: { id: { [Op.in]: projects.map(project => project.id) } }, transaction });
+    taskWhere = { [Op.or]: [{ userId: record.id }, { projectId: { [Op.in]: projects.map(project => project.id) } }] };
+  } else if (record instanceof Project) {
+    taskWhere = { projectId: record.id };
+  } else {
+    return;
+  }
+
+  const tasks = await Task.findAll({ attributes: ['id', 'userId', 'projectId'], where: { ...taskWhere, deletedAt }, paranoid: false, transaction });
+  const liveProjects = await Project.findAll({ attributes: ['id'], where: { id: { [Op.in]: tasks.map(task => task.projectId) } }, transaction });
+  const liveUsers = await User.findAll({ attributes: ['id'], where: { id: { [Op.in]: tasks.map(task => task.userId) } }, transaction });
+  const restorable = tasks.filter(task =>
+    liveProjects.some(project => project.id == task.projectId) && liveUsers.some(user => user.id == task.userId));
+
+  await Task.restore({ where: { id: { [Op.in]: restorable.map(task => task.id) } }, transaction });
+}
+
+/**
+ * Get the record a restored record would belong to that is still in the trash
+ * 
+ * @returns string | null - e.g. 'project 3', or null when every parent exists
+ */
+async function findTrashedParent(record: TrashableRecord, transaction: Transaction): Promise<string | null> {
+  const parents: [string, typeof User | typeof Project, number][] = [];
+  if (record instanceof Task)
+    parents.push(['project', Project, record.projectId], ['user', User, record.userId]);
+  else if (record instanceof Project)
+    parents.push(['user', User, record.userId]);
+
+  for (const [name, model, id] of parents) {
+    const parent = await (model as any).findByPk(id, { attributes: ['id'], transaction });
+    if (parent == null)
+      return `${name} ${id}`;
+  }
+  return null;
+}
+
+/**
+ * Move a record and the records that depend on it to the trash
+ * 
+ * @param record - A user, project, task or tag that is not in the trash
+ */
+export async function trashRecord(record: TrashableRecord): Promise<void> {
+  await record.sequelize.transaction(async transaction => {
+    await record.destroy({ transaction });
+    await trashDependents(record, record.deletedAt!, transaction);
+  });
+}
+
+/**
+ * Restore a record from the trash, with the records that were trashed together with it
+ * 
+ * @param record - A user, project, task or tag loaded with paranoid: false
+ * @throws ConflictError - When the record is not in the trash, or belongs to a record that still is
+ */
+export async function restoreRecord(record: TrashableRecord): Promise<void> {
+  const deletedAt = record.deletedAt;
+  if (deletedAt == null) {
+    throw new ConflictError(`${record.constructor.name} ${record.id} is not in the trash`, 'not_in_trash');
+  }
+
+  await record.sequelize.transaction(async transaction => {
+    const parent = await findTrashedParent(record, transaction);
+    if (parent != null) {
+      throw new ConflictError(`${record.constructor.name} ${record.id} belongs to ${parent}, which is in the trash. Restore it first`, 'parent_in_trash');
+    }
+
+    await (record as Model).restore({ transaction });
+    await restoreDependents(record, deletedAt, transaction);
+  });
+}
+
+/**
+ * Delete a record in the trash for good
+ * 
+ * The database removes the rows that depend on it (tasks, memberships, tag links).
+ * 
+ * @param record - A user, project, task or tag loaded with paranoid: false
+ * @throws ConflictError - When the record is not in the trash
+ */
+export async function purgeRecord(record: TrashableRecord): Promise<void> {
+  if (record.deletedAt == null) {
+    throw new ConflictError(`${record.constructor.name} ${record.id} is not in the trash, delete it first`, 'not_in_trash');
+  }
+
+  await (record as Model).destroy({ force: true });
+}
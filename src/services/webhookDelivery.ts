@@ -0,0 +1,195 @@
+/**
+ * Webhook Delivery Service
+ * 
+ * This file sends the queued webhook deliveries.
+ * It demonstrates:
+ * 1. A worker polling a persisted queue
+ * 2. HMAC-SHA256 request signatures
+ * 3. Retries with exponential backoff
+ * 4. Recording every attempt with its status code and latency
+ * 
+ * Each request is a POST of the delivery's payload with these headers:
+ * - X-Webhook-Event: the event, e.g. task.completed
+ * - X-Webhook-Delivery: the delivery id, the same for every attempt
+ * - X-Webhook-Timestamp: Unix time in seconds of the attempt
+ * - X-Webhook-Signature: sha256=<hex HMAC of "<timestamp>.<body>" keyed with the webhook's secret>
+ * 
+ * A 2xx response completes the delivery. Any other response, a redirect, a timeout or a
+ * network error is retried after WEBHOOK_RETRY_DELAY seconds, doubling with every attempt,
+ * until WEBHOOK_MAX_ATTEMPTS attempts have been made and the delivery fails.
+ */
+
+import { createHmac } from 'crypto';
+import { Op } from 'sequelize';
+import { Webhook } from '../models/Webhook';
+import { WebhookDelivery } from '../models/WebhookDelivery';
+import { WebhookAttempt } from '../models/WebhookAttempt';
+import { ConflictError } from '../utils/errors';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_RETRY_DELAY = 30;
+const DEFAULT_TIMEOUT = 10;
+
+// How often the worker looks for due deliveries, and how many it sends per run
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 20;
+
+/**
+ * Read a positive whole number from the environment
+ * 
+ * @param name - The variable, e.g. WEBHOOK_MAX_ATTEMPTS
+ * @param defaultValue - Used when the variable is not set
+ * @throws Error - When the variable is not a positive whole number
+ */
+function getPositiveInteger(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (!value)
+    return defaultValue;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0)
+    throw new Error(`${name} '${value}' is not a positive whole number`);
+
+  return parsed;
+}
+
+/**
+ * Sign a request body for a webhook
+ * 
+ * @param secret - The webhook's secret
+ * @param timestamp - Unix time in seconds, sent as X-Webhook-Timestamp
+ * @param body - The exact request body
+ * @returns string - The X-Webhook-Signature value, e.g. sha256=5d41...
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Get how long to wait before the next attempt
+ * 
+ * @param attemptCount - The attempts made so far, at least 1
+ * @returns number - Milliseconds
+ */
+export function getRetryDelay(attemptCount: number): number {
+  return getPositiveInteger('WEBHOOK_RETRY_DELAY', DEFAULT_RETRY_DELAY) * 1000 * 2 ** (attemptCount - 1);
+}
+
+/**
+ * Send a delivery once and record the attempt
+ * 
+ * @param delivery - A pending delivery
+ * @param webhook - Its webhook
+ */
+export async function attemptDelivery(delivery: WebhookDelivery, webhook: Webhook): Promise<void> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'task-management-api-webhooks',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': String(delivery.id),
+        'X-Webhook-Timestamp': String(timestamp),
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, timestamp, body)
+      },
+      body,
+      // A redirect could send the payload somewhere else, so it counts as a failure
+      redirect: 'manual',
+      signal: AbortSignal.timeout(getPositiveInteger('WEBHOOK_TIMEOUT', DEFAULT_TIMEOUT) * 1000)
+    });
+    statusCode = response.status;
+    await response.body?.cancel();
+  } catch (caught) {
+    // fetch reports network errors as "fetch failed" with the reason in cause
+    const cause = (caught as any)?.cause;
+    error = cause instanceof Error ? cause.message : caught instanceof Error ? caught.message : String(caught);
+  }
+  const latencyMs = Date.now() - started;
+
+  await WebhookAttempt.create({ deliveryId: delivery.id, statusCode, latencyMs, error: error?.slice(0, 255) ?? null });
+
+  delivery.attemptCount += 1;
+  if (statusCode != null && statusCode >= 200 && statusCode < 300) {
+    delivery.status = 'succeeded';
+    delivery.deliveredAt = new Date();
+    delivery.nextAttemptAt = null;
+  } else if (delivery.attemptCount >= getPositiveInteger('WEBHOOK_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS)) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = null;
+  } else {
+    delivery.nextAttemptAt = new Date(Date.now() + getRetryDelay(delivery.attemptCount));
+  }
+  await delivery.save();
+}
+
+/**
+ * Send the deliveries that are due, oldest first
+ * 
+ * Deliveries of inactive webhooks wait until the webhook is activated again.
+ * 
+ * @param now - The current time
+ * @returns Promise<number> - How many deliveries were attempted
+ */
+export async function processDueDeliveries(now: Date = new Date()): Promise<number> {
+  const deliveries = await WebhookDelivery.findAll({
+    where: { status: 'pending', nextAttemptAt: { [Op.lte]: now } },
+    include: [{ model: Webhook, as: 'webhook', where: { active: true } }],
+    order: [['nextAttemptAt', 'ASC'], ['id', 'ASC']],
+    limit: BATCH_SIZE
+  });
+
+  for (const delivery of deliveries)
+    await attemptDelivery(delivery, (delivery as any).webhook);
+
+  return deliveries.length;
+}
+
+/**
+ * Queue a failed delivery again, with a fresh set of attempts
+ * 
+ * @param delivery - The delivery to send again
+ * @throws ConflictError - When the delivery has not failed
+ */
+export async function replayDelivery(delivery: WebhookDelivery): Promise<void> {
+  if (delivery.status != 'failed')
+    throw new ConflictError(`Only failed deliveries can be replayed, this one is ${delivery.status}`, 'delivery_not_failed');
+
+  await delivery.update({ status: 'pending', attemptCount: 0, nextAttemptAt: new Date() });
+}
+
+/**
+ * Start sending deliveries in the background
+ * 
+ * Runs never overlap: a run that takes longer than the interval delays the next one.
+ * 
+ * @returns () => void - Stops the worker
+ */
+export function startWebhookWorker(): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running)
+      return;
+
+    running = true;
+    try {
+      // Keep going while full batches come back, so a backlog drains quickly
+      while (await processDueDeliveries() == BATCH_SIZE);
+    } catch (error) {
+      console.error('Webhook delivery failed:', error);
+    } finally {
+      running = false;
+    }
+  }, POLL_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,124 @@
+/**
+ * Webhook Events Service
+ * 
+ * This file turns changes to tasks and projects into webhook deliveries.
+ * It demonstrates:
+ * 1. Global (universal) Sequelize hooks
+ * 2. Deriving events from instance.previous()
+ * 3. Queueing deliveries in the transaction of the change (a transactional outbox)
+ * 
+ * Events:
+ * - task.created, project.created
+ * - task.completed, project.completed: the status changed to completed
+ * - task.reassigned: the assignee (userId) changed, the payload has the previous one
+ * - task.deleted, project.deleted: moved to the trash, directly or with its project or user
+ * 
+ * Deliveries are only queued here. services/webhookDelivery.ts sends them, so a change
+ * that is rolled back never reaches a webhook and a slow webhook never slows a request.
+ */
+
+import { Model, ModelStatic, Sequelize } from 'sequelize';
+import { Webhook, WebhookEvent } from '../models/Webhook';
+import { WebhookDelivery } from '../models/WebhookDelivery';
+
+// Models that raise events, with the prefix of their event names
+const EVENT_SOURCES: Record<string, 'task' | 'project'> = {
+  Task: 'task',
+  Project: 'project'
+};
+
+interface QueuedEvent {
+  event: WebhookEvent;
+  // Attributes the event changed, with their values before the change
+  previous?: Record<string, unknown>;
+}
+
+function getSource(record: Model): 'task' | 'project' | undefined {
+  return EVENT_SOURCES[(record.constructor as ModelStatic<Model>).name];
+}
+
+/**
+ * Find the events raised by an update
+ * 
+ * @param record - The updated record
+ * @param source - task or project
+ * @returns QueuedEvent[] - The events, none when nothing of interest changed
+ */
+function getUpdateEvents(record: Model, source: 'task' | 'project'): QueuedEvent[] {
+  const previous = (field: string) => record.previous(field as keyof Model) as unknown;
+  const changed = (field: string) => record.changed(field as keyof Model);
+
+  if (changed('deletedAt') && previous('deletedAt') == null && record.get('deletedAt') != null)
+    return [{ event: `${source}.deleted` }];
+
+  const events: QueuedEvent[] = [];
+  if (changed('status') && previous('status') != 'completed' && record.get('status') == 'completed')
+    events.push({ event: `${source}.completed`, previous: { status: previous('status') } });
+
+  if (source == 'task' && changed('userId') && previous('userId') != record.get('userId'))
+    events.push({ event: 'task.reassigned', previous: { userId: previous('userId') } });
+
+  return events;
+}
+
+/**
+ * Queue a delivery of an event for every webhook subscribed to it
+ * 
+ * @param record - The task or project the event is about
+ * @param queued - The event
+ * @param options - The options of the change, for its transaction
+ */
+async function queueEvent(record: Model, queued: QueuedEvent, options: any): Promise<void> {
+  const webhooks = await Webhook.findAll({ where: { active: true }, transaction: options.transaction });
+  const subscribed = webhooks.filter(webhook => webhook.isSubscribed(queued.event));
+  if (subscribed.length == 0)
+    return;
+
+  const payload = {
+    event: queued.event,
+    occurredAt: new Date().toISOString(),
+    data: record.toJSON(),
+    ...(queued.previous ? { previous: queued.previous } : {})
+  };
+  await WebhookDelivery.bulkCreate(
+    subscribed.map(webhook => ({ webhookId: webhook.id, event: queued.event, payload })),
+    { transaction: options.transaction }
+  );
+}
+
+/**
+ * Queue webhook deliveries for the changes to tasks and projects of a database
+ * 
+ * Bulk updates and deletes of tasks and projects are switched to individual hooks,
+ * so every record they change raises its events.
+ * 
+ * @param sequelize - The database
+ */
+export function registerWebhookHooks(sequelize: Sequelize): void {
+  sequelize.addHook('afterCreate', async (record: Model, options: any) => {
+    const source = getSource(record);
+    if (source)
+      await queueEvent(record, { event: `${source}.created` }, options);
+  });
+  sequelize.addHook('afterUpdate', async (record: Model, options: any) => {
+    const source = getSource(record);
+    if (source == null)
+      return;
+
+    for (const queued of getUpdateEvents(record, source))
+      await queueEvent(record, queued, options);
+  });
+  sequelize.addHook('afterDestroy', async (record: Model, options: any) => {
+    // Purging a record from the trash raises nothing, its deleted event was sent when it was trashed
+    const source = getSource(record);
+    if (source && !options.force)
+      await queueEvent(record, { event: `${source}.deleted` }, options);
+  });
+
+  const individually = (options: any) => {
+    if (options.model && EVENT_SOURCES[options.model.name])
+      options.individualHooks = true;
+  };
+  sequelize.addHook('beforeBulkUpdate', individually);
+  sequelize.addHook('beforeBulkDestroy', individually);
+}
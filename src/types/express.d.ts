@@ -0,0 +1,12 @@
+import { User } from '../models/User';
+
+// Attach the authenticated user to every request (set by the authenticate middleware)
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+export {};
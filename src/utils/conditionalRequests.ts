@@ -0,0 +1,101 @@
+/**
+ * Conditional Request Utilities
+ * 
+ * This file implements ETags and the If-Match / If-None-Match headers for single records.
+ * It demonstrates:
+ * 1. ETags made of the record's version column (Sequelize version: true) and a hash of the response body
+ * 2. If-None-Match on GET, answered with 304 when the client is up to date
+ * 3. If-Match on PUT, PATCH and DELETE, answered with 412 when the record has changed
+ * 
+ * The hash makes the ETag change with the included associations (e.g. a task's tags)
+ * and differ between ?include and ?fields selections. If-Match only compares the
+ * version, as it guards against changes to the record itself.
+ */
+
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { Model } from 'sequelize';
+import { ApiError } from './errors';
+
+// Matches a strong entity tag made by getETag, capturing the version
+const ETAG_PATTERN = /^"(\d+)(?:-[\w-]*)?"$/;
+
+/**
+ * Get the ETag of a record's representation
+ * 
+ * @param record - A record of a model with version: true
+ * @param body - What is sent for the record, the record's JSON by default
+ * @returns string - A strong entity tag of the version and a body hash, e.g. "3-q2Tx0bWNl3cPUeTo"
+ */
+export function getETag(record: Model, body: unknown = record): string {
+  const hash = createHash('sha256').update(JSON.stringify(body)).digest('base64url').slice(0, 16);
+  return `"${record.get('version')}-${hash}"`;
+}
+
+/**
+ * Send the ETag of a record with the response
+ * 
+ * @param res - The response
+ * @param record - The record being returned
+ * @param body - What is sent for the record, the record's JSON by default
+ */
+export function setETag(res: Response, record: Model, body: unknown = record): void {
+  res.setHeader('ETag', getETag(record, body));
+}
+
+/**
+ * Split an If-Match or If-None-Match header into its entity tags
+ * 
+ * @param header - The header value, e.g. W/"1", "2" or *
+ * @returns string[] - The entity tags, with * kept as is
+ */
+function parseETags(header: string): string[] {
+  return header.match(/\*|(?:W\/)?"[^"]*"/g) ?? [];
+}
+
+/**
+ * Check If-None-Match for a GET of a record
+ * 
+ * Sets the ETag header. Uses weak comparison, as RFC 9110 requires for If-None-Match.
+ * 
+ * @param req - The GET request
+ * @param res - The response
+ * @param record - The record being returned
+ * @param body - What is sent for the record, e.g. with fieldsets applied
+ * @returns boolean - true when the client already has this representation and 304 should be sent
+ */
+export function checkNotModified(req: Request, res: Response, record: Model, body: unknown = record): boolean {
+  const current = getETag(record, body);
+  res.setHeader('ETag', current);
+
+  const header = req.headers['if-none-match'];
+  if (header == null)
+    return false;
+
+  return parseETags(header).some(tag => tag == '*' || tag.replace(/^W\//, '') == current);
+}
+
+/**
+ * Check If-Match before a record is changed or deleted
+ * 
+ * Uses strong comparison of the version, so weak tags never match, while tags of
+ * different includes or fieldsets of the same version do. A missing header is
+ * accepted unless REQUIRE_IF_MATCH is set to true.
+ * 
+ * @param req - The PUT, PATCH or DELETE request
+ * @param record - The record being changed
+ * @throws ApiError - 412 when the record has changed, 428 when the header is required and missing
+ */
+export function assertIfMatch(req: Request, record: Model): void {
+  const header = req.headers['if-match'];
+  if (header == null) {
+    if (process.env.REQUIRE_IF_MATCH == 'true')
+      throw new ApiError(428, 'precondition_required', 'This request requires an If-Match header with the current ETag');
+
+    return;
+  }
+
+  const version = String(record.get('version'));
+  if (!parseETags(header).some(tag => tag == '*' || tag.match(ETAG_PATTERN)?.[1] == version))
+    throw new ApiError(412, 'precondition_failed', `The record has changed, its current version is ${version}`);
+}
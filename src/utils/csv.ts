@@ -0,0 +1,104 @@
+/**
+ * CSV Utilities
+ * 
+ * This file reads and writes CSV (RFC 4180) for the task import and export.
+ * It demonstrates:
+ * 1. A small state machine parser for quoted fields, escaped quotes and line breaks in fields
+ * 2. Quoting only the values that need it
+ * 3. Guarding against spreadsheet formula injection
+ * 
+ * Values starting with =, +, - or @ would be run as formulas when the file is opened in a
+ * spreadsheet, so they are written with a leading ' and read back without it.
+ */
+
+import { BadRequestError } from './errors';
+
+const FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * Parse a CSV document into rows of values
+ * 
+ * Accepts LF and CRLF line breaks and a UTF-8 byte order mark. Blank lines are skipped.
+ * 
+ * @param text - The CSV document
+ * @returns string[][] - The rows, each a list of raw values
+ * @throws BadRequestError - When a quoted value is not closed
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  const endRow = () => {
+    row.push(value);
+    if (row.length > 1 || row[0] != '')
+      rows.push(row);
+    row = [];
+    value = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (quoted) {
+      if (char == '"' && input[index + 1] == '"') {
+        value += '"';
+        index++;
+      } else if (char == '"') {
+        quoted = false;
+      } else {
+        if (char == '\n')
+          line++;
+        value += char;
+      }
+    } else if (char == '"' && value == '') {
+      quoted = true;
+      quoteLine = line;
+    } else if (char == ',') {
+      row.push(value);
+      value = '';
+    } else if (char == '\n' || char == '\r') {
+      if (char == '\r' && input[index + 1] == '\n')
+        index++;
+      line++;
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+
+  if (quoted)
+    throw new BadRequestError(`CSV has an unclosed quote starting on line ${quoteLine}`, 'invalid_csv');
+
+  endRow();
+  return rows;
+}
+
+/**
+ * Format one row of a CSV document
+ * 
+ * @param values - The values, null and undefined are written as empty values
+ * @returns string - The row, ending with CRLF
+ */
+export function formatCsvRow(values: Array<string | number | null | undefined>): string {
+  return values.map(value => {
+    let text = value == null ? '' : String(value);
+    if (FORMULA_PATTERN.test(text))
+      text = `'${text}`;
+
+    return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\r\n';
+}
+
+/**
+ * Read a value written by formatCsvRow, removing the formula guard
+ * 
+ * @param value - The raw value from parseCsv
+ * @returns string - The value as it was before it was written
+ */
+export function readCsvValue(value: string): string {
+  return value.startsWith("'") && FORMULA_PATTERN.test(value.slice(1)) ? value.slice(1) : value;
+}
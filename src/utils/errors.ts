@@ -0,0 +1,88 @@
+/**
+ * Error Classes
+ * 
+ * This file contains the errors the API raises on purpose, so the error
+ * handler can tell them apart from unexpected failures.
+ * 
+ * Every error carries an HTTP status and a stable, machine-readable code.
+ * Messages are meant for people and may change, codes may not.
+ */
+
+/**
+ * Base class for errors that map directly to an HTTP response
+ */
+export class ApiError extends Error {
+  public readonly status: number;
+  public readonly code: string;
+  // Extra information for the client, e.g. which items of a batch failed
+  public readonly details?: Record<string, unknown>[];
+
+  constructor(status: number, code: string, message: string, details?: Record<string, unknown>[]) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Raised when the query string of a request (pagination, sorting, filtering)
+ * contains unknown fields or bad values. Answered with 400.
+ */
+export class QueryError extends ApiError {
+  constructor(message: string) {
+    super(400, 'invalid_query', message);
+    this.name = 'QueryError';
+  }
+}
+
+/**
+ * Raised when the request body is missing required values or cannot be used. Answered with 400.
+ */
+export class BadRequestError extends ApiError {
+  constructor(message: string, code: string = 'bad_request') {
+    super(400, code, message);
+    this.name = 'BadRequestError';
+  }
+}
+
+/**
+ * Raised when the caller is not (or can no longer be) identified. Answered with 401.
+ */
+export class AuthenticationError extends ApiError {
+  constructor(message: string, code: string = 'unauthenticated') {
+    super(401, code, message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Raised when the caller may not access a record or route. Answered with 403.
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message: string, code: string = 'forbidden') {
+    super(403, code, message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * Raised when a record or route does not exist. Answered with 404.
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string, code: string = 'not_found') {
+    super(404, code, message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Raised when a request conflicts with the current state of a record. Answered with 409.
+ */
+export class ConflictError extends ApiError {
+  constructor(message: string, code: string = 'conflict') {
+    super(409, code, message);
+    this.name = 'ConflictError';
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * iCalendar Utilities
+ * 
+ * This file writes iCalendar (RFC 5545) documents for the calendar feeds.
+ * It demonstrates:
+ * 1. Escaping text values and lists
+ * 2. Folding long content lines at 75 octets without splitting a character
+ * 3. UTC date-time values
+ */
+
+export type CalendarValue = string | number | Date | string[] | null | undefined;
+
+// A property name, optionally with parameters (e.g. REFRESH-INTERVAL;VALUE=DURATION), and its value
+export type CalendarProperty = [name: string, value: CalendarValue];
+
+export interface CalendarComponent {
+  // e.g. VEVENT or VTODO
+  type: string;
+  properties: CalendarProperty[];
+}
+
+// Identifies the program that wrote the document
+const PRODUCT_ID = '-//task-management-api//Tasks//EN';
+
+// Longest content line in octets, the line break not included
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a text value
+ * 
+ * @param text - The text
+ * @returns string - The text with backslashes, semicolons, commas and line breaks escaped
+ */
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Format a date-time in UTC, e.g. 20261019T154446Z
+ * 
+ * @param date - The date
+ * @returns string - The date-time value
+ */
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line, continuation lines start with a space
+ * 
+ * @param line - The unfolded line
+ * @returns string - The line, split into lines of at most 75 octets ending with CRLF
+ */
+export function foldLine(line: string): string {
+  let folded = '';
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > MAX_LINE_OCTETS) {
+      folded += current + '\r\n';
+      // The leading space counts towards the next line
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  return folded + current + '\r\n';
+}
+
+function formatValue(value: Exclude<CalendarValue, null | undefined>): string {
+  if (value instanceof Date)
+    return formatDateTime(value);
+
+  if (Array.isArray(value))
+    return value.map(escapeText).join(',');
+
+  return typeof value == 'number' ? String(value) : escapeText(value);
+}
+
+function formatProperties(properties: CalendarProperty[]): string {
+  return properties
+    .filter(([, value]) => value != null && !(Array.isArray(value) && value.length == 0))
+    .map(([name, value]) => foldLine(`${name}:${formatValue(value!)}`))
+    .join('');
+}
+
+/**
+ * Format a calendar document
+ * 
+ * Properties without a value (null, undefined or an empty list) are left out.
+ * 
+ * @param properties - Properties of the calendar itself, e.g. X-WR-CALNAME
+ * @param components - The events and to-dos
+ * @returns string - The document, with CRLF line breaks
+ */
+export function formatCalendar(properties: CalendarProperty[], components: CalendarComponent[]): string {
+  let document = formatProperties([
+    ['BEGIN', 'VCALENDAR'],
+    ['VERSION', '2.0'],
+    ['PRODID', PRODUCT_ID],
+    ['CALSCALE', 'GREGORIAN'],
+    ...properties
+  ]);
+  for (const { type, properties: componentProperties } of components)
+    document += `BEGIN:${type}\r\n${formatProperties(componentProperties)}END:${type}\r\n`;
+
+  return document + 'END:VCALENDAR\r\n';
+}
@@ -0,0 +1,183 @@
+/**
+ * Include and Fieldset Utilities
+ * 
+ * This file lets clients choose which associations and attributes a response contains.
+ * It demonstrates:
+ * 1. ?include=project,tags with a per-model whitelist, including nested paths like project.user
+ * 2. Building a Sequelize include tree from dotted association paths
+ * 3. ?fields[task]=id,title sparse fieldsets, keyed by the resource type of each record
+ * 4. Restricting included associations to the records the caller may see
+ * 
+ * Fieldsets are applied when the response is serialized, so access checks, ETags
+ * and pagination cursors still see every attribute of a record.
+ */
+
+import { Includeable, Model, ModelStatic, WhereOptions } from 'sequelize';
+import { getValues } from './queryParams';
+import { QueryError } from './errors';
+
+// Query parameters read by parseResponseShape
+export const INCLUDE_PARAMS = ['include', 'fields'];
+
+export interface IncludeOptions {
+  // Association paths clients may include, e.g. 'project' or 'project.user'
+  allowed: string[];
+  // Paths included when the request has no include parameter
+  defaults: string[];
+}
+
+export interface ResponseShape {
+  // The include option for the Sequelize query
+  include: Includeable[];
+  // The attributes to return per resource type, e.g. { task: ['id', 'title'] }
+  fields: Record<string, string[]>;
+}
+
+// Where clauses limiting the records of included association paths, e.g. { tasks: taskScope }
+export type IncludeScopes = Record<string, WhereOptions>;
+
+/**
+ * Get the resource type of a model as used in fields[type]
+ * 
+ * @param model - The model
+ * @returns string - The model name in camel case, e.g. task or projectMember
+ */
+function getResourceType(model: ModelStatic<Model>): string {
+  return model.name.charAt(0).toLowerCase() + model.name.slice(1);
+}
+
+/**
+ * Turn dotted association paths into a Sequelize include tree
+ * 
+ * @param paths - e.g. ['project.user', 'tags']
+ * @param scopes - Where clauses of some of the paths, the parent records are kept when nothing matches
+ * @param parent - The path the paths are nested in
+ * @returns Includeable[] - e.g. [{ association: 'project', include: ['user'] }, 'tags']
+ */
+function buildIncludeTree(paths: string[], scopes: IncludeScopes = {}, parent: string = ''): Includeable[] {
+  const children = new Map<string, string[]>();
+  for (const path of paths) {
+    const [association, ...rest] = path.split('.');
+    const nested = children.get(association) ?? [];
+    if (rest.length > 0)
+      nested.push(rest.join('.'));
+
+    children.set(association, nested);
+  }
+
+  return [...children].map(([association, nested]) => {
+    const path = parent + association;
+    const include: Includeable = {
+      association,
+      ...(scopes[path] ? { where: scopes[path], required: false } : {}),
+      ...(nested.length > 0 ? { include: buildIncludeTree(nested, scopes, path + '.') } : {})
+    };
+    return Object.keys(include).length > 1 ? include : association;
+  });
+}
+
+/**
+ * Find the models a response contains, by resource type
+ * 
+ * @param model - The model of the returned records
+ * @param paths - The included association paths
+ * @returns Map<string, ModelStatic<Model>> - The models, keyed by resource type
+ */
+function getResponseModels(model: ModelStatic<Model>, paths: string[]): Map<string, ModelStatic<Model>> {
+  const models = new Map([[getResourceType(model), model]]);
+  for (const path of paths) {
+    let current = model;
+    for (const association of path.split('.')) {
+      current = current.associations[association].target;
+      models.set(getResourceType(current), current);
+    }
+  }
+  return models;
+}
+
+/**
+ * Read the include and fields parameters of a request
+ * 
+ * @param model - The model of the returned records
+ * @param query - The request's query parameters
+ * @param options - The allowed and default includes of the endpoint
+ * @param scopes - Where clauses limiting included associations, e.g. to the tasks the caller may see
+ * @returns ResponseShape - The include tree for the query and the fieldsets for applyFieldsets
+ * @throws QueryError - When an include is not allowed or a fieldset names an unknown type or attribute
+ */
+export function parseResponseShape(model: ModelStatic<Model>, query: Record<string, any>, options: IncludeOptions, scopes: IncludeScopes = {}): ResponseShape {
+  // include= (empty) leaves out every association
+  let paths = options.defaults;
+  if (query.include !== undefined)
+    paths = query.include === '' ? [] : getValues(query.include, 'include');
+
+  for (const path of paths) {
+    if (!options.allowed.includes(path)) {
+      const allowed = options.allowed.length > 0 ? options.allowed.join(', ') : 'none';
+      throw new QueryError(`include '${path}' is not allowed. Allowed: ${allowed}`);
+    }
+  }
+
+  const fields: Record<string, string[]> = {};
+  if (query.fields !== undefined) {
+    if (query.fields == null || typeof query.fields != 'object' || Array.isArray(query.fields))
+      throw new QueryError('fields must be given per type, e.g. fields[task]=id,title');
+
+    const models = getResponseModels(model, paths);
+    for (const [type, value] of Object.entries(query.fields)) {
+      const fieldModel = models.get(type);
+      if (fieldModel == null)
+        throw new QueryError(`fields[${type}] does not match a type in this response. Types: ${[...models.keys()].join(', ')}`);
+
+      const attributes = Object.keys(fieldModel.getAttributes());
+      fields[type] = getValues(value, `fields[${type}]`);
+      for (const name of fields[type]) {
+        if (!attributes.includes(name))
+          throw new QueryError(`fields[${type}] '${name}' is not an attribute. Attributes: ${attributes.join(', ')}`);
+      }
+    }
+  }
+
+  return { include: buildIncludeTree(paths, scopes), fields };
+}
+
+/**
+ * Serialize a record, keeping only the attributes of its fieldset
+ * 
+ * The primary key and included associations are always kept.
+ */
+function shapeRecord(record: Model, fields: Record<string, string[]>): Record<string, unknown> {
+  const model = record.constructor as ModelStatic<Model>;
+  const json = record.toJSON() as Record<string, unknown>;
+
+  for (const association of Object.keys(model.associations)) {
+    const value = record.get(association) as unknown;
+    if (Array.isArray(value))
+      json[association] = value.map(item => item instanceof Model ? shapeRecord(item, fields) : item);
+    else if (value instanceof Model)
+      json[association] = shapeRecord(value, fields);
+  }
+
+  // Anything else, like the join table row of a belongsToMany include, is left out too
+  const allowed = fields[getResourceType(model)];
+  if (allowed != null) {
+    for (const name of Object.keys(json)) {
+      if (!allowed.includes(name) && !model.primaryKeyAttributes.includes(name) && !(name in model.associations))
+        delete json[name];
+    }
+  }
+  return json;
+}
+
+/**
+ * Apply the fieldsets of a request to one or more records
+ * 
+ * @param records - A record or a list of records, with their included associations
+ * @param fields - The fieldsets from parseResponseShape
+ * @returns The records as plain objects, ready for res.json
+ */
+export function applyFieldsets(records: Model, fields: Record<string, string[]>): Record<string, unknown>;
+export function applyFieldsets(records: Model[], fields: Record<string, string[]>): Record<string, unknown>[];
+export function applyFieldsets(records: Model | Model[], fields: Record<string, string[]>) {
+  return Array.isArray(records) ? records.map(record => shapeRecord(record, fields)) : shapeRecord(records, fields);
+}
@@ -0,0 +1,333 @@
+/**
+ * Pagination Utilities
+ * 
+ * This file contains the list query handling shared by every list endpoint.
+ * It demonstrates:
+ * 1. limit/offset pagination
+ * 2. Opaque cursor (keyset) pagination
+ * 3. ?sort=-dueDate,priority style ordering against a whitelist
+ * 4. A response envelope with the total count and navigation links
+ * 5. ?withDeleted=true to include records in the trash
+ */
+
+import { Request } from 'express';
+import { FindOptions, Model, ModelStatic, Op, OrderItem, WhereOptions, literal, where as sqlWhere } from 'sequelize';
+import { QueryError } from './errors';
+import { getOptionalValue, parseBoolean, parseInteger } from './queryParams';
+
+export const DEFAULT_LIMIT = 20;
+export const MAX_LIMIT = 100;
+
+// Query parameters read by paginate
+export const PAGINATION_PARAMS = ['limit', 'offset', 'cursor', 'sort', 'withDeleted'];
+
+export interface SortOptions {
+  // Attributes clients may sort by
+  fields: string[];
+  // Enum-like attributes that sort by the position of their value instead of alphabetically
+  ranks?: Record<string, string[]>;
+  // Sort used when the request does not give one, in the same format as ?sort=
+  defaultSort?: string;
+}
+
+export interface PaginateOptions {
+  where?: WhereOptions;
+  include?: FindOptions['include'];
+  sort: SortOptions;
+}
+
+export interface Page<T> {
+  data: T[];
+  meta: PageMeta;
+  links: {
+    self: string;
+    next: string | null;
+    prev: string | null;
+  };
+}
+
+export interface PageMeta {
+  total: number;
+  limit: number;
+  offset: number | null;
+  sort: string;
+  nextCursor: string | null;
+}
+
+interface SortKey {
+  field: string;
+  descending: boolean;
+}
+
+/**
+ * Parse a sort string ("-dueDate,priority") into sort keys
+ * 
+ * The primary key is always appended as a tie-breaker so the order is stable,
+ * which cursor pagination depends on.
+ * 
+ * @param sort - The sort string
+ * @param options - The whitelist for the model
+ * @returns SortKey[] - The parsed keys
+ */
+function parseSort(sort: string, options: SortOptions): SortKey[] {
+  const keys: SortKey[] = [];
+  for (const part of sort.split(',')) {
+    const trimmed = part.trim();
+    if (trimmed == '')
+      continue;
+
+    const descending = trimmed.startsWith('-');
+    const field = descending ? trimmed.slice(1) : trimmed;
+    if (!options.fields.includes(field))
+      throw new QueryError(`Cannot sort by '${field}'. Allowed fields: ${options.fields.join(', ')}`);
+
+    if (keys.some(key => key.field == field))
+      throw new QueryError(`Sort field '${field}' is given more than once`);
+
+    keys.push({ field, descending });
+  }
+
+  if (!keys.some(key => key.field == 'id'))
+    keys.push({ field: 'id', descending: false });
+
+  return keys;
+}
+
+/**
+ * Build the CASE expression that turns an enum-like column into its rank
+ */
+function rankExpression(model: ModelStatic<Model>, field: string, rank: string[]) {
+  const queryInterface = model.sequelize!.getQueryInterface();
+  const column = `${queryInterface.quoteIdentifier(model.name)}.${queryInterface.quoteIdentifier(field)}`;
+  const cases = rank.map((value, index) => `WHEN ${model.sequelize!.escape(value)} THEN ${index}`).join(' ');
+  return literal(`(CASE ${column} ${cases} ELSE ${rank.length} END)`);
+}
+
+/**
+ * Get the value a row is sorted by for one sort key
+ */
+function getSortValue(row: Model, key: SortKey, options: SortOptions): any {
+  const value = row.get(key.field);
+  const rank = options.ranks?.[key.field];
+  if (rank) {
+    const index = rank.indexOf(value as string);
+    return index == -1 ? rank.length : index;
+  }
+
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Compare a sort key against a cursor value
+ */
+function compareSortKey(model: ModelStatic<Model>, key: SortKey, operator: symbol, value: any, options: SortOptions): WhereOptions {
+  const rank = options.ranks?.[key.field];
+  if (rank)
+    return sqlWhere(rankExpression(model, key.field, rank), { [operator]: value });
+
+  const attribute = model.getAttributes()[key.field] as any;
+  if (attribute && attribute.type && attribute.type.key == 'DATE')
+    value = new Date(value);
+
+  return { [key.field]: { [operator]: value } };
+}
+
+/**
+ * Select the rows that sort after a cursor value for one sort key
+ * 
+ * SQLite sorts nulls first in ascending and last in descending order, so after a null
+ * come the non-null values (ascending) or nothing (descending), and in descending order
+ * the nulls come after every value.
+ * 
+ * @returns WhereOptions | null - The condition, or null when no row sorts after the value
+ */
+function followSortKey(model: ModelStatic<Model>, key: SortKey, value: any, options: SortOptions): WhereOptions | null {
+  if (value === null)
+    return key.descending ? null : { [key.field]: { [Op.not]: null } };
+
+  const condition = compareSortKey(model, key, key.descending ? Op.lt : Op.gt, value, options);
+  const attribute = model.getAttributes()[key.field];
+  if (!key.descending || options.ranks?.[key.field] || attribute?.allowNull === false)
+    return condition;
+
+  return { [Op.or]: [condition, { [key.field]: { [Op.is]: null } }] };
+}
+
+/**
+ * Build the keyset condition selecting the rows after a cursor
+ * 
+ * For keys (a, b, id) this is: a > A OR (a = A AND b > B) OR (a = A AND b = B AND id > ID),
+ * with > replaced by < for descending keys. Null values are matched with IS NULL and
+ * IS NOT NULL, see followSortKey.
+ */
+function buildCursorWhere(model: ModelStatic<Model>, keys: SortKey[], values: any[], options: SortOptions): WhereOptions {
+  const clauses: WhereOptions[] = [];
+  keys.forEach((key, index) => {
+    const follows = followSortKey(model, key, values[index], options);
+    if (follows == null)
+      return;
+
+    const conditions = keys.slice(0, index).map((previous, previousIndex) => values[previousIndex] === null
+      ? { [previous.field]: { [Op.is]: null } }
+      : compareSortKey(model, previous, Op.eq, values[previousIndex], options));
+    clauses.push({ [Op.and]: [...conditions, follows] });
+  });
+
+  return { [Op.or]: clauses };
+}
+
+function encodeCursor(sort: string, values: any[]): string {
+  return Buffer.from(JSON.stringify({ sort, values })).toString('base64url');
+}
+
+/**
+ * Check that a cursor value has the type of its sort key's column
+ * 
+ * Ranked keys hold the rank, dates an ISO string. Values of nullable columns may be null.
+ */
+function isValidCursorValue(model: ModelStatic<Model>, key: SortKey, value: any, options: SortOptions): boolean {
+  const rank = options.ranks?.[key.field];
+  if (rank)
+    return Number.isInteger(value) && value >= 0 && value <= rank.length;
+
+  const attribute = model.getAttributes()[key.field] as any;
+  if (value === null)
+    return attribute != null && attribute.allowNull !== false;
+
+  switch (attribute?.type?.key) {
+    case 'INTEGER':
+    case 'BIGINT':
+      return Number.isInteger(value);
+    case 'FLOAT':
+    case 'DOUBLE':
+    case 'DECIMAL':
+      return typeof value == 'number' && isFinite(value);
+    case 'BOOLEAN':
+      return typeof value == 'boolean';
+    case 'DATE':
+    case 'DATEONLY':
+      return typeof value == 'string' && !isNaN(Date.parse(value));
+    default:
+      return typeof value == 'string';
+  }
+}
+
+function decodeCursor(model: ModelStatic<Model>, cursor: string, sort: string, keys: SortKey[], options: SortOptions): any[] {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new QueryError('cursor is not valid');
+  }
+
+  if (decoded == null || !Array.isArray(decoded.values) || decoded.values.length != keys.length)
+    throw new QueryError('cursor is not valid');
+
+  if (decoded.sort != sort)
+    throw new QueryError('cursor was created for a different sort, request it again without a cursor');
+
+  if (!keys.every((key, index) => isValidCursorValue(model, key, decoded.values[index], options)))
+    throw new QueryError('cursor is not valid');
+
+  return decoded.values;
+}
+
+/**
+ * Build a link to the current endpoint with some query parameters changed
+ * 
+ * @param req - The current request
+ * @param changes - Parameters to set, or to remove when null
+ * @returns string - The link
+ */
+function buildLink(req: Request, changes: Record<string, string | null>): string {
+  const [path, queryString] = req.originalUrl.split('?');
+  const params = new URLSearchParams(queryString ?? '');
+  for (const [name, value] of Object.entries(changes)) {
+    if (value == null)
+      params.delete(name);
+    else
+      params.set(name, value);
+  }
+
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Run a paginated, sorted findAll
+ * 
+ * Reads limit, offset, cursor, sort and withDeleted from the query parameters. When a cursor
+ * is given it takes precedence over offset.
+ * 
+ * @param model - The model to list
+ * @param query - The query parameters, as parsed from a query string
+ * @param options - The base where clause, includes and sort whitelist
+ * @returns Promise<Omit<Page<M>, 'links'>> - The rows and the page metadata
+ * @throws QueryError - When a query parameter is invalid
+ */
+export async function findPage<M extends Model>(model: ModelStatic<M>, query: Record<string, any>, options: PaginateOptions): Promise<Omit<Page<M>, 'links'>> {
+  const limit = parseInteger(query.limit, 'limit', DEFAULT_LIMIT, 1, MAX_LIMIT);
+  const cursor = getOptionalValue(query.cursor, 'cursor');
+  const sort = getOptionalValue(query.sort, 'sort') || options.sort.defaultSort || 'id';
+  const keys = parseSort(sort, options.sort);
+  const withDeleted = query.withDeleted === undefined ? false : parseBoolean(query.withDeleted, 'withDeleted');
+  const staticModel = model as unknown as ModelStatic<Model>;
+
+  const baseWhere = options.where ?? {};
+  let where = baseWhere;
+  let offset: number | null = null;
+  if (cursor) {
+    const values = decodeCursor(staticModel, cursor, sort, keys, options.sort);
+    where = { [Op.and]: [baseWhere, buildCursorWhere(staticModel, keys, values, options.sort)] };
+  } else {
+    offset = parseInteger(query.offset, 'offset', 0, 0);
+  }
+
+  const order: OrderItem[] = keys.map(key => {
+    const rank = options.sort.ranks?.[key.field];
+    const direction = key.descending ? 'DESC' : 'ASC';
+    return rank ? [rankExpression(staticModel, key.field, rank), direction] : [key.field, direction];
+  });
+
+  // Fetch one extra row to find out whether there is a next page
+  const [total, rows] = await Promise.all([
+    (model as any).count({ where: baseWhere, distinct: true, col: 'id', paranoid: !withDeleted }) as Promise<number>,
+    (model as any).findAll({ where, include: options.include, order, limit: limit + 1, offset: offset ?? undefined, paranoid: !withDeleted }) as Promise<M[]>
+  ]);
+
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+  const last = data[data.length - 1];
+  const nextCursor = hasMore && last ? encodeCursor(sort, keys.map(key => getSortValue(last, key, options.sort))) : null;
+
+  return { data, meta: { total, limit, offset, sort, nextCursor } };
+}
+
+/**
+ * Run a paginated, sorted findAll for a list endpoint
+ * 
+ * Reads the parameters of findPage from the query string and adds links to the
+ * current, next and previous page.
+ * 
+ * @param model - The model to list
+ * @param req - The current request
+ * @param options - The base where clause, includes and sort whitelist
+ * @returns Promise<Page<M>> - The rows wrapped in the response envelope
+ * @throws QueryError - When a query parameter is invalid
+ */
+export async function paginate<M extends Model>(model: ModelStatic<M>, req: Request, options: PaginateOptions): Promise<Page<M>> {
+  const { data, meta } = await findPage(model, req.query, options);
+  const { limit, offset, nextCursor } = meta;
+
+  // A next cursor is only created when there is a next page
+  let next: string | null = null;
+  let prev: string | null = null;
+  if (offset == null) {
+    next = nextCursor ? buildLink(req, { cursor: nextCursor }) : null;
+  } else {
+    next = nextCursor ? buildLink(req, { offset: String(offset + limit) }) : null;
+    prev = offset > 0 ? buildLink(req, { offset: String(Math.max(0, offset - limit)) }) : null;
+  }
+
+  return { data, meta, links: { self: buildLink(req, {}), next, prev } };
+}
@@ -0,0 +1,73 @@
+/**
+ * Password Utilities
+ * 
+ * This file contains the helpers used to store and check user passwords.
+ * It demonstrates:
+ * 1. Salted key derivation with scrypt (node:crypto)
+ * 2. A self-describing hash format
+ * 3. Constant-time comparison
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const HASH_PREFIX = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_LENGTH = 32;
+
+// base64 keeps the whole hash (76 characters) inside the User.password length validation
+const HASH_PATTERN = /^scrypt\$[A-Za-z0-9+/]{22}==\$[A-Za-z0-9+/]{43}=$/;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error)
+        return reject(error);
+      resolve(derivedKey);
+    });
+  });
+}
+
+/**
+ * Check whether a stored value is already a hash produced by hashPassword
+ * 
+ * @param value - The stored password value
+ * @returns boolean - true if the value is in the "scrypt$salt$key" format
+ */
+export function isPasswordHash(value: any): boolean {
+  if (typeof value != 'string')
+    return false;
+
+  return HASH_PATTERN.test(value);
+}
+
+/**
+ * Hash a plaintext password with a random salt
+ * 
+ * @param password - The plaintext password
+ * @returns Promise<string> - The hash in the "scrypt$salt$key" format
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt);
+  return [HASH_PREFIX, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Compare a plaintext password against a hash produced by hashPassword
+ * 
+ * @param password - The plaintext password to check
+ * @param hash - The stored hash
+ * @returns Promise<boolean> - true if the password matches
+ */
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  if (typeof password != 'string' || isPasswordHash(hash) == false)
+    return false;
+
+  const [, salt, key] = hash.split('$');
+  const expected = Buffer.from(key, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'));
+  if (actual.length != expected.length)
+    return false;
+
+  return timingSafeEqual(actual, expected);
+}
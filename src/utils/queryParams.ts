@@ -0,0 +1,141 @@
+/**
+ * Query Parameter Utilities
+ * 
+ * This file contains the parsers shared by every endpoint that reads the query string.
+ * It demonstrates:
+ * 1. Rejecting unknown parameters
+ * 2. Single and multi-value parameters (repeated and/or comma separated)
+ * 3. Typed parsing (enums, ids, integers, dates, booleans) with QueryError on bad values
+ */
+
+import { QueryError } from './errors';
+
+/**
+ * Reject query parameters the endpoint does not understand
+ * 
+ * @param query - The request's query parameters
+ * @param allowed - The parameter names the endpoint accepts
+ * @throws QueryError - When an unknown parameter is present
+ */
+export function assertKnownParams(query: Record<string, any>, allowed: string[]): void {
+  const unknown = Object.keys(query).filter(name => !allowed.includes(name));
+  if (unknown.length > 0)
+    throw new QueryError(`Unknown query parameter(s): ${unknown.join(', ')}. Allowed: ${allowed.join(', ')}`);
+}
+
+/**
+ * Read an optional parameter that must be given at most once
+ * 
+ * @param value - The raw query value
+ * @param name - The parameter name, for error messages
+ * @returns string | undefined - The value, or undefined if it was not given
+ */
+export function getOptionalValue(value: any, name: string): string | undefined {
+  if (value === undefined)
+    return undefined;
+
+  if (typeof value != 'string')
+    throw new QueryError(`${name} must be given once`);
+
+  return value;
+}
+
+/**
+ * Read a parameter that may be given several times and/or as a comma separated list
+ * 
+ * @param value - The raw query value
+ * @param name - The parameter name, for error messages
+ * @returns string[] - The non-empty values
+ */
+export function getValues(value: any, name: string): string[] {
+  const raw = Array.isArray(value) ? value : [value];
+  const values: string[] = [];
+  for (const item of raw) {
+    if (typeof item != 'string')
+      throw new QueryError(`${name} must be a string`);
+
+    values.push(...item.split(',').map(part => part.trim()).filter(part => part != ''));
+  }
+
+  if (values.length == 0)
+    throw new QueryError(`${name} must not be empty`);
+
+  return values;
+}
+
+/**
+ * Read a parameter that only accepts one value
+ */
+export function getSingleValue(value: any, name: string): string {
+  const values = getValues(value, name);
+  if (values.length > 1)
+    throw new QueryError(`${name} only accepts one value`);
+
+  return values[0];
+}
+
+/**
+ * Parse one or more values that must each be one of the allowed values
+ */
+export function parseEnum(value: any, name: string, allowed: string[]): string[] {
+  const values = getValues(value, name);
+  for (const item of values) {
+    if (!allowed.includes(item))
+      throw new QueryError(`${name} '${item}' is not valid. Allowed values: ${allowed.join(', ')}`);
+  }
+
+  return values;
+}
+
+/**
+ * Parse one or more record ids
+ */
+export function parseIds(value: any, name: string): number[] {
+  return getValues(value, name).map(item => {
+    if ((/^\d+$/).test(item) == false)
+      throw new QueryError(`${name} '${item}' is not a valid id`);
+
+    return Number(item);
+  });
+}
+
+/**
+ * Parse an optional integer parameter within bounds
+ */
+export function parseInteger(value: any, name: string, defaultValue: number, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+  const raw = getOptionalValue(value, name);
+  if (raw === undefined || raw === '')
+    return defaultValue;
+
+  if ((/^\d+$/).test(raw) == false)
+    throw new QueryError(`${name} must be a whole number`);
+
+  const parsed = Number(raw);
+  if (parsed < min || parsed > max)
+    throw new QueryError(`${name} must be between ${min} and ${max}`);
+
+  return parsed;
+}
+
+/**
+ * Parse an ISO 8601 date
+ */
+export function parseDate(value: any, name: string): Date {
+  const raw = getSingleValue(value, name);
+  const date = new Date(raw);
+  if (isNaN(date.getTime()))
+    throw new QueryError(`${name} '${raw}' is not a valid date`);
+
+  return date;
+}
+
+/**
+ * Parse true or false
+ */
+export function parseBoolean(value: any, name: string): boolean {
+  const raw = getSingleValue(value, name);
+  if (raw != 'true' && raw != 'false')
+    throw new QueryError(`${name} must be true or false`);
+
+  return raw == 'true';
+}
@@ -0,0 +1,50 @@
+/**
+ * Reference Utilities
+ * 
+ * This file checks the foreign keys of a record before it is saved.
+ * It demonstrates:
+ * 1. Walking a model's belongsTo associations
+ * 2. Raising ForeignKeyConstraintError with the offending field, table and value
+ * 
+ * SQLite rejects a bad reference with "FOREIGN KEY constraint failed" without saying
+ * which one, so the check runs first to tell the client which field is wrong.
+ * The database constraint stays in place for writes that skip hooks.
+ */
+
+import { ForeignKeyConstraintError, Model, ModelStatic, Transaction } from 'sequelize';
+
+/**
+ * Make sure every new or changed belongsTo foreign key points at an existing row
+ * 
+ * Meant to be registered as a beforeSave hook.
+ * 
+ * @param record - The record about to be saved
+ * @param options - The save options, for the transaction
+ * @throws ForeignKeyConstraintError - When a foreign key has no matching row
+ */
+export async function assertReferencesExist(record: Model, options: { transaction?: Transaction | null }): Promise<void> {
+  const model = record.constructor as ModelStatic<Model>;
+  for (const association of Object.values(model.associations)) {
+    if (association.associationType != 'BelongsTo')
+      continue;
+
+    const field = association.foreignKey;
+    const value = record.get(field);
+    if (value == null || (!record.isNewRecord && !record.changed(field as keyof Model)))
+      continue;
+
+    const targetKey = (association as any).targetKey as string;
+    const count = await association.target.count({
+      where: { [targetKey]: value },
+      transaction: options.transaction ?? undefined
+    });
+    if (count == 0) {
+      throw new ForeignKeyConstraintError({
+        message: `${field} ${value} does not reference an existing ${association.target.name}`,
+        fields: { [field]: String(value) },
+        table: association.target.getTableName() as string,
+        value
+      });
+    }
+  }
+}
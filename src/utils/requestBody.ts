@@ -0,0 +1,249 @@
+/**
+ * Request Body Utilities
+ * 
+ * This file turns create, replace (PUT) and patch (PATCH) request bodies into the
+ * attribute values a controller may set on a record.
+ * It demonstrates:
+ * 1. Per-model whitelists of writable attributes (mass-assignment protection)
+ * 2. PUT as full replacement, with required-field checks
+ * 3. JSON Merge Patch (RFC 7396) and JSON Patch (RFC 6902) documents
+ * 
+ * Attributes that are left out of a PUT body, removed by a JSON Patch or set to null
+ * by a merge patch are reset: to their default value when the model has one,
+ * otherwise to null. A PUT keeps write-only attributes and keptOnReplace attributes
+ * that are left out instead.
+ */
+
+import { Request } from 'express';
+import { Model, ModelStatic, Utils, ValidationError, ValidationErrorItem } from 'sequelize';
+import { ApiError, BadRequestError, ConflictError } from './errors';
+
+export interface WritableFields {
+  // Attributes clients may set when creating a record
+  create: string[];
+  // Attributes clients may change on an existing record
+  update: string[];
+  // Writable attributes that are never returned (e.g. password), a PUT keeps them when they are left out
+  writeOnly?: string[];
+  // Attributes only some callers may write (e.g. a user's role), a PUT keeps them when they are left out
+  keptOnReplace?: string[];
+}
+
+export const MERGE_PATCH_TYPE = 'application/merge-patch+json';
+export const JSON_PATCH_TYPE = 'application/json-patch+json';
+
+// Content types express.json() has to parse for PATCH requests
+export const JSON_BODY_TYPES = ['application/json', MERGE_PATCH_TYPE, JSON_PATCH_TYPE];
+
+type Values = Record<string, any>;
+
+interface PatchOperation {
+  op: string;
+  path: string;
+  from?: string;
+  value?: any;
+}
+
+function isPlainObject(value: unknown): value is Values {
+  return value != null && typeof value == 'object' && !Array.isArray(value);
+}
+
+/**
+ * Keep the writable attributes of a request body
+ * 
+ * @param body - The request body
+ * @param allowed - The attributes that may be written
+ * @returns Values - A copy of the body
+ * @throws BadRequestError - When the body is not an object or contains other attributes
+ */
+export function pickWritable(body: unknown, allowed: string[]): Values {
+  if (!isPlainObject(body))
+    throw new BadRequestError('Request body must be a JSON object', 'invalid_body');
+
+  const rejected = Object.keys(body).filter(name => !allowed.includes(name));
+  if (rejected.length > 0)
+    throw new BadRequestError(`Field(s) cannot be written: ${rejected.join(', ')}. Writable fields: ${allowed.join(', ')}`, 'field_not_writable');
+
+  return { ...body };
+}
+
+/**
+ * Get the value an attribute is reset to: its default, or null
+ */
+function getResetValue(model: ModelStatic<Model>, field: string): any {
+  const attribute = model.getAttributes()[field] as any;
+  if (attribute == null || attribute.defaultValue === undefined)
+    return null;
+
+  return Utils.toDefaultValue(attribute.defaultValue);
+}
+
+/**
+ * Build the values for a PUT request, which replaces every writable attribute
+ * 
+ * @param model - The model of the record being replaced
+ * @param body - The request body
+ * @param fields - The model's writable attributes
+ * @returns Values - The value of every writable attribute
+ * @throws ValidationError - When attributes without a default are missing
+ */
+export function buildReplacement(model: ModelStatic<Model>, body: unknown, fields: WritableFields): Values {
+  const values = pickWritable(body, fields.update);
+  const attributes = model.getAttributes() as Record<string, any>;
+  const missing: ValidationErrorItem[] = [];
+
+  for (const field of fields.update) {
+    if (values[field] !== undefined || fields.writeOnly?.includes(field) || fields.keptOnReplace?.includes(field))
+      continue;
+
+    const attribute = attributes[field];
+    if (attribute && attribute.allowNull == false && attribute.defaultValue === undefined)
+      missing.push(new ValidationErrorItem(`${field} is required`, 'notnull violation', field, null as any, null as any, 'required', 'required', []));
+    else
+      values[field] = getResetValue(model, field);
+  }
+
+  if (missing.length > 0)
+    throw new ValidationError('Required fields are missing', missing);
+
+  return values;
+}
+
+/**
+ * Apply a JSON Merge Patch (RFC 7396)
+ * 
+ * Attributes are flat, so a merge patch sets every attribute it contains and
+ * resets the ones set to null.
+ * 
+ * @param model - The model of the record being patched
+ * @param patch - The merge patch document
+ * @param fields - The model's writable attributes
+ * @returns Values - The attributes to change
+ */
+export function applyMergePatch(model: ModelStatic<Model>, patch: unknown, fields: WritableFields): Values {
+  const values = pickWritable(patch, fields.update);
+  for (const [field, value] of Object.entries(values)) {
+    if (value === null)
+      values[field] = getResetValue(model, field);
+  }
+
+  return values;
+}
+
+/**
+ * Read the attribute name from a JSON Pointer (RFC 6901)
+ * 
+ * Only top-level attributes can be addressed, e.g. /title.
+ */
+function parsePointer(pointer: unknown, name: string): string {
+  if (typeof pointer != 'string' || (/^\/[^/]+$/).test(pointer) == false)
+    throw new BadRequestError(`${name} must point at a top-level field, e.g. /title`, 'invalid_patch');
+
+  return pointer.slice(1).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Apply a JSON Patch (RFC 6902) to the current values of a record
+ * 
+ * Every operation is applied in order to a copy of the record. add, replace,
+ * remove, move and copy may only change writable attributes, including write-only
+ * ones the record does not return (e.g. replace /password); test and the source
+ * of copy may read any attribute the record returns. Nothing is written unless
+ * every operation succeeds.
+ */
+function applyJsonPatch(model: ModelStatic<Model>, record: Model, operations: unknown, fields: WritableFields): Values {
+  if (!Array.isArray(operations))
+    throw new BadRequestError('A JSON Patch document must be an array of operations', 'invalid_patch');
+
+  const document: Values = JSON.parse(JSON.stringify(record.toJSON()));
+  const values: Values = {};
+
+  const assertWritable = (field: string) => {
+    if (!fields.update.includes(field))
+      throw new BadRequestError(`Field cannot be written: ${field}. Writable fields: ${fields.update.join(', ')}`, 'field_not_writable');
+  };
+  const assertExists = (field: string) => {
+    if (!(field in document) && !fields.update.includes(field))
+      throw new BadRequestError(`Field /${field} does not exist`, 'invalid_patch');
+  };
+  const read = (field: string) => {
+    if (!(field in document))
+      throw new BadRequestError(`Field /${field} does not exist`, 'invalid_patch');
+
+    return document[field];
+  };
+  const write = (field: string, value: any) => {
+    assertWritable(field);
+    document[field] = value;
+    values[field] = value;
+  };
+
+  for (const [index, operation] of operations.entries()) {
+    if (!isPlainObject(operation) || typeof operation.op != 'string')
+      throw new BadRequestError(`Operation ${index} must be an object with an op`, 'invalid_patch');
+
+    const { op, value } = operation as PatchOperation;
+    const field = parsePointer(operation.path, `Operation ${index} path`);
+    const needsValue = op == 'add' || op == 'replace' || op == 'test';
+    if (needsValue && !('value' in operation))
+      throw new BadRequestError(`Operation ${index} (${op}) requires a value`, 'invalid_patch');
+
+    switch (op) {
+      case 'add':
+      case 'replace':
+        if (op == 'replace')
+          assertExists(field);
+        write(field, value);
+        break;
+
+      case 'remove':
+        assertExists(field);
+        write(field, getResetValue(model, field));
+        break;
+
+      case 'move':
+      case 'copy': {
+        const from = parsePointer(operation.from, `Operation ${index} from`);
+        const copied = read(from);
+        if (op == 'move' && from != field)
+          write(from, getResetValue(model, from));
+        write(field, copied);
+        break;
+      }
+
+      case 'test':
+        if (JSON.stringify(read(field)) != JSON.stringify(value))
+          throw new ConflictError(`Test failed: /${field} does not have the expected value`, 'patch_test_failed');
+        break;
+
+      default:
+        throw new BadRequestError(`Operation ${index} has an unknown op '${op}'`, 'invalid_patch');
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Build the values for a PATCH request from its Content-Type and body
+ * 
+ * - application/json-patch+json: a JSON Patch document
+ * - application/merge-patch+json or application/json: a JSON Merge Patch document
+ * 
+ * @param req - The PATCH request
+ * @param record - The record being patched
+ * @param fields - The model's writable attributes
+ * @returns Values - The attributes to change
+ * @throws ApiError - 415 for other content types, 400 for bad documents, 409 when a test operation fails
+ */
+export function buildPatch(req: Request, record: Model, fields: WritableFields): Values {
+  const model = record.constructor as ModelStatic<Model>;
+
+  if (req.is(JSON_PATCH_TYPE))
+    return applyJsonPatch(model, record, req.body, fields);
+
+  if (req.is(MERGE_PATCH_TYPE) || req.is('application/json'))
+    return applyMergePatch(model, req.body, fields);
+
+  throw new ApiError(415, 'unsupported_media_type', `PATCH requires an ${MERGE_PATCH_TYPE} or ${JSON_PATCH_TYPE} body`);
+}
@@ -0,0 +1,36 @@
+/**
+ * Request Context Utilities
+ * 
+ * This file keeps per-request state available to code that has no access to the request.
+ * It demonstrates:
+ * 1. AsyncLocalStorage, which follows a request through every await
+ * 2. Reading the authenticated user from model hooks
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface RequestContext {
+  // The authenticated user's id
+  actorId: number | null;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run the rest of a request on behalf of a user
+ * 
+ * @param actorId - The authenticated user's id
+ * @param callback - The rest of the request, e.g. Express's next
+ */
+export function runAsActor<T>(actorId: number, callback: () => T): T {
+  return storage.run({ actorId }, callback);
+}
+
+/**
+ * Get the user the current request runs on behalf of
+ * 
+ * @returns number | null - The user's id, or null outside an authenticated request
+ */
+export function getActorId(): number | null {
+  return storage.getStore()?.actorId ?? null;
+}
@@ -0,0 +1,121 @@
+/**
+ * Task Filter Utilities
+ * 
+ * This file translates the filter parameters of GET /api/tasks into a Sequelize where clause.
+ * It demonstrates:
+ * 1. Multi-value and range filters
+ * 2. Filtering through the TaskTags join table (any/all tags)
+ * 3. Reproducing Task.isOverdue in SQL
+ * 4. Validation errors for unknown parameters and bad values
+ * 
+ * Supported parameters:
+ * - status, priority: one or more values (status=pending,in_progress or status=pending&status=in_progress)
+ * - userId, projectId: one or more ids
+ * - tag: one or more tag ids or names, matched with tagMatch=any (default) or tagMatch=all
+ * - dueBefore, dueAfter: ISO 8601 dates
+ * - overdue: true or false, with the same meaning as Task.isOverdue
+ * - text: case-insensitive text contained in the title or description
+ */
+
+import { Op, WhereOptions, col, fn, literal, where as sqlWhere } from 'sequelize';
+import { Task, Tag } from '../models';
+import { TASK_STATUSES, TASK_PRIORITIES } from '../models/Task';
+import { PAGINATION_PARAMS } from './pagination';
+import { assertKnownParams, getValues, parseBoolean, parseDate, parseEnum, parseIds } from './queryParams';
+import { QueryError } from './errors';
+
+export const TASK_FILTER_PARAMS = [
+  'status', 'priority', 'userId', 'projectId', 'tag', 'tagMatch',
+  'dueBefore', 'dueAfter', 'overdue', 'text'
+];
+
+/**
+ * Build the condition matching tasks tagged with any or all of the given tags
+ * 
+ * @param values - Tag ids and/or names
+ * @param match - 'any' or 'all'
+ * @returns Promise<WhereOptions> - The condition on Task.id
+ */
+export async function buildTagWhere(values: string[], match: string): Promise<WhereOptions> {
+  const ids = values.filter(value => (/^\d+$/).test(value)).map(Number);
+  const names = values.filter(value => (/^\d+$/).test(value) == false);
+  const tags = await Tag.findAll({
+    attributes: ['id', 'name'],
+    where: { [Op.or]: [{ id: { [Op.in]: ids } }, { name: { [Op.in]: names } }] }
+  });
+  const tagIds = [...new Set(tags.map(tag => tag.id))];
+
+  // An unknown tag can never be matched when every tag is required
+  const allFound = values.every(value => tags.some(tag => String(tag.id) == value || tag.name == value));
+  if (tagIds.length == 0 || (match == 'all' && !allFound))
+    return { id: { [Op.in]: [] } };
+
+  const escape = (value: number) => Task.sequelize!.escape(value);
+  let subquery = `SELECT "taskId" FROM "TaskTags" WHERE "tagId" IN (${tagIds.map(escape).join(', ')})`;
+  if (match == 'all')
+    subquery += ` GROUP BY "taskId" HAVING COUNT(DISTINCT "tagId") = ${escape(tagIds.length)}`;
+
+  return { id: { [Op.in]: literal(`(${subquery})`) } };
+}
+
+/**
+ * Build the where clause for a task list query
+ * 
+ * @param query - The request's query parameters
+ * @param extraParams - Other parameters the endpoint accepts besides filters and pagination
+ * @returns Promise<WhereOptions> - The combined filter conditions
+ * @throws QueryError - When a parameter is unknown or has a bad value
+ */
+export async function buildTaskWhere(query: Record<string, any>, extraParams: string[] = []): Promise<WhereOptions> {
+  assertKnownParams(query, [...TASK_FILTER_PARAMS, ...PAGINATION_PARAMS, ...extraParams]);
+
+  const conditions: WhereOptions[] = [];
+
+  if (query.status !== undefined)
+    conditions.push({ status: { [Op.in]: parseEnum(query.status, 'status', TASK_STATUSES) } });
+
+  if (query.priority !== undefined)
+    conditions.push({ priority: { [Op.in]: parseEnum(query.priority, 'priority', TASK_PRIORITIES) } });
+
+  if (query.userId !== undefined)
+    conditions.push({ userId: { [Op.in]: parseIds(query.userId, 'userId') } });
+
+  if (query.projectId !== undefined)
+    conditions.push({ projectId: { [Op.in]: parseIds(query.projectId, 'projectId') } });
+
+  if (query.dueBefore !== undefined)
+    conditions.push({ dueDate: { [Op.lt]: parseDate(query.dueBefore, 'dueBefore') } });
+
+  if (query.dueAfter !== undefined)
+    conditions.push({ dueDate: { [Op.gt]: parseDate(query.dueAfter, 'dueAfter') } });
+
+  // Same rule as Task.isOverdue: past due and not completed
+  if (query.overdue !== undefined) {
+    const now = new Date();
+    if (parseBoolean(query.overdue, 'overdue'))
+      conditions.push({ status: { [Op.ne]: 'completed' }, dueDate: { [Op.lt]: now } });
+    else
+      conditions.push({ [Op.or]: [{ status: 'completed' }, { dueDate: { [Op.gte]: now } }] });
+  }
+
+  // instr instead of LIKE, so % and _ in the text are matched literally
+  if (query.text !== undefined) {
+    if (typeof query.text != 'string' || query.text.trim() == '')
+      throw new QueryError('text must be a single, non-empty value');
+
+    const text = query.text.trim().toLowerCase();
+    const contains = (attribute: string) =>
+      sqlWhere(fn('instr', fn('lower', col(`${Task.name}.${attribute}`)), text), { [Op.gt]: 0 });
+    conditions.push({ [Op.or]: [contains('title'), contains('description')] });
+  }
+
+  if (query.tagMatch !== undefined && query.tag === undefined)
+    throw new QueryError('tagMatch requires tag');
+
+  if (query.tag !== undefined) {
+    const match = query.tagMatch === undefined ? 'any' : parseEnum(query.tagMatch, 'tagMatch', ['any', 'all'])[0];
+    conditions.push(await buildTagWhere(getValues(query.tag, 'tag'), match));
+  }
+
+  return { [Op.and]: conditions };
+}
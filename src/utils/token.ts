@@ -0,0 +1,103 @@
+/**
+ * Token Utilities
+ * 
+ * This file contains the helpers used to issue and check authentication tokens.
+ * It demonstrates:
+ * 1. Signed, expiring JSON Web Tokens
+ * 2. Separate access and refresh tokens
+ * 3. Configuration through environment variables
+ */
+
+import jwt, { SignOptions } from 'jsonwebtoken';
+
+export type TokenType = 'access' | 'refresh';
+
+export interface TokenPayload {
+  sub: number;
+  type: TokenType;
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: string;
+}
+
+// Tests run without a .env file, every other environment must set JWT_SECRET
+const TEST_SECRET = 'test-secret';
+
+// Read lazily, app.ts only loads the .env file after the modules are imported
+function getSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (secret)
+    return secret;
+
+  if (process.env.NODE_ENV == 'test')
+    return TEST_SECRET;
+
+  throw new Error('JWT_SECRET is not configured');
+}
+
+/**
+ * Make sure tokens can be signed, called on startup so a missing JWT_SECRET
+ * stops the server instead of failing the first login
+ * 
+ * @throws Error - When JWT_SECRET is not set outside of tests
+ */
+export function assertTokenSecret(): void {
+  getSecret();
+}
+
+function getExpiry(type: TokenType): string {
+  if (type == 'refresh')
+    return process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+
+  return process.env.JWT_EXPIRES_IN || '1h';
+}
+
+/**
+ * Sign a token for a user
+ * 
+ * @param userId - The id of the authenticated user
+ * @param type - Whether this is an access or a refresh token
+ * @returns string - The signed token
+ */
+export function signToken(userId: number, type: TokenType = 'access'): string {
+  const options = { subject: String(userId), expiresIn: getExpiry(type) } as SignOptions;
+  return jwt.sign({ type }, getSecret(), options);
+}
+
+/**
+ * Issue a new access/refresh token pair for a user
+ * 
+ * @param userId - The id of the authenticated user
+ * @returns TokenPair - The tokens and their metadata
+ */
+export function issueTokens(userId: number): TokenPair {
+  return {
+    accessToken: signToken(userId, 'access'),
+    refreshToken: signToken(userId, 'refresh'),
+    tokenType: 'Bearer',
+    expiresIn: getExpiry('access')
+  };
+}
+
+/**
+ * Verify a token and return its payload
+ * 
+ * @param token - The token to verify
+ * @param type - The expected token type
+ * @returns TokenPayload | null - The payload, or null if the token is invalid, expired or of the wrong type
+ */
+export function verifyToken(token: string, type: TokenType = 'access'): TokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, getSecret()) as jwt.JwtPayload;
+    if (decoded.type != type || decoded.sub == null)
+      return null;
+
+    return { sub: Number(decoded.sub), type };
+  } catch (error) {
+    return null;
+  }
+}